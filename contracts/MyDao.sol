@@ -2,20 +2,40 @@
 pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/Checkpoints.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
- * @title MyDao
- * @dev Implements voting process along with vote delegation
+ * @title MyDaoBase
+ * @dev Implements voting process along with vote delegation. Governance parameters are set by the constructor,
+ * the genesis distribution by the constructor of `MyDao` or the initializer of `MyDaoUpgradeable`.
  */
-contract MyDao is ERC20 {
+abstract contract MyDaoBase is ERC20Permit {
+    using Checkpoints for Checkpoints.History;
+
     uint8 constant DECIMALS = 6;
-    uint256 constant MDA = 10 ** DECIMALS;
+    uint256 constant LIST_SENTINEL = type(uint256).max;
 
-    uint8 constant MAX_PROPOSALS = 3;
-    uint256 constant VOTING_PERIOD = 3 days;
+    /**
+     * @dev EIP-712 type of a vote signed by the voter and submitted by anyone, its nonces are shared with permit
+     */
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256("Ballot(uint256 proposalId,uint8 vote,uint256 nonce,uint256 deadline)");
 
     enum Vote {Abstain, Yes, No}
-    enum ProposalState {Pending, Accepted, Rejected, Expired}
+    enum ProposalState {Pending, Accepted, Rejected, Expired, Executed, Queued, Cancelled}
+
+    /**
+     * @dev How a proposal is decided once its voting period is over. Under every rule a proposal is resolved
+     * as soon as one side exceeds the threshold share of the total supply.
+     * AbsoluteMajority: nothing else, the proposal expires.
+     * QuorumMajority: if the quorum is reached, the side with more votes wins, a tie rejects the proposal.
+     * Supermajority: if the quorum is reached, the proposal is accepted when the threshold share
+     * of the cast votes is exceeded, otherwise it is rejected.
+     */
+    enum DecisionRule {AbsoluteMajority, QuorumMajority, Supermajority}
 
     struct Proposal {
         bytes32 proposalHash;
@@ -24,34 +44,235 @@ contract MyDao is ERC20 {
         uint256 yesVotes;
         uint256 noVotes;
         ProposalState state;
-        mapping(address => Vote) votes;
+        bytes32 actionsHash;
+        uint256 eta;
+        uint256 snapshot;
+        address proposer;
+        /**
+         * @dev Number of amendments, votes of the previous versions are kept under their numbers
+         */
+        uint256 amendments;
+        /**
+         * @dev Deposit paid by the creator, returned or forfeited as paid even if an upgrade changes the parameter
+         */
+        uint256 deposit;
+        mapping(uint256 => mapping(address => Vote)) votes;
+        /**
+         * @dev Snapshot balances of the delegators of an account which voted directly instead of it
+         */
+        mapping(uint256 => mapping(address => uint256)) overriddenPower;
+    }
+
+    /**
+     * @dev Call performed by the DAO when an executable proposal is executed
+     */
+    struct Action {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+
+    /**
+     * @dev Ballot signed by a voter, see `voteBySig`
+     */
+    struct SignedBallot {
+        uint256 proposalId;
+        Vote vote;
+        uint256 nonce;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    struct GovernanceParams {
+        uint8 maxProposals;
+        uint256 votingPeriod;
+        uint256 initialSupply;
+        uint8 thresholdPercent;
+        DecisionRule decisionRule;
+        uint8 quorumPercent;
+        uint256 timelockDelay;
+        address guardian;
+        uint256 proposalThreshold;
+        uint256 proposalDeposit;
+    }
+
+    /**
+     * @dev Tokens minted to an account at deployment
+     */
+    struct Allocation {
+        address account;
+        uint256 amount;
     }
 
-    uint256[] public currentProposals;
+    /**
+     * @dev Initial distribution of the supply: balances minted at deployment and a Merkle root of
+     * `(account, amount)` leaves claimable from the DAO, which holds the claim supply until then
+     */
+    struct Genesis {
+        Allocation[] allocations;
+        bytes32 claimRoot;
+        uint256 claimSupply;
+    }
+
+    uint8 public immutable maxProposals;
+    uint256 public immutable votingPeriod;
+    uint256 public immutable initialSupply;
+    uint8 public immutable thresholdPercent;
+    DecisionRule public immutable decisionRule;
+    uint8 public immutable quorumPercent;
+    uint256 public immutable timelockDelay;
+    address public immutable guardian;
+    /**
+     * @dev Voting power an account needs to create a proposal
+     */
+    uint256 public immutable proposalThreshold;
+    /**
+     * @dev Tokens the creator pays to the DAO for a proposal, they are returned if the proposal is accepted
+     * or rejected and kept by the DAO if it expires or is cancelled by its creator
+     */
+    uint256 public immutable proposalDeposit;
+    /**
+     * @dev Merkle root of the claimable balances, leaves are `keccak256(keccak256(abi.encode(account, amount)))`
+     */
+    bytes32 public claimRoot;
+
+    /**
+     * @dev Claim supply held by the DAO which has not been claimed yet
+     */
+    uint256 public unclaimedSupply;
+    mapping(address => bool) public claimed;
+
+    /**
+     * @dev Deposits of the pending proposals, held by the DAO until they are returned or forfeited
+     */
+    uint256 public depositsHeld;
+
+    /**
+     * @dev Pending proposals in creation order, a circular doubly linked list of proposal IDs
+     * starting and ending at the sentinel
+     */
+    mapping(uint256 => uint256) private nextActiveProposal;
+    mapping(uint256 => uint256) private prevActiveProposal;
+    uint256 public activeProposalsCount;
+
     Proposal[] public proposals;
 
+    /**
+     * @dev Balance history of every account, votes are weighted by the balance at the proposal snapshot
+     */
+    mapping(address => Checkpoints.History) private balanceCheckpoints;
+
+    /**
+     * @dev Delegate history of every account, zero while the account votes for itself
+     */
+    mapping(address => Checkpoints.History) private delegateCheckpoints;
+
+    /**
+     * @dev Voting power history of every account, the sum of the balances of the accounts delegating to it
+     */
+    mapping(address => Checkpoints.History) private votingPowerCheckpoints;
+
     event ProposalCreated(uint256 proposalId, bytes32 proposal, address creator);
     event ProposalAccepted(uint256 proposalId, bytes32 proposal);
     event ProposalRejected(uint256 proposalId, bytes32 proposal);
     event ProposalExpired(uint256 proposalId, bytes32 proposal);
+    event ProposalExecuted(uint256 proposalId, bytes32 proposal);
+    event ProposalQueued(uint256 proposalId, bytes32 proposal, uint256 eta);
+    event ProposalCancelled(uint256 proposalId, bytes32 proposal);
+    event ProposalAmended(uint256 proposalId, bytes32 proposal);
 
     event Voted(uint256 proposalId, address voter, Vote vote);
+    event VotedWithReason(uint256 proposalId, address voter, Vote vote, string reason);
+    event CommentAdded(uint256 proposalId, address author, bytes32 commentHash, bytes32 parentHash);
+    event DelegateChanged(address delegator, address fromDelegate, address toDelegate);
+    event Claimed(address account, uint256 amount);
+    event BallotFailed(uint256 index, bytes reason);
 
+    // The checks are functions so that their revert strings are not inlined in every function using the modifiers
     modifier onlyTokenHolders() {
-        require(balanceOf(msg.sender) > 0, "You must hold tokens to vote or create proposals");
+        _checkTokenHolder();
         _;
     }
 
     modifier proposalExists(uint256 proposalId) {
-        require(proposalId < proposals.length, "Proposal does not exist");
+        _checkProposalExists(proposalId);
         _;
     }
 
+    function _checkTokenHolder() private view {
+        require(balanceOf(msg.sender) > 0, "You must hold tokens to vote or create proposals");
+    }
+
+    function _checkProposalExists(uint256 _proposalId) private view {
+        require(_proposalId < proposals.length, "Proposal does not exist");
+    }
+
+    /**
+     * @dev Constructor that validates and sets the governance parameters.
+     * @param _params Governance parameters: maximum number of pending proposals, voting period,
+     * initial supply, percent of the total supply which must be exceeded to accept or reject a proposal,
+     * decision rule, percent of the total supply which must vote for the proposal to be decided by the rule,
+     * delay between acceptance and execution of executable proposals, account which can cancel them,
+     * voting power needed to create a proposal and refundable deposit paid for it
+     */
+    constructor(GovernanceParams memory _params) ERC20("MyDao", "MDA") ERC20Permit("MyDao") {
+        require(_params.maxProposals > 0, "Max proposals must be positive");
+        require(_params.votingPeriod > 0, "Voting period must be positive");
+        require(_params.initialSupply > 0, "Initial supply must be positive");
+        require(_params.thresholdPercent >= 50 && _params.thresholdPercent < 100, "Threshold must be in [50, 100)");
+        require(_params.quorumPercent <= _params.thresholdPercent, "Quorum must not exceed threshold");
+        require(_params.proposalThreshold <= _params.initialSupply, "Proposal threshold exceeds initial supply");
+        require(_params.proposalDeposit <= _params.initialSupply, "Proposal deposit exceeds initial supply");
+
+        maxProposals = _params.maxProposals;
+        votingPeriod = _params.votingPeriod;
+        initialSupply = _params.initialSupply;
+        thresholdPercent = _params.thresholdPercent;
+        decisionRule = _params.decisionRule;
+        quorumPercent = _params.quorumPercent;
+        timelockDelay = _params.timelockDelay;
+        guardian = _params.guardian;
+        proposalThreshold = _params.proposalThreshold;
+        proposalDeposit = _params.proposalDeposit;
+    }
+
     /**
-     * @dev Constructor that gives msg.sender all of existing tokens.
+     * @dev Set up the proposal list and mint the initial supply, to msg.sender unless a genesis distribution
+     * is given
+     * @param _genesis Allocations and claim root with the claimable supply, together they must match
+     * the initial supply. Without allocations and claim root msg.sender gets the whole initial supply.
+     * @param _initialSupply uint256 initial supply, immutables cannot be read during construction
      */
-    constructor() ERC20("MyDao", "MDA") {
-        _mint(msg.sender, 100 * MDA);
+    function _initializeGenesis(Genesis memory _genesis, uint256 _initialSupply) internal {
+        nextActiveProposal[LIST_SENTINEL] = LIST_SENTINEL;
+        prevActiveProposal[LIST_SENTINEL] = LIST_SENTINEL;
+
+        require((_genesis.claimRoot == 0) == (_genesis.claimSupply == 0), "Claim root and supply must be set together");
+        claimRoot = _genesis.claimRoot;
+        if (_genesis.allocations.length == 0 && _genesis.claimRoot == 0) {
+            _mint(msg.sender, _initialSupply);
+            return;
+        }
+
+        uint256 total = _genesis.claimSupply;
+        for (uint256 i = 0; i < _genesis.allocations.length; i++) {
+            _mint(_genesis.allocations[i].account, _genesis.allocations[i].amount);
+            total += _genesis.allocations[i].amount;
+        }
+        require(total == _initialSupply, "Genesis total does not match initial supply");
+
+        if (_genesis.claimSupply > 0) {
+            unclaimedSupply = _genesis.claimSupply;
+            _mint(address(this), _genesis.claimSupply);
+        }
+    }
+
+    /**
+     * @dev The DAO can hold ether to be sent by executed proposals
+     */
+    receive() external payable {
     }
 
     function decimals() public view virtual override returns (uint8) {
@@ -65,7 +286,118 @@ contract MyDao is ERC20 {
      * @return Vote of the voter
      */
     function getVote(uint256 _proposalId, address _voter) public view proposalExists(_proposalId) returns (Vote) {
-        return proposals[_proposalId].votes[_voter];
+        Proposal storage proposal = proposals[_proposalId];
+        return proposal.votes[proposal.amendments][_voter];
+    }
+
+    /**
+     * @dev Get the current state of a proposal. A pending proposal whose voting period is over is reported
+     * in the state `finalize` would move it to, while its stored state stays `Pending` until then.
+     * @param _proposalId uint256 ID of the proposal
+     * @return ProposalState of the proposal at the current block
+     */
+    function state(uint256 _proposalId) public view proposalExists(_proposalId) returns (ProposalState) {
+        Proposal storage proposal = proposals[_proposalId];
+
+        if (proposal.state != ProposalState.Pending || proposal.ttl >= block.timestamp) {
+            return proposal.state;
+        }
+
+        ProposalState outcome = _decide(proposal);
+        if (outcome == ProposalState.Accepted && proposal.actionsHash != bytes32(0) && timelockDelay > 0) {
+            return ProposalState.Queued;
+        }
+        return outcome;
+    }
+
+    /**
+     * @dev Get balance of an account at the end of a past block
+     * @param _account address of the account
+     * @param _blockNumber uint256 number of a mined block
+     * @return uint256 balance of the account
+     */
+    function getPastBalance(address _account, uint256 _blockNumber) public view returns (uint256) {
+        return balanceCheckpoints[_account].getAtProbablyRecentBlock(_blockNumber);
+    }
+
+    /**
+     * @dev Get voting weight of a voter for a proposal, which is the voter balance at the proposal snapshot
+     * @param _proposalId uint256 ID of the proposal
+     * @param _voter address of the voter
+     * @return uint256 voting weight
+     */
+    function getVotingWeight(uint256 _proposalId, address _voter)
+        public view proposalExists(_proposalId) returns (uint256)
+    {
+        Proposal storage proposal = proposals[_proposalId];
+
+        uint256 weight = getPastVotingPower(_voter, proposal.snapshot)
+            - proposal.overriddenPower[proposal.amendments][_voter];
+        if (_getPastDelegate(_voter, proposal.snapshot) != _voter) {
+            weight += getPastBalance(_voter, proposal.snapshot);
+        }
+        return weight;
+    }
+
+    /**
+     * @dev Get the account voting with the balance of an account, the account itself unless it delegated
+     * @param _account address of the account
+     * @return address of the delegate
+     */
+    function delegates(address _account) public view returns (address) {
+        address delegatee = address(uint160(delegateCheckpoints[_account].latest()));
+        return delegatee == address(0) ? _account : delegatee;
+    }
+
+    /**
+     * @dev Get voting power of an account
+     * @param _account address of the account
+     * @return uint256 balances of the account and its delegators, excluding the ones delegated further
+     */
+    function getVotingPower(address _account) public view returns (uint256) {
+        return votingPowerCheckpoints[_account].latest();
+    }
+
+    /**
+     * @dev Get voting power of an account at the end of a past block
+     * @param _account address of the account
+     * @param _blockNumber uint256 number of a mined block
+     * @return uint256 voting power of the account
+     */
+    function getPastVotingPower(address _account, uint256 _blockNumber) public view returns (uint256) {
+        return votingPowerCheckpoints[_account].getAtProbablyRecentBlock(_blockNumber);
+    }
+
+    /**
+     * @dev Delegate voting power of the sender balance to another account, delegating to the sender
+     * itself takes it back. Delegation is not transitive: the delegate cannot pass the received power on.
+     * @param _delegatee address of the delegate
+     */
+    function delegate(address _delegatee) public {
+        require(_delegatee != address(0), "Cannot delegate to the zero address");
+
+        address currentDelegate = delegates(msg.sender);
+        delegateCheckpoints[msg.sender].push(_delegatee == msg.sender ? 0 : uint160(_delegatee));
+        emit DelegateChanged(msg.sender, currentDelegate, _delegatee);
+
+        _moveVotingPower(currentDelegate, _delegatee, balanceOf(msg.sender));
+    }
+
+    /**
+     * @dev Claim the sender's balance from the genesis claim tree, once per account
+     * @param _amount uint256 amount of the sender's leaf
+     * @param _proof bytes32[] Merkle proof of the leaf
+     */
+    function claim(uint256 _amount, bytes32[] calldata _proof) public {
+        require(!claimed[msg.sender], "Already claimed");
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, _amount))));
+        require(MerkleProof.verifyCalldata(_proof, claimRoot, leaf), "Invalid claim proof");
+        require(_amount <= unclaimedSupply, "Claim exceeds unclaimed supply");
+
+        claimed[msg.sender] = true;
+        unclaimedSupply -= _amount;
+        _transfer(address(this), msg.sender, _amount);
+        emit Claimed(msg.sender, _amount);
     }
 
     /**
@@ -76,23 +408,120 @@ contract MyDao is ERC20 {
         return proposals.length;
     }
 
+    /**
+     * @dev Get IDs of the pending proposals in creation order, including the ones
+     * whose voting period is over but which are not finalized yet
+     * @return uint256[] IDs of the active proposals
+     */
+    function activeProposals() public view returns (uint256[] memory) {
+        uint256[] memory ids = new uint256[](activeProposalsCount);
+
+        uint256 id = nextActiveProposal[LIST_SENTINEL];
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = id;
+            id = nextActiveProposal[id];
+        }
+
+        return ids;
+    }
+
     /**
      * @dev Creates a new proposal
      * @param _proposalHash The hash of the proposal
      */
     function createProposal(bytes32 _proposalHash) public onlyTokenHolders {
-        assert(currentProposals.length <= MAX_PROPOSALS);
-
-        if (currentProposals.length == MAX_PROPOSALS) {
-            uint256 oldestProposalId = currentProposals[0];
-            Proposal storage oldestProposal = proposals[oldestProposalId];
-            if (oldestProposal.ttl < block.timestamp) {
-                oldestProposal.state = ProposalState.Expired;
-                emit ProposalExpired(oldestProposalId, oldestProposal.proposalHash);
-                delete currentProposals[0];
-            } else {
-                revert("Max number of pending proposals reached");
-            }
+        _createProposal(_proposalHash, bytes32(0));
+    }
+
+    /**
+     * @dev Creates a new proposal which performs actions when it is executed
+     * @param _proposalHash The hash of the proposal
+     * @param _actionsHash keccak256 of the ABI-encoded Action[] to perform
+     */
+    function createExecutableProposal(bytes32 _proposalHash, bytes32 _actionsHash) public onlyTokenHolders {
+        require(_actionsHash != bytes32(0), "Actions hash must not be empty");
+        _createProposal(_proposalHash, _actionsHash);
+    }
+
+    /**
+     * @dev Perform the actions of an accepted proposal once its timelock is over,
+     * the proposal can be executed only once
+     * @param _proposalId uint256 ID of the proposal
+     * @param _actions Actions the proposal was created with
+     */
+    function execute(uint256 _proposalId, Action[] calldata _actions) public payable proposalExists(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+
+        if (proposal.state == ProposalState.Queued) {
+            require(proposal.eta <= block.timestamp, "Timelock is not over");
+        } else {
+            require(proposal.state == ProposalState.Accepted, "Proposal is not accepted");
+        }
+        require(proposal.actionsHash == keccak256(abi.encode(_actions)), "Actions do not match the proposal");
+
+        // Set the state before the calls, so that they cannot execute the proposal again
+        proposal.state = ProposalState.Executed;
+
+        for (uint256 i = 0; i < _actions.length; i++) {
+            (bool success, bytes memory result) = _actions[i].target.call{value: _actions[i].value}(_actions[i].data);
+            Address.verifyCallResult(success, result, "Action failed");
+        }
+
+        emit ProposalExecuted(_proposalId, proposal.proposalHash);
+    }
+
+    /**
+     * @dev Cancel a proposal: the creator can withdraw it during the voting period, freeing its slot,
+     * and the guardian can cancel it once it is queued
+     * @param _proposalId uint256 ID of the proposal
+     */
+    function cancel(uint256 _proposalId) public proposalExists(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+
+        if (proposal.state == ProposalState.Pending) {
+            require(msg.sender == proposal.proposer, "Only creator can cancel pending proposals");
+            require(proposal.ttl >= block.timestamp, "Proposal is expired");
+
+            _removeActiveProposal(_proposalId);
+            depositsHeld -= proposal.deposit;
+        } else {
+            require(proposal.state == ProposalState.Queued, "Proposal is not pending or queued");
+            require(msg.sender == guardian, "Only guardian can cancel proposals");
+        }
+
+        _cancelProposal(proposal);
+    }
+
+    /**
+     * @dev Replace the hash of a pending proposal. Votes are reset with a new snapshot, as if the proposal
+     * was created again, but the TTL is kept so that amendments cannot hold a slot beyond the voting period.
+     * @param _proposalId uint256 ID of the proposal
+     * @param _newHash The hash of the amended proposal
+     */
+    function amend(uint256 _proposalId, bytes32 _newHash) public proposalExists(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+
+        require(msg.sender == proposal.proposer, "Only creator can amend proposals");
+        require(proposal.state == ProposalState.Pending, "Proposal is not pending");
+        require(proposal.ttl >= block.timestamp, "Proposal is expired");
+
+        proposal.proposalHash = _newHash;
+        proposal.yesVotes = 0;
+        proposal.noVotes = 0;
+        proposal.snapshot = block.number - 1;
+        proposal.amendments++;
+
+        emit ProposalAmended(_proposalId, _newHash);
+    }
+
+    function _createProposal(bytes32 _proposalHash, bytes32 _actionsHash) internal {
+        require(getVotingPower(msg.sender) >= proposalThreshold, "Voting power is below the proposal threshold");
+        require(balanceOf(msg.sender) >= proposalDeposit, "Balance is below the proposal deposit");
+
+        // More proposals than the maximum can be pending after an upgrade lowered it
+        if (activeProposalsCount >= maxProposals) {
+            _finalizeExpiredProposals();
+            require(activeProposalsCount < maxProposals, "Max number of pending proposals reached");
         }
 
         uint256 id = proposals.length;
@@ -100,66 +529,277 @@ contract MyDao is ERC20 {
         Proposal storage proposal = proposals.push();
         proposal.proposalHash = _proposalHash;
         proposal.id = id;
-        proposal.ttl = block.timestamp + VOTING_PERIOD;
+        proposal.ttl = block.timestamp + votingPeriod;
         proposal.yesVotes = 0;
         proposal.noVotes = 0;
         proposal.state = ProposalState.Pending;
+        proposal.actionsHash = _actionsHash;
+        // Votes are weighted by balances before the proposal, so tokens cannot be moved between voters mid-vote
+        proposal.snapshot = block.number - 1;
+        proposal.proposer = msg.sender;
+        proposal.deposit = proposalDeposit;
+
+        _addActiveProposal(id);
 
-        currentProposals.push(id);
+        // The deposit is taken after the snapshot, so it still counts in the creator vote
+        if (proposalDeposit > 0) {
+            depositsHeld += proposalDeposit;
+            _transfer(msg.sender, address(this), proposalDeposit);
+        }
 
         emit ProposalCreated(id, _proposalHash, msg.sender);
     }
 
     /**
-     * @dev Vote for a proposal
+     * @dev Vote for a pending proposal, or counter-vote a queued one before its eta,
+     * with the voter weight at the proposal snapshot. A delegator voting YES or NO overrides its delegate
+     * with its own balance, voting ABSTAIN gives the balance back to the delegate.
      * @param _proposalId uint256 ID of the proposal
      * @param _vote Vote to cast
      */
-    function vote(uint256 _proposalId, Vote _vote) public onlyTokenHolders proposalExists(_proposalId) {
+    function vote(uint256 _proposalId, Vote _vote) public proposalExists(_proposalId) {
+        _castVote(_proposalId, msg.sender, _vote);
+    }
+
+    /**
+     * @dev Vote for a proposal and explain the vote, the reason is emitted after the usual events
+     * @param _proposalId uint256 ID of the proposal
+     * @param _vote Vote to cast
+     * @param _reason Rationale of the vote
+     */
+    function voteWithReason(uint256 _proposalId, Vote _vote, string calldata _reason)
+        public proposalExists(_proposalId)
+    {
+        _castVote(_proposalId, msg.sender, _vote);
+        emit VotedWithReason(_proposalId, msg.sender, _vote, _reason);
+    }
+
+    /**
+     * @dev Attach a comment to a proposal, the comment text is stored off-chain
+     * @param _proposalId uint256 ID of the proposal
+     * @param _commentHash The hash of the comment
+     * @param _parentHash The hash of the comment this one replies to, zero for top-level comments
+     */
+    function comment(uint256 _proposalId, bytes32 _commentHash, bytes32 _parentHash)
+        public onlyTokenHolders proposalExists(_proposalId)
+    {
+        require(_commentHash != bytes32(0), "Comment hash must not be empty");
+        emit CommentAdded(_proposalId, msg.sender, _commentHash, _parentHash);
+    }
+
+    /**
+     * @dev Vote for several proposals at once, all votes are cast in order or none of them
+     * @param _proposalIds uint256[] IDs of the proposals, the same proposal can be voted several times
+     * @param _votes Vote[] votes to cast, one per proposal ID
+     */
+    function voteBatch(uint256[] calldata _proposalIds, Vote[] calldata _votes) public {
+        require(_proposalIds.length == _votes.length, "Proposal IDs and votes differ in length");
+
+        for (uint256 i = 0; i < _proposalIds.length; i++) {
+            require(_proposalIds[i] < proposals.length, "Proposal does not exist");
+            _castVote(_proposalIds[i], msg.sender, _votes[i]);
+        }
+    }
+
+    /**
+     * @dev Vote with a ballot signed by the voter, so that the voter does not pay for gas
+     * @param _proposalId uint256 ID of the proposal
+     * @param _vote Vote to cast
+     * @param _nonce uint256 current nonce of the voter
+     * @param _deadline uint256 timestamp after which the signature is no longer valid
+     * @param _v uint8 recovery byte of the signature
+     * @param _r bytes32 first half of the signature
+     * @param _s bytes32 second half of the signature
+     */
+    function voteBySig(
+        uint256 _proposalId,
+        Vote _vote,
+        uint256 _nonce,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) public proposalExists(_proposalId) {
+        require(block.timestamp <= _deadline, "Signature expired");
+
+        bytes32 structHash = keccak256(abi.encode(BALLOT_TYPEHASH, _proposalId, _vote, _nonce, _deadline));
+        address voter = ECDSA.recover(_hashTypedDataV4(structHash), _v, _r, _s);
+        require(_nonce == _useNonce(voter), "Invalid nonce");
+
+        _castVote(_proposalId, voter, _vote);
+    }
+
+    /**
+     * @dev Submit several signed ballots in one transaction. A failed ballot does not stop the batch,
+     * its index in the batch and its revert data are emitted in `BallotFailed` instead.
+     * @param _ballots SignedBallot[] ballots in submission order, ballots of a voter must be in nonce order
+     */
+    function voteBySigBatch(SignedBallot[] calldata _ballots) public {
+        for (uint256 i = 0; i < _ballots.length; i++) {
+            SignedBallot calldata ballot = _ballots[i];
+            try this.voteBySig(
+                ballot.proposalId, ballot.vote, ballot.nonce, ballot.deadline, ballot.v, ballot.r, ballot.s
+            ) {
+            } catch (bytes memory reason) {
+                // Only running out of gas leaves no revert data, the whole batch fails so gas is estimated for it
+                require(reason.length > 0, "Not enough gas for the ballots");
+                emit BallotFailed(i, reason);
+            }
+        }
+    }
+
+    /**
+     * @dev Cast a vote of a voter, the voter is the sender or the signer of a ballot
+     */
+    function _castVote(uint256 _proposalId, address _voter, Vote _vote) internal {
         Proposal storage proposal = proposals[_proposalId];
 
-        require(proposal.state == ProposalState.Pending, "Proposal is not pending");
-        require(proposal.ttl >= block.timestamp, "Proposal is expired");
-        require(proposal.votes[msg.sender] != _vote, "You already voted this way");
+        uint256 amount = getVotingWeight(_proposalId, _voter);
+        require(amount > 0, "You must hold tokens to vote or create proposals");
 
-        uint256 amount = balanceOf(msg.sender);
+        if (proposal.state == ProposalState.Queued) {
+            require(proposal.eta > block.timestamp, "Timelock is over");
+        } else {
+            require(proposal.state == ProposalState.Pending, "Proposal is not pending");
+            require(proposal.ttl >= block.timestamp, "Proposal is expired");
+        }
+        Vote previousVote = proposal.votes[proposal.amendments][_voter];
+        require(previousVote != _vote, "You already voted this way");
 
-        _subVotes(proposal, proposal.votes[msg.sender], amount);
+        _subVotes(proposal, previousVote, amount);
         _addVotes(proposal, _vote, amount);
 
-        _changeVote(proposal, msg.sender, _vote);
+        _changeVote(proposal, _voter, _vote);
+
+        // Vote of the delegate which got the balance back, its side is the one which grew
+        Vote delegateVote = Vote.Abstain;
+        if (previousVote == Vote.Abstain) {
+            _overrideDelegate(proposal, _voter);
+        } else if (_vote == Vote.Abstain) {
+            delegateVote = _restoreDelegate(proposal, _voter);
+        }
 
-        _checkProposalState(proposal, _vote);
+        if (proposal.state == ProposalState.Queued) {
+            _checkProposalCancelled(proposal);
+        } else {
+            _checkProposalState(proposal, _vote == Vote.Abstain ? delegateVote : _vote);
+        }
     }
 
-    function _transfer(address _sender, address _recipient, uint256 _amount) internal virtual override {
-        super._transfer(_sender, _recipient, _amount);
+    /**
+     * @dev Decide a proposal by the decision rule once its voting period is over, votes are accepted
+     * until the TTL inclusive so the proposal can be finalized from the next second on
+     * @param _proposalId uint256 ID of the proposal
+     */
+    function finalize(uint256 _proposalId) public proposalExists(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
 
-        for (uint8 i = 0; i < currentProposals.length; i++) {
-            uint256 proposalId = currentProposals[i];
+        require(proposal.state == ProposalState.Pending, "Proposal is not pending");
+        require(proposal.ttl < block.timestamp, "Voting period is not over");
 
-            Proposal storage proposal = proposals[proposalId];
+        _finalize(proposal);
+    }
 
-            if (proposal.ttl < block.timestamp) {
-                continue;
-            }
+    /**
+     * @dev Mark a pending proposal as expired once its voting period is over. Anyone can call it,
+     * it fails for proposals which the decision rule accepts or rejects, those are decided by `finalize`.
+     * @param _proposalId uint256 ID of the proposal
+     */
+    function expire(uint256 _proposalId) public proposalExists(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
 
-            Vote senderVote = proposal.votes[_sender];
-            Vote recipientVote = proposal.votes[_recipient];
+        require(proposal.state == ProposalState.Pending, "Proposal is not pending");
+        require(proposal.ttl < block.timestamp, "Voting period is not over");
+        require(_decide(proposal) == ProposalState.Expired, "Proposal is decided, finalize it instead");
 
-            if (senderVote != Vote.Abstain && balanceOf(_sender) == 0) {
-                _changeVote(proposal, _sender, Vote.Abstain);
-            }
+        _resolveProposal(proposal, ProposalState.Expired);
+    }
+
+    /**
+     * @dev Record the new balances of both sides of a transfer, mint or burn. Transfers from the DAO,
+     * e.g. by executed actions or with an allowance they granted, cannot spend the held deposits
+     * and the unclaimed supply.
+     */
+    function _afterTokenTransfer(address _from, address _to, uint256 _amount) internal virtual override {
+        super._afterTokenTransfer(_from, _to, _amount);
 
-            if (senderVote != recipientVote) {
-                _subVotes(proposal, senderVote, _amount);
-                _addVotes(proposal, recipientVote, _amount);
+        if (_from == address(this)) {
+            require(
+                balanceOf(address(this)) >= depositsHeld + unclaimedSupply,
+                "Transfer exceeds the unreserved DAO balance"
+            );
+        }
 
-                if (recipientVote != Vote.Abstain) {
-                    _checkProposalState(proposal, recipientVote);
-                }
-            }
+        if (_from != address(0)) {
+            balanceCheckpoints[_from].push(balanceOf(_from));
+        }
+        if (_to != address(0)) {
+            balanceCheckpoints[_to].push(balanceOf(_to));
+        }
+
+        _moveVotingPower(delegates(_from), delegates(_to), _amount);
+    }
+
+    /**
+     * @dev Move voting power between delegates, the zero address stands for minted or burned tokens
+     * @param _from address of the delegate losing the power
+     * @param _to address of the delegate getting the power
+     * @param _amount Amount of voting power
+     */
+    function _moveVotingPower(address _from, address _to, uint256 _amount) internal {
+        if (_from == _to || _amount == 0) {
+            return;
+        }
+
+        if (_from != address(0)) {
+            votingPowerCheckpoints[_from].push(votingPowerCheckpoints[_from].latest() - _amount);
+        }
+        if (_to != address(0)) {
+            votingPowerCheckpoints[_to].push(votingPowerCheckpoints[_to].latest() + _amount);
+        }
+    }
+
+    /**
+     * @dev Get delegate of an account at the end of a past block
+     */
+    function _getPastDelegate(address _account, uint256 _blockNumber) internal view returns (address) {
+        address delegatee = address(uint160(delegateCheckpoints[_account].getAtProbablyRecentBlock(_blockNumber)));
+        return delegatee == address(0) ? _account : delegatee;
+    }
+
+    /**
+     * @dev Take the snapshot balance of a delegator which voted directly from its delegate votes
+     * @param _proposal Proposal the delegator voted for
+     * @param _delegator address of the delegator
+     */
+    function _overrideDelegate(Proposal storage _proposal, address _delegator) internal {
+        address delegatee = _getPastDelegate(_delegator, _proposal.snapshot);
+        if (delegatee == _delegator) {
+            return;
         }
+
+        uint256 balance = getPastBalance(_delegator, _proposal.snapshot);
+        _proposal.overriddenPower[_proposal.amendments][delegatee] += balance;
+        _subVotes(_proposal, _proposal.votes[_proposal.amendments][delegatee], balance);
+    }
+
+    /**
+     * @dev Give the snapshot balance of a delegator which abstained back to its delegate votes
+     * @param _proposal Proposal the delegator voted for
+     * @param _delegator address of the delegator
+     * @return Vote of the delegate if its votes grew, ABSTAIN otherwise
+     */
+    function _restoreDelegate(Proposal storage _proposal, address _delegator) internal returns (Vote) {
+        address delegatee = _getPastDelegate(_delegator, _proposal.snapshot);
+        uint256 balance = getPastBalance(_delegator, _proposal.snapshot);
+        if (delegatee == _delegator || balance == 0) {
+            return Vote.Abstain;
+        }
+
+        Vote delegateVote = _proposal.votes[_proposal.amendments][delegatee];
+        _proposal.overriddenPower[_proposal.amendments][delegatee] -= balance;
+        _addVotes(_proposal, delegateVote, balance);
+        return delegateVote;
     }
 
     /**
@@ -213,12 +853,10 @@ contract MyDao is ERC20 {
         assert(_proposal.state == ProposalState.Pending);
         assert(_proposal.yesVotes > 0);
 
-        if (_proposal.yesVotes > totalSupply() / 2) {
+        if (_proposal.yesVotes > _threshold()) {
             assert(_proposal.yesVotes > _proposal.noVotes);
 
-            _proposal.state = ProposalState.Accepted;
-            emit ProposalAccepted(_proposal.id, _proposal.proposalHash);
-            _removeProposal(_proposal.id);
+            _resolveProposal(_proposal, ProposalState.Accepted);
         }
     }
 
@@ -230,39 +868,172 @@ contract MyDao is ERC20 {
         assert(_proposal.state == ProposalState.Pending);
         assert(_proposal.noVotes > 0);
 
-        if (_proposal.noVotes > totalSupply() / 2) {
+        if (_proposal.noVotes > _threshold()) {
             assert(_proposal.noVotes > _proposal.yesVotes);
 
-            _proposal.state = ProposalState.Rejected;
+            _resolveProposal(_proposal, ProposalState.Rejected);
+        }
+    }
+
+    /**
+     * @dev Cancel a queued proposal if NO votes outnumber YES votes
+     * @param _proposal Proposal to check
+     */
+    function _checkProposalCancelled(Proposal storage _proposal) internal {
+        assert(_proposal.state == ProposalState.Queued);
+
+        if (_proposal.noVotes > _proposal.yesVotes) {
+            _cancelProposal(_proposal);
+        }
+    }
+
+    /**
+     * @dev Number of votes which must be exceeded to accept or reject a proposal
+     */
+    function _threshold() internal view returns (uint256) {
+        return totalSupply() * thresholdPercent / 100;
+    }
+
+    /**
+     * @dev Apply the decision rule to a proposal whose voting period is over
+     * @param _proposal Proposal to finalize
+     */
+    function _finalize(Proposal storage _proposal) internal {
+        assert(_proposal.state == ProposalState.Pending);
+
+        _resolveProposal(_proposal, _decide(_proposal));
+    }
+
+    /**
+     * @dev State the decision rule gives to a pending proposal with its current tally
+     * @param _proposal Proposal to decide
+     * @return ProposalState Accepted, Rejected or Expired
+     */
+    function _decide(Proposal storage _proposal) internal view returns (ProposalState) {
+        uint256 turnout = _proposal.yesVotes + _proposal.noVotes;
+
+        if (decisionRule == DecisionRule.AbsoluteMajority
+            || turnout == 0
+            || turnout * 100 < totalSupply() * quorumPercent) {
+            return ProposalState.Expired;
+        } else if (_proposal.yesVotes * 100 > turnout * _majorityPercent()) {
+            return ProposalState.Accepted;
+        } else {
+            return ProposalState.Rejected;
+        }
+    }
+
+    /**
+     * @dev Finalize every active proposal whose voting period is over
+     */
+    function _finalizeExpiredProposals() internal {
+        uint256 nextId;
+        for (uint256 id = nextActiveProposal[LIST_SENTINEL]; id != LIST_SENTINEL; id = nextId) {
+            nextId = nextActiveProposal[id];
+
+            if (proposals[id].ttl < block.timestamp) {
+                _finalize(proposals[id]);
+            }
+        }
+    }
+
+    /**
+     * @dev Percent of the cast votes which must be exceeded to accept a finalized proposal
+     */
+    function _majorityPercent() internal view returns (uint256) {
+        return decisionRule == DecisionRule.Supermajority ? thresholdPercent : 50;
+    }
+
+    /**
+     * @dev Set the final state of a proposal and remove it from the active proposals.
+     * Accepted executable proposals are queued when there is a timelock.
+     * The deposit is returned to the creator of an accepted or rejected proposal.
+     * @param _proposal Proposal to resolve
+     * @param _state Accepted, Rejected or Expired
+     */
+    function _resolveProposal(Proposal storage _proposal, ProposalState _state) internal {
+        assert(_proposal.state == ProposalState.Pending);
+
+        _proposal.state = _state;
+        if (_state == ProposalState.Accepted) {
+            emit ProposalAccepted(_proposal.id, _proposal.proposalHash);
+        } else if (_state == ProposalState.Rejected) {
             emit ProposalRejected(_proposal.id, _proposal.proposalHash);
-            _removeProposal(_proposal.id);
+        } else {
+            emit ProposalExpired(_proposal.id, _proposal.proposalHash);
+        }
+        _removeActiveProposal(_proposal.id);
+
+        if (_state == ProposalState.Accepted && _proposal.actionsHash != bytes32(0) && timelockDelay > 0) {
+            _proposal.state = ProposalState.Queued;
+            _proposal.eta = block.timestamp + timelockDelay;
+            emit ProposalQueued(_proposal.id, _proposal.proposalHash, _proposal.eta);
+        }
+
+        // A forfeited deposit is no longer held, it becomes part of the DAO funds
+        depositsHeld -= _proposal.deposit;
+        if (_state != ProposalState.Expired && _proposal.deposit > 0) {
+            _transfer(address(this), _proposal.proposer, _proposal.deposit);
         }
     }
 
+    function _cancelProposal(Proposal storage _proposal) internal {
+        assert(_proposal.state == ProposalState.Pending || _proposal.state == ProposalState.Queued);
+
+        _proposal.state = ProposalState.Cancelled;
+        emit ProposalCancelled(_proposal.id, _proposal.proposalHash);
+    }
+
     function _changeVote(Proposal storage _proposal, address _voter, Vote _vote) internal {
-        assert(_proposal.state == ProposalState.Pending);
-        assert(_proposal.votes[_voter] != _vote);
+        assert(_proposal.state == ProposalState.Pending || _proposal.state == ProposalState.Queued);
+        assert(_proposal.votes[_proposal.amendments][_voter] != _vote);
 
-        _proposal.votes[_voter] = _vote;
+        _proposal.votes[_proposal.amendments][_voter] = _vote;
         emit Voted(_proposal.id, _voter, _vote);
     }
 
     /**
-     * @dev Remove a proposal from the current proposals array
+     * @dev Append a proposal to the end of the active proposals list
      * @param _proposalId uint256 ID of the proposal
      */
-    function _removeProposal(uint256 _proposalId) internal {
-        assert(currentProposals.length > 0);
-        assert(_proposalId < currentProposals.length);
+    function _addActiveProposal(uint256 _proposalId) internal {
+        uint256 lastId = prevActiveProposal[LIST_SENTINEL];
 
-        for (uint8 i = 0; i < currentProposals.length; i++) {
-            if (currentProposals[i] == _proposalId) {
-                delete currentProposals[i];
-                return;
-            }
-        }
+        nextActiveProposal[lastId] = _proposalId;
+        prevActiveProposal[_proposalId] = lastId;
+        nextActiveProposal[_proposalId] = LIST_SENTINEL;
+        prevActiveProposal[LIST_SENTINEL] = _proposalId;
+        activeProposalsCount++;
+    }
+
+    /**
+     * @dev Unlink a proposal from the active proposals list, the proposal must be in the list
+     * @param _proposalId uint256 ID of the proposal
+     */
+    function _removeActiveProposal(uint256 _proposalId) internal {
+        assert(activeProposalsCount > 0);
+
+        uint256 prevId = prevActiveProposal[_proposalId];
+        uint256 nextId = nextActiveProposal[_proposalId];
+
+        nextActiveProposal[prevId] = nextId;
+        prevActiveProposal[nextId] = prevId;
+        delete nextActiveProposal[_proposalId];
+        delete prevActiveProposal[_proposalId];
+        activeProposalsCount--;
+    }
+}
 
-        // This should never happen
-        revert("Proposal not found");
+/**
+ * @title MyDao
+ * @dev MyDao deployed without a proxy, the genesis distribution is minted by the constructor
+ */
+contract MyDao is MyDaoBase {
+    /**
+     * @param _params Governance parameters, see `MyDaoBase`
+     * @param _genesis Initial distribution of the supply, see `_initializeGenesis`
+     */
+    constructor(GovernanceParams memory _params, Genesis memory _genesis) MyDaoBase(_params) {
+        _initializeGenesis(_genesis, _params.initialSupply);
     }
 }
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./MyDao.sol";
+
+/**
+ * @title MyDaoUpgradeable
+ * @dev MyDao deployed behind an ERC1967 proxy. The implementation holds the governance parameters
+ * as immutables, the proxy is initialized with the genesis distribution. Upgrades are authorized only
+ * when the DAO calls `upgradeTo` on itself, i.e. as an action of an accepted executable proposal.
+ * New versions must keep the storage layout, `Initializable` comes first so that its slot stays fixed.
+ */
+contract MyDaoUpgradeable is Initializable, MyDaoBase, UUPSUpgradeable {
+    /**
+     * @param _params Governance parameters, see `MyDaoBase`
+     */
+    constructor(GovernanceParams memory _params) MyDaoBase(_params) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Mint the genesis distribution, called by the proxy when it is deployed
+     * @param _genesis Initial distribution of the supply, see `_initializeGenesis`
+     */
+    function initialize(Genesis memory _genesis) public initializer {
+        _initializeGenesis(_genesis, initialSupply);
+    }
+
+    /**
+     * @dev The ERC20 constructor sets the name in the implementation storage only
+     */
+    function name() public pure override returns (string memory) {
+        return "MyDao";
+    }
+
+    function symbol() public pure override returns (string memory) {
+        return "MDA";
+    }
+
+    function _authorizeUpgrade(address) internal view override {
+        require(msg.sender == address(this), "Upgrades must be executed by a proposal");
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.9;
+
+import "../MyDaoUpgradeable.sol";
+
+/**
+ * @title MyDaoUpgradeableV2
+ * @dev Next version used by the upgrade tests, it appends a state variable to the layout
+ */
+contract MyDaoUpgradeableV2 is MyDaoUpgradeable {
+    uint256 public upgradeCount;
+
+    constructor(GovernanceParams memory _params) MyDaoUpgradeable(_params) {
+    }
+
+    function version() public pure returns (uint256) {
+        return 2;
+    }
+
+    /**
+     * @dev Count upgrades to this version, called in the same proposal as `upgradeTo`
+     */
+    function countUpgrade() public {
+        require(msg.sender == address(this), "Only the DAO can count upgrades");
+        upgradeCount++;
+    }
+}
@@ -1,8 +1,17 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/dao";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.17",
+  solidity: {
+    version: "0.8.17",
+    settings: {
+      // Keeps MyDao under the contract size limit
+      optimizer: { enabled: true, runs: 200 },
+      // Storage layouts are compared before upgrades
+      outputSelection: { "*": { "*": ["storageLayout"] } },
+    },
+  },
 };
 
 export default config;
@@ -0,0 +1,27 @@
+import { DeploymentConfig, parseTokens } from '../src';
+
+/**
+ * First accounts of the default Hardhat mnemonic, funded on `hardhat` and `localhost`
+ */
+const HARDHAT_ACCOUNTS = [
+    '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+];
+
+const LOCAL_CONFIG: DeploymentConfig = {
+    params: {},
+    distribution: [
+        { account: HARDHAT_ACCOUNTS[0], amount: parseTokens(25) },
+        { account: HARDHAT_ACCOUNTS[1], amount: parseTokens(40) },
+        { account: HARDHAT_ACCOUNTS[2], amount: parseTokens(35) },
+    ],
+};
+
+/**
+ * Deployment config per network name
+ */
+export const DEPLOYMENT_CONFIGS: Record<string, DeploymentConfig> = {
+    hardhat: LOCAL_CONFIG,
+    localhost: LOCAL_CONFIG,
+};
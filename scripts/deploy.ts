@@ -0,0 +1,22 @@
+import hre from 'hardhat';
+import path from 'path';
+import { deployDao, writeDeploymentManifest } from '../src';
+import { DEPLOYMENT_CONFIGS } from './config';
+
+const DEPLOYMENTS_DIRECTORY = path.join(__dirname, '..', 'deployments');
+
+async function main() {
+    const config = DEPLOYMENT_CONFIGS[hre.network.name];
+    if (config === undefined) {
+        throw new Error(`No deployment config for network ${hre.network.name}`);
+    }
+    const { manifest } = await deployDao(hre, config);
+    const file = await writeDeploymentManifest(DEPLOYMENTS_DIRECTORY, manifest);
+    console.log(`MyDao deployed to ${manifest.address} on ${manifest.network} at block ${manifest.blockNumber}`);
+    console.log(`  Manifest: ${path.relative(process.cwd(), file)}`);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+});
@@ -0,0 +1,86 @@
+import { ContractReceipt, ethers } from 'ethers';
+import { recoverBallotSigner, SignedBallot } from './Ballots';
+import { MyDaoClient } from './MyDaoClient';
+import { getRevertReason } from './utils';
+
+/**
+ * Outcome of a submitted ballot, either the receipt or the reason the transaction failed
+ */
+export interface RelayResult {
+    ballot: SignedBallot,
+    receipt?: ContractReceipt,
+    error?: string,
+}
+
+/**
+ * Reason of a `BallotFailed` event, the revert data of the ballot
+ */
+function decodeBallotFailure(data: string): string {
+    if (ethers.utils.hexDataSlice(data, 0, 4) === ethers.utils.id('Error(string)').slice(0, 10)) {
+        return ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4))[0];
+    }
+    return data;
+}
+
+/**
+ * Collects ballots signed by voters and submits them from the relayer account, which pays for gas
+ */
+export class BallotRelayer {
+    private ballots: SignedBallot[] = [];
+
+    /**
+     * @param client Client sending transactions from the relayer account
+     */
+    constructor(readonly client: MyDaoClient) {
+    }
+
+    /**
+     * Ballots waiting to be submitted
+     */
+    get pending(): SignedBallot[] {
+        return [...this.ballots];
+    }
+
+    /**
+     * Queue a ballot, ballots of the same voter must be added in nonce order
+     * @param ballot Signed ballot
+     */
+    async add(ballot: SignedBallot): Promise<void> {
+        const signer = await recoverBallotSigner(this.client.contract, ballot);
+        if (signer !== ballot.voter) {
+            throw new Error(`Ballot of ${ballot.voter} is signed by ${signer}`);
+        }
+        this.ballots.push(ballot);
+    }
+
+    /**
+     * Submit all queued ballots in order in one `voteBySigBatch` transaction. A failed ballot does not stop
+     * the batch, its revert reason is returned instead of the receipt, which the other ballots share.
+     * If the transaction itself fails, every ballot gets its revert reason.
+     */
+    async submit(): Promise<RelayResult[]> {
+        const ballots = this.ballots;
+        this.ballots = [];
+        if (ballots.length === 0) {
+            return [];
+        }
+
+        let receipt: ContractReceipt;
+        try {
+            receipt = await this.client.voteBySigBatch(ballots);
+        } catch (e) {
+            // ethers errors carry the reason of a failed call next to the message
+            const reason = e instanceof Error ? (e as Error & { reason?: string }).reason ?? e.message : String(e);
+            const error = getRevertReason(e) ?? reason;
+            return ballots.map((ballot) => ({ ballot, error }));
+        }
+
+        const failures = new Map<number, string>();
+        for (const event of receipt.events ?? []) {
+            if (event.event === 'BallotFailed') {
+                failures.set(event.args!.index.toNumber(), decodeBallotFailure(event.args!.reason));
+            }
+        }
+        return ballots.map((ballot, i) => failures.has(i) ? { ballot, error: failures.get(i) } : { ballot, receipt });
+    }
+}
@@ -0,0 +1,132 @@
+import { BigNumber, BigNumberish, ethers, TypedDataDomain, TypedDataField } from 'ethers';
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import type { MyDao } from '../typechain-types';
+import { Vote } from './types';
+
+/**
+ * EIP-712 type of `MyDao.voteBySig` ballots
+ */
+export const BALLOT_TYPES: Record<string, TypedDataField[]> = {
+    Ballot: [
+        { name: 'proposalId', type: 'uint256' },
+        { name: 'vote', type: 'uint8' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+};
+
+/**
+ * EIP-712 type of ERC20 permits
+ */
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+};
+
+/**
+ * Vote signed by the voter, anyone can submit it with `voteBySig`
+ */
+export interface SignedBallot {
+    voter: string,
+    proposalId: number,
+    vote: Vote,
+    nonce: BigNumber,
+    deadline: number,
+    signature: string,
+}
+
+/**
+ * Token allowance signed by the owner, anyone can submit it with `permit`
+ */
+export interface SignedPermit {
+    owner: string,
+    spender: string,
+    value: BigNumber,
+    nonce: BigNumber,
+    deadline: number,
+    signature: string,
+}
+
+type TypedSigner = ethers.Signer & TypedDataSigner;
+
+/**
+ * EIP-712 domain of the contract signatures
+ * @param myDao MyDao contract
+ */
+export async function getSignatureDomain(myDao: MyDao): Promise<TypedDataDomain> {
+    const { chainId } = await myDao.provider.getNetwork();
+    return { name: await myDao.name(), version: '1', chainId, verifyingContract: myDao.address };
+}
+
+/**
+ * Sign a ballot for a proposal
+ * @param myDao MyDao contract
+ * @param signer Voter
+ * @param proposalId ID of the proposal
+ * @param vote Vote to cast
+ * @param deadline Timestamp after which the ballot can no longer be submitted
+ * @param nonce Nonce of the voter, the current one by default. Ballots and permits share the nonces.
+ */
+export async function signBallot(
+    myDao: MyDao,
+    signer: TypedSigner,
+    proposalId: number,
+    vote: Vote,
+    deadline: number,
+    nonce?: BigNumberish,
+): Promise<SignedBallot> {
+    const voter = await signer.getAddress();
+    const ballot = {
+        proposalId,
+        vote,
+        nonce: BigNumber.from(nonce ?? await myDao.nonces(voter)),
+        deadline,
+    };
+    const signature = await signer._signTypedData(await getSignatureDomain(myDao), BALLOT_TYPES, ballot);
+    return { voter, ...ballot, signature };
+}
+
+/**
+ * Address which signed the ballot, it votes if it matches `ballot.voter`
+ * @param myDao MyDao contract
+ * @param ballot Signed ballot
+ */
+export async function recoverBallotSigner(myDao: MyDao, ballot: SignedBallot): Promise<string> {
+    const { proposalId, vote, nonce, deadline, signature } = ballot;
+    return ethers.utils.verifyTypedData(
+        await getSignatureDomain(myDao), BALLOT_TYPES, { proposalId, vote, nonce, deadline }, signature);
+}
+
+/**
+ * Sign an ERC20 permit, so that the spender can get an allowance without the owner paying for gas
+ * @param myDao MyDao contract
+ * @param signer Token owner
+ * @param spender Address of the spender
+ * @param value Allowance in the smallest units
+ * @param deadline Timestamp after which the permit can no longer be submitted
+ * @param nonce Nonce of the owner, the current one by default
+ */
+export async function signPermit(
+    myDao: MyDao,
+    signer: TypedSigner,
+    spender: string,
+    value: BigNumberish,
+    deadline: number,
+    nonce?: BigNumberish,
+): Promise<SignedPermit> {
+    const owner = await signer.getAddress();
+    const permit = {
+        owner,
+        spender,
+        value: BigNumber.from(value),
+        nonce: BigNumber.from(nonce ?? await myDao.nonces(owner)),
+        deadline,
+    };
+    const signature = await signer._signTypedData(await getSignatureDomain(myDao), PERMIT_TYPES, permit);
+    return { ...permit, signature };
+}
@@ -0,0 +1,92 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+import { TokenAllocation } from './types';
+
+function hashPair(a: string, b: string): string {
+    return ethers.utils.keccak256(ethers.utils.concat(a < b ? [a, b] : [b, a]));
+}
+
+/**
+ * Merkle tree of the balances claimable after deployment, its root is passed to the `MyDao` constructor
+ * and its proofs to `claim`. Pairs are hashed in sorted order like `MerkleProof` does.
+ */
+export class ClaimTree {
+    readonly root: string;
+    /**
+     * Total of the claims, the claim supply of the genesis
+     */
+    readonly supply: BigNumber;
+    private readonly layers: string[][];
+    private readonly indexes = new Map<string, number>();
+
+    constructor(readonly claims: TokenAllocation[]) {
+        if (claims.length === 0) {
+            throw new Error('Claim tree must have at least one claim');
+        }
+
+        const leaves = claims.map(({ account, amount }, index) => {
+            const address = ethers.utils.getAddress(account);
+            if (this.indexes.has(address)) {
+                throw new Error(`Duplicate claim for ${address}`);
+            }
+            this.indexes.set(address, index);
+            return ClaimTree.getLeaf(address, amount);
+        });
+
+        this.layers = [leaves];
+        for (let layer = leaves; layer.length > 1;) {
+            const next: string[] = [];
+            for (let i = 0; i < layer.length; i += 2) {
+                next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+            }
+            this.layers.push(next);
+            layer = next;
+        }
+
+        this.root = this.layers[this.layers.length - 1][0];
+        this.supply = claims.reduce((sum, { amount }) => sum.add(amount), BigNumber.from(0));
+    }
+
+    /**
+     * Leaf of a claim, as computed by `MyDao.claim`
+     */
+    static getLeaf(account: string, amount: BigNumberish): string {
+        const encoded = ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [account, amount]);
+        return ethers.utils.keccak256(ethers.utils.keccak256(encoded));
+    }
+
+    /**
+     * Check a proof against a root the way `MyDao.claim` does
+     */
+    static verify(root: string, account: string, amount: BigNumberish, proof: string[]): boolean {
+        return proof.reduce(hashPair, ClaimTree.getLeaf(account, amount)) === root;
+    }
+
+    /**
+     * Get the claim of an account, `undefined` if it has none
+     */
+    getClaim(account: string): TokenAllocation | undefined {
+        const index = this.indexes.get(ethers.utils.getAddress(account));
+        return index === undefined ? undefined : this.claims[index];
+    }
+
+    /**
+     * Get the proof of the claim of an account
+     * @throws Error if the account has no claim
+     */
+    getProof(account: string): string[] {
+        let index = this.indexes.get(ethers.utils.getAddress(account));
+        if (index === undefined) {
+            throw new Error(`No claim for ${account}`);
+        }
+
+        const proof: string[] = [];
+        for (const layer of this.layers.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+            index >>= 1;
+        }
+        return proof;
+    }
+}
@@ -0,0 +1,787 @@
+import { BigNumber, ethers } from 'ethers';
+import { DaoEventData } from './Indexer';
+import { DecisionRule, GovernanceParams, ProposalState, Vote } from './types';
+import { DEFAULT_GOVERNANCE_PARAMS, validateGovernanceParams } from './utils';
+
+export interface ModelProposal {
+    id: number,
+    proposalHash: string,
+    creator: string,
+    ttl: number,
+    yesVotes: BigNumber,
+    noVotes: BigNumber,
+    state: ProposalState,
+    actionsHash: string,
+    eta: number,
+    /**
+     * Timestamp of the block the proposal was created in, votes are weighted by the balances before it
+     */
+    snapshotTimestamp: number,
+    /**
+     * Deposit paid by the creator
+     */
+    deposit: BigNumber,
+    votes: Map<string, Vote>,
+    /**
+     * Snapshot balances of the delegators of an account which voted directly instead of it
+     */
+    overriddenPower: Map<string, BigNumber>,
+}
+
+/**
+ * Value of an account history at the end of the block with the given timestamp
+ */
+export interface ModelCheckpoint<T> {
+    timestamp: number,
+    value: T,
+}
+
+const RESOLUTION_EVENTS = {
+    [ProposalState.Accepted]: 'ProposalAccepted',
+    [ProposalState.Rejected]: 'ProposalRejected',
+    [ProposalState.Expired]: 'ProposalExpired',
+} as const;
+
+/**
+ * Transaction reverted in the model, `panic` is set for failed assertions and arithmetic errors
+ */
+export class DaoModelError extends Error {
+    constructor(readonly reason: string, readonly panic = false) {
+        super(panic ? `Panic: ${reason}` : reason);
+        this.name = 'DaoModelError';
+    }
+}
+
+function panic(reason: string): DaoModelError {
+    return new DaoModelError(reason, true);
+}
+
+function assert(condition: boolean, reason: string): void {
+    if (!condition) {
+        throw panic(reason);
+    }
+}
+
+/**
+ * Off-chain model of the MyDao rules, statement by statement.
+ * Every operation either applies completely and returns the events the contract would emit,
+ * or throws `DaoModelError` and leaves the model unchanged, like a reverted transaction.
+ */
+export class DaoModel {
+    balances = new Map<string, BigNumber>();
+    totalSupply = BigNumber.from(0);
+    proposals: ModelProposal[] = [];
+    activeProposals: number[] = [];
+    /**
+     * Balance history of every account. Block timestamps strictly increase, so they stand for the block numbers
+     * of the contract checkpoints.
+     */
+    balanceCheckpoints = new Map<string, ModelCheckpoint<BigNumber>[]>();
+    /**
+     * Delegate history of every account, the zero address while the account votes for itself
+     */
+    delegateCheckpoints = new Map<string, ModelCheckpoint<string>[]>();
+    votingPowerCheckpoints = new Map<string, ModelCheckpoint<BigNumber>[]>();
+    /**
+     * Deposits of the pending proposals, transfers from the contract cannot spend them
+     */
+    depositsHeld = BigNumber.from(0);
+    /**
+     * Tokens held by the contract until they are claimed, transfers from the contract cannot spend them either
+     */
+    unclaimedSupply = BigNumber.from(0);
+    claimed = new Set<string>();
+
+    private events: DaoEventData[] = [];
+    /**
+     * Timestamp of the block of the current operation
+     */
+    private timestamp = 0;
+
+    /**
+     * @param params Governance parameters of the contract, checked like the contract constructor does
+     * @param address Address of the contract, it holds the proposal deposits
+     */
+    constructor(
+        readonly params: GovernanceParams = DEFAULT_GOVERNANCE_PARAMS,
+        readonly address: string = ethers.constants.AddressZero,
+    ) {
+        validateGovernanceParams(params);
+    }
+
+    balanceOf(account: string): BigNumber {
+        return this.balances.get(account) ?? BigNumber.from(0);
+    }
+
+    /**
+     * Balance of an account at the end of the last block before the given timestamp
+     */
+    getPastBalance(account: string, timestamp: number): BigNumber {
+        return this.getPastValue(this.balanceCheckpoints, account, timestamp) ?? BigNumber.from(0);
+    }
+
+    delegates(account: string): string {
+        return this.getPastDelegate(account, Infinity);
+    }
+
+    getVotingPower(account: string): BigNumber {
+        return this.getPastVotingPower(account, Infinity);
+    }
+
+    getPastVotingPower(account: string, timestamp: number): BigNumber {
+        return this.getPastValue(this.votingPowerCheckpoints, account, timestamp) ?? BigNumber.from(0);
+    }
+
+    getVotingWeight(proposalId: number, voter: string): BigNumber {
+        const proposal = this.proposals[proposalId];
+
+        const power = this.getPastVotingPower(voter, proposal.snapshotTimestamp);
+        const overridden = proposal.overriddenPower.get(voter) ?? BigNumber.from(0);
+        assert(power.gte(overridden), 'arithmetic underflow');
+
+        let weight = power.sub(overridden);
+        if (this.getPastDelegate(voter, proposal.snapshotTimestamp) !== voter) {
+            weight = weight.add(this.getPastBalance(voter, proposal.snapshotTimestamp));
+        }
+        return weight;
+    }
+
+    getVote(proposalId: number, voter: string): Vote {
+        return this.proposals[proposalId].votes.get(voter) ?? Vote.Abstain;
+    }
+
+    mint(account: string, amount: BigNumber): DaoEventData[] {
+        return this.atomic(() => this.mintTokens(account, amount));
+    }
+
+    /**
+     * Mint the claimable part of the genesis distribution to the contract
+     */
+    mintClaimSupply(amount: BigNumber): DaoEventData[] {
+        return this.atomic(() => {
+            this.unclaimedSupply = amount;
+            this.mintTokens(this.address, amount);
+        });
+    }
+
+    /**
+     * Claim an allocation, the Merkle proof is not modelled and the amount is trusted
+     */
+    claim(account: string, amount: BigNumber, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (this.claimed.has(account)) {
+                throw new DaoModelError('Already claimed');
+            }
+            if (amount.gt(this.unclaimedSupply)) {
+                throw new DaoModelError('Claim exceeds unclaimed supply');
+            }
+
+            this.claimed.add(account);
+            this.unclaimedSupply = this.unclaimedSupply.sub(amount);
+            this.moveTokens(this.address, account, amount);
+            this.emit({ name: 'Claimed', account, amount });
+        }, timestamp);
+    }
+
+    /**
+     * @param actionsHash Hash of the actions of an executable proposal, zero for plain proposals
+     */
+    createProposal(
+        creator: string,
+        proposalHash: string,
+        timestamp: number,
+        actionsHash: string = ethers.constants.HashZero,
+    ): DaoEventData[] {
+        return this.atomic(() => {
+            this.onlyTokenHolders(creator);
+            if (this.getVotingPower(creator).lt(this.params.proposalThreshold)) {
+                throw new DaoModelError('Voting power is below the proposal threshold');
+            }
+            if (this.balanceOf(creator).lt(this.params.proposalDeposit)) {
+                throw new DaoModelError('Balance is below the proposal deposit');
+            }
+
+            if (this.activeProposals.length >= this.params.maxProposals) {
+                this.finalizeExpiredProposals();
+                if (this.activeProposals.length >= this.params.maxProposals) {
+                    throw new DaoModelError('Max number of pending proposals reached');
+                }
+            }
+
+            const id = this.proposals.length;
+            this.proposals.push({
+                id,
+                proposalHash,
+                creator,
+                ttl: timestamp + this.params.votingPeriod,
+                yesVotes: BigNumber.from(0),
+                noVotes: BigNumber.from(0),
+                state: ProposalState.Pending,
+                actionsHash,
+                eta: 0,
+                snapshotTimestamp: timestamp,
+                deposit: this.params.proposalDeposit,
+                votes: new Map(),
+                overriddenPower: new Map(),
+            });
+            this.activeProposals.push(id);
+
+            if (this.params.proposalDeposit.gt(0)) {
+                this.depositsHeld = this.depositsHeld.add(this.params.proposalDeposit);
+                this.moveTokens(creator, this.address, this.params.proposalDeposit);
+            }
+
+            this.emit({ name: 'ProposalCreated', proposalId: id, proposalHash, creator });
+        }, timestamp);
+    }
+
+    /**
+     * @param reason Rationale of `voteWithReason`, omitted for plain votes
+     */
+    vote(voter: string, proposalId: number, vote: Vote, timestamp: number, reason?: string): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            this.castVote(voter, proposalId, vote);
+            if (reason !== undefined) {
+                this.emit({ name: 'VotedWithReason', proposalId, voter, vote, reason });
+            }
+        }, timestamp);
+    }
+
+    voteBatch(voter: string, proposalIds: number[], votes: Vote[], timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalIds.length !== votes.length) {
+                throw new DaoModelError('Proposal IDs and votes differ in length');
+            }
+
+            for (let i = 0; i < proposalIds.length; i++) {
+                if (proposalIds[i] >= this.proposals.length) {
+                    throw new DaoModelError('Proposal does not exist');
+                }
+                this.castVote(voter, proposalIds[i], votes[i]);
+            }
+        }, timestamp);
+    }
+
+    comment(author: string, proposalId: number, commentHash: string, parentHash: string): DaoEventData[] {
+        return this.atomic(() => {
+            this.onlyTokenHolders(author);
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+            if (commentHash === ethers.constants.HashZero) {
+                throw new DaoModelError('Comment hash must not be empty');
+            }
+
+            this.emit({ name: 'CommentAdded', proposalId, author, commentHash, parentHash });
+        });
+    }
+
+    finalize(proposalId: number, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            const proposal = this.proposals[proposalId];
+            if (proposal.state !== ProposalState.Pending) {
+                throw new DaoModelError('Proposal is not pending');
+            }
+            if (proposal.ttl >= timestamp) {
+                throw new DaoModelError('Voting period is not over');
+            }
+
+            this.finalizeProposal(proposal);
+        }, timestamp);
+    }
+
+    expire(proposalId: number, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            const proposal = this.proposals[proposalId];
+            if (proposal.state !== ProposalState.Pending) {
+                throw new DaoModelError('Proposal is not pending');
+            }
+            if (proposal.ttl >= timestamp) {
+                throw new DaoModelError('Voting period is not over');
+            }
+            if (this.decide(proposal) !== ProposalState.Expired) {
+                throw new DaoModelError('Proposal is decided, finalize it instead');
+            }
+
+            this.resolveProposal(proposal, ProposalState.Expired);
+        }, timestamp);
+    }
+
+    /**
+     * State of a proposal at the given timestamp, like `MyDao.state`
+     */
+    getState(proposalId: number, timestamp: number): ProposalState {
+        const proposal = this.proposals[proposalId];
+        if (proposal.state !== ProposalState.Pending || proposal.ttl >= timestamp) {
+            return proposal.state;
+        }
+
+        const outcome = this.decide(proposal);
+        if (outcome === ProposalState.Accepted
+            && proposal.actionsHash !== ethers.constants.HashZero
+            && this.params.timelockDelay > 0) {
+            return ProposalState.Queued;
+        }
+        return outcome;
+    }
+
+    /**
+     * Mark an accepted proposal as executed. Actions are not modelled, their transfers are replayed separately.
+     * @param actionsHash Hash of the executed actions, not checked if omitted
+     */
+    execute(proposalId: number, timestamp: number, actionsHash?: string): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            const proposal = this.proposals[proposalId];
+            if (proposal.state === ProposalState.Queued) {
+                if (proposal.eta > timestamp) {
+                    throw new DaoModelError('Timelock is not over');
+                }
+            } else if (proposal.state !== ProposalState.Accepted) {
+                throw new DaoModelError('Proposal is not accepted');
+            }
+            if (actionsHash !== undefined && actionsHash !== proposal.actionsHash) {
+                throw new DaoModelError('Actions do not match the proposal');
+            }
+
+            proposal.state = ProposalState.Executed;
+            this.emit({ name: 'ProposalExecuted', proposalId, proposalHash: proposal.proposalHash });
+        }, timestamp);
+    }
+
+    cancel(caller: string, proposalId: number, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            const proposal = this.proposals[proposalId];
+            if (proposal.state === ProposalState.Pending) {
+                if (caller !== proposal.creator) {
+                    throw new DaoModelError('Only creator can cancel pending proposals');
+                }
+                if (proposal.ttl < timestamp) {
+                    throw new DaoModelError('Proposal is expired');
+                }
+
+                this.removeActiveProposal(proposalId);
+                this.depositsHeld = this.depositsHeld.sub(proposal.deposit);
+            } else {
+                if (proposal.state !== ProposalState.Queued) {
+                    throw new DaoModelError('Proposal is not pending or queued');
+                }
+                if (caller !== this.params.guardian) {
+                    throw new DaoModelError('Only guardian can cancel proposals');
+                }
+            }
+
+            this.cancelProposal(proposal);
+        }, timestamp);
+    }
+
+    /**
+     * Votes of the previous version are dropped and the snapshot starts again, the TTL is kept
+     */
+    amend(caller: string, proposalId: number, proposalHash: string, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (proposalId >= this.proposals.length) {
+                throw new DaoModelError('Proposal does not exist');
+            }
+
+            const proposal = this.proposals[proposalId];
+            if (caller !== proposal.creator) {
+                throw new DaoModelError('Only creator can amend proposals');
+            }
+            if (proposal.state !== ProposalState.Pending) {
+                throw new DaoModelError('Proposal is not pending');
+            }
+            if (proposal.ttl < timestamp) {
+                throw new DaoModelError('Proposal is expired');
+            }
+
+            proposal.proposalHash = proposalHash;
+            proposal.yesVotes = BigNumber.from(0);
+            proposal.noVotes = BigNumber.from(0);
+            proposal.snapshotTimestamp = timestamp;
+            proposal.votes = new Map();
+            proposal.overriddenPower = new Map();
+
+            this.emit({ name: 'ProposalAmended', proposalId, proposalHash });
+        }, timestamp);
+    }
+
+    delegate(delegator: string, delegatee: string, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (delegatee === ethers.constants.AddressZero) {
+                throw new DaoModelError('Cannot delegate to the zero address');
+            }
+
+            const currentDelegate = this.delegates(delegator);
+            this.pushCheckpoint(this.delegateCheckpoints, delegator,
+                delegatee === delegator ? ethers.constants.AddressZero : delegatee);
+            this.emit({ name: 'DelegateChanged', delegator, fromDelegate: currentDelegate, toDelegate: delegatee });
+
+            this.moveVotingPower(currentDelegate, delegatee, this.balanceOf(delegator));
+        }, timestamp);
+    }
+
+    transfer(sender: string, recipient: string, amount: BigNumber, timestamp: number): DaoEventData[] {
+        return this.atomic(() => {
+            if (recipient === ethers.constants.AddressZero) {
+                throw new DaoModelError('ERC20: transfer to the zero address');
+            }
+            if (this.balanceOf(sender).lt(amount)) {
+                throw new DaoModelError('ERC20: transfer amount exceeds balance');
+            }
+
+            this.moveTokens(sender, recipient, amount);
+        }, timestamp);
+    }
+
+    private mintTokens(account: string, amount: BigNumber): void {
+        this.totalSupply = this.totalSupply.add(amount);
+        this.balances.set(account, this.balanceOf(account).add(amount));
+        this.emit({ name: 'Transfer', from: ethers.constants.AddressZero, to: account, value: amount });
+        this.pushCheckpoint(this.balanceCheckpoints, account, this.balanceOf(account));
+        this.moveVotingPower(ethers.constants.AddressZero, this.delegates(account), amount);
+    }
+
+    private moveTokens(sender: string, recipient: string, amount: BigNumber): void {
+        assert(this.balanceOf(sender).gte(amount), 'arithmetic underflow');
+
+        this.balances.set(sender, this.balanceOf(sender).sub(amount));
+        this.balances.set(recipient, this.balanceOf(recipient).add(amount));
+        this.emit({ name: 'Transfer', from: sender, to: recipient, value: amount });
+        this.pushCheckpoint(this.balanceCheckpoints, sender, this.balanceOf(sender));
+        this.pushCheckpoint(this.balanceCheckpoints, recipient, this.balanceOf(recipient));
+        this.moveVotingPower(this.delegates(sender), this.delegates(recipient), amount);
+
+        if (sender === this.address && this.balanceOf(this.address).lt(this.depositsHeld.add(this.unclaimedSupply))) {
+            throw new DaoModelError('Transfer exceeds the unreserved DAO balance');
+        }
+    }
+
+    /**
+     * Value of an account history at the end of the last block before the given timestamp
+     */
+    private getPastValue<T>(
+        histories: Map<string, ModelCheckpoint<T>[]>,
+        account: string,
+        timestamp: number,
+    ): T | undefined {
+        const checkpoints = histories.get(account) ?? [];
+        return [...checkpoints].reverse().find((c) => c.timestamp < timestamp)?.value;
+    }
+
+    private getPastDelegate(account: string, timestamp: number): string {
+        const delegatee = this.getPastValue(this.delegateCheckpoints, account, timestamp);
+        return delegatee === undefined || delegatee === ethers.constants.AddressZero ? account : delegatee;
+    }
+
+    private pushCheckpoint<T>(histories: Map<string, ModelCheckpoint<T>[]>, account: string, value: T): void {
+        // Copy the history, so that a rolled back operation does not change it
+        const checkpoints = [...histories.get(account) ?? []];
+        const last = checkpoints[checkpoints.length - 1];
+        // Several updates in one block change the same checkpoint
+        if (last?.timestamp === this.timestamp) {
+            checkpoints.pop();
+        }
+        checkpoints.push({ timestamp: this.timestamp, value });
+        histories.set(account, checkpoints);
+    }
+
+    private moveVotingPower(from: string, to: string, amount: BigNumber): void {
+        if (from === to || amount.isZero()) {
+            return;
+        }
+
+        if (from !== ethers.constants.AddressZero) {
+            const power = this.getVotingPower(from);
+            assert(power.gte(amount), 'arithmetic underflow');
+            this.pushCheckpoint(this.votingPowerCheckpoints, from, power.sub(amount));
+        }
+        if (to !== ethers.constants.AddressZero) {
+            this.pushCheckpoint(this.votingPowerCheckpoints, to, this.getVotingPower(to).add(amount));
+        }
+    }
+
+    private overrideDelegate(proposal: ModelProposal, delegator: string): void {
+        const delegatee = this.getPastDelegate(delegator, proposal.snapshotTimestamp);
+        if (delegatee === delegator) {
+            return;
+        }
+
+        const balance = this.getPastBalance(delegator, proposal.snapshotTimestamp);
+        const overridden = proposal.overriddenPower.get(delegatee) ?? BigNumber.from(0);
+        proposal.overriddenPower.set(delegatee, overridden.add(balance));
+        this.subVotes(proposal, this.getVote(proposal.id, delegatee), balance);
+    }
+
+    /**
+     * @return Vote of the delegate if its votes grew, ABSTAIN otherwise
+     */
+    private restoreDelegate(proposal: ModelProposal, delegator: string): Vote {
+        const delegatee = this.getPastDelegate(delegator, proposal.snapshotTimestamp);
+        const balance = this.getPastBalance(delegator, proposal.snapshotTimestamp);
+        if (delegatee === delegator || balance.isZero()) {
+            return Vote.Abstain;
+        }
+
+        const overridden = proposal.overriddenPower.get(delegatee) ?? BigNumber.from(0);
+        assert(overridden.gte(balance), 'arithmetic underflow');
+        proposal.overriddenPower.set(delegatee, overridden.sub(balance));
+        this.addVotes(proposal, this.getVote(proposal.id, delegatee), balance);
+        return this.getVote(proposal.id, delegatee);
+    }
+
+    private onlyTokenHolders(account: string): void {
+        if (this.balanceOf(account).isZero()) {
+            throw new DaoModelError('You must hold tokens to vote or create proposals');
+        }
+    }
+
+    private castVote(voter: string, proposalId: number, vote: Vote): void {
+        const proposal = this.proposals[proposalId];
+
+        // Token holders are checked at the proposal snapshot
+        const amount = this.getVotingWeight(proposalId, voter);
+        if (amount.isZero()) {
+            throw new DaoModelError('You must hold tokens to vote or create proposals');
+        }
+        if (proposal.state === ProposalState.Queued) {
+            if (proposal.eta <= this.timestamp) {
+                throw new DaoModelError('Timelock is over');
+            }
+        } else {
+            if (proposal.state !== ProposalState.Pending) {
+                throw new DaoModelError('Proposal is not pending');
+            }
+            if (proposal.ttl < this.timestamp) {
+                throw new DaoModelError('Proposal is expired');
+            }
+        }
+        if (this.getVote(proposalId, voter) === vote) {
+            throw new DaoModelError('You already voted this way');
+        }
+
+        const previousVote = this.getVote(proposalId, voter);
+
+        this.subVotes(proposal, previousVote, amount);
+        this.addVotes(proposal, vote, amount);
+
+        this.changeVote(proposal, voter, vote);
+
+        let delegateVote = Vote.Abstain;
+        if (previousVote === Vote.Abstain) {
+            this.overrideDelegate(proposal, voter);
+        } else if (vote === Vote.Abstain) {
+            delegateVote = this.restoreDelegate(proposal, voter);
+        }
+
+        if (proposal.state === ProposalState.Queued) {
+            this.checkProposalCancelled(proposal);
+        } else {
+            this.checkProposalState(proposal, vote === Vote.Abstain ? delegateVote : vote);
+        }
+    }
+
+    private addVotes(proposal: ModelProposal, vote: Vote, amount: BigNumber): void {
+        if (vote === Vote.Yes) {
+            proposal.yesVotes = proposal.yesVotes.add(amount);
+        } else if (vote === Vote.No) {
+            proposal.noVotes = proposal.noVotes.add(amount);
+        }
+    }
+
+    private subVotes(proposal: ModelProposal, vote: Vote, amount: BigNumber): void {
+        if (vote === Vote.Yes) {
+            assert(proposal.yesVotes.gte(amount), 'arithmetic underflow');
+            proposal.yesVotes = proposal.yesVotes.sub(amount);
+        } else if (vote === Vote.No) {
+            assert(proposal.noVotes.gte(amount), 'arithmetic underflow');
+            proposal.noVotes = proposal.noVotes.sub(amount);
+        }
+    }
+
+    private checkProposalState(proposal: ModelProposal, vote: Vote): void {
+        assert(proposal.state === ProposalState.Pending, 'proposal is not pending');
+
+        if (vote === Vote.Yes) {
+            this.checkProposalResolved(proposal, proposal.yesVotes, proposal.noVotes, ProposalState.Accepted);
+        } else if (vote === Vote.No) {
+            this.checkProposalResolved(proposal, proposal.noVotes, proposal.yesVotes, ProposalState.Rejected);
+        }
+    }
+
+    private checkProposalResolved(
+        proposal: ModelProposal,
+        votes: BigNumber,
+        otherVotes: BigNumber,
+        state: ProposalState.Accepted | ProposalState.Rejected,
+    ): void {
+        assert(votes.gt(0), 'no votes');
+
+        if (votes.gt(this.totalSupply.mul(this.params.thresholdPercent).div(100))) {
+            assert(votes.gt(otherVotes), 'both sides have majority');
+
+            this.resolveProposal(proposal, state);
+        }
+    }
+
+    private checkProposalCancelled(proposal: ModelProposal): void {
+        assert(proposal.state === ProposalState.Queued, 'proposal is not queued');
+
+        if (proposal.noVotes.gt(proposal.yesVotes)) {
+            this.cancelProposal(proposal);
+        }
+    }
+
+    private finalizeExpiredProposals(): void {
+        for (const proposalId of [...this.activeProposals]) {
+            if (this.proposals[proposalId].ttl < this.timestamp) {
+                this.finalizeProposal(this.proposals[proposalId]);
+            }
+        }
+    }
+
+    private finalizeProposal(proposal: ModelProposal): void {
+        assert(proposal.state === ProposalState.Pending, 'proposal is not pending');
+
+        this.resolveProposal(proposal, this.decide(proposal));
+    }
+
+    private decide(proposal: ModelProposal): ProposalState.Accepted | ProposalState.Rejected | ProposalState.Expired {
+        const { decisionRule, quorumPercent, thresholdPercent } = this.params;
+        const turnout = proposal.yesVotes.add(proposal.noVotes);
+        const majorityPercent = decisionRule === DecisionRule.Supermajority ? thresholdPercent : 50;
+
+        if (decisionRule === DecisionRule.AbsoluteMajority
+            || turnout.isZero()
+            || turnout.mul(100).lt(this.totalSupply.mul(quorumPercent))) {
+            return ProposalState.Expired;
+        } else if (proposal.yesVotes.mul(100).gt(turnout.mul(majorityPercent))) {
+            return ProposalState.Accepted;
+        } else {
+            return ProposalState.Rejected;
+        }
+    }
+
+    private resolveProposal(
+        proposal: ModelProposal,
+        state: ProposalState.Accepted | ProposalState.Rejected | ProposalState.Expired,
+    ): void {
+        assert(proposal.state === ProposalState.Pending, 'proposal is not pending');
+
+        proposal.state = state;
+        this.emit({
+            name: RESOLUTION_EVENTS[state],
+            proposalId: proposal.id,
+            proposalHash: proposal.proposalHash,
+        });
+        this.removeActiveProposal(proposal.id);
+
+        if (state === ProposalState.Accepted
+            && proposal.actionsHash !== ethers.constants.HashZero
+            && this.params.timelockDelay > 0) {
+            proposal.state = ProposalState.Queued;
+            proposal.eta = this.timestamp + this.params.timelockDelay;
+            this.emit({
+                name: 'ProposalQueued',
+                proposalId: proposal.id,
+                proposalHash: proposal.proposalHash,
+                eta: proposal.eta,
+            });
+        }
+
+        this.depositsHeld = this.depositsHeld.sub(proposal.deposit);
+        if (state !== ProposalState.Expired && proposal.deposit.gt(0)) {
+            this.moveTokens(this.address, proposal.creator, proposal.deposit);
+        }
+    }
+
+    private cancelProposal(proposal: ModelProposal): void {
+        assert(proposal.state === ProposalState.Pending || proposal.state === ProposalState.Queued,
+            'proposal is not pending or queued');
+
+        proposal.state = ProposalState.Cancelled;
+        this.emit({ name: 'ProposalCancelled', proposalId: proposal.id, proposalHash: proposal.proposalHash });
+    }
+
+    private changeVote(proposal: ModelProposal, voter: string, vote: Vote): void {
+        assert(proposal.state === ProposalState.Pending || proposal.state === ProposalState.Queued,
+            'proposal is not pending');
+        assert(this.getVote(proposal.id, voter) !== vote, 'vote is not changed');
+
+        proposal.votes.set(voter, vote);
+        this.emit({ name: 'Voted', proposalId: proposal.id, voter, vote });
+    }
+
+    private removeActiveProposal(proposalId: number): void {
+        assert(this.activeProposals.length > 0, 'no active proposals');
+
+        const index = this.activeProposals.indexOf(proposalId);
+        // The contract unlinks the proposal without looking it up
+        assert(index !== -1, 'proposal is not active');
+        this.activeProposals.splice(index, 1);
+    }
+
+    private emit(event: DaoEventData): void {
+        this.events.push(event);
+    }
+
+    /**
+     * Run an operation, rolling back all changes if it throws
+     * @param timestamp Block timestamp of the operation, the previous one by default
+     * @return Events emitted by the operation
+     */
+    private atomic(operation: () => void, timestamp = this.timestamp): DaoEventData[] {
+        const balances = new Map(this.balances);
+        const totalSupply = this.totalSupply;
+        const proposals = this.proposals.map((proposal) => ({
+            ...proposal,
+            votes: new Map(proposal.votes),
+            overriddenPower: new Map(proposal.overriddenPower),
+        }));
+        const activeProposals = [...this.activeProposals];
+        const depositsHeld = this.depositsHeld;
+        const unclaimedSupply = this.unclaimedSupply;
+        const claimed = new Set(this.claimed);
+        const balanceCheckpoints = new Map(this.balanceCheckpoints);
+        const delegateCheckpoints = new Map(this.delegateCheckpoints);
+        const votingPowerCheckpoints = new Map(this.votingPowerCheckpoints);
+
+        this.events = [];
+        this.timestamp = timestamp;
+        try {
+            operation();
+            return this.events;
+        } catch (e) {
+            this.balances = balances;
+            this.totalSupply = totalSupply;
+            this.proposals = proposals;
+            this.activeProposals = activeProposals;
+            this.depositsHeld = depositsHeld;
+            this.unclaimedSupply = unclaimedSupply;
+            this.claimed = claimed;
+            this.balanceCheckpoints = balanceCheckpoints;
+            this.delegateCheckpoints = delegateCheckpoints;
+            this.votingPowerCheckpoints = votingPowerCheckpoints;
+            throw e;
+        }
+    }
+}
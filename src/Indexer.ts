@@ -0,0 +1,413 @@
+import { BigNumber } from 'ethers';
+import { Log } from '@ethersproject/providers';
+import type { MyDao } from '../typechain-types';
+import { ProposalState, Vote } from './types';
+
+/**
+ * Location of an event on the chain
+ */
+export interface EventPosition {
+    blockNumber: number,
+    blockHash: string,
+    logIndex: number,
+    transactionHash: string,
+    timestamp: number,
+}
+
+export type ProposalCreatedData = { name: 'ProposalCreated', proposalId: number, proposalHash: string, creator: string };
+export type ProposalResolvedData = {
+    name: 'ProposalAccepted' | 'ProposalRejected' | 'ProposalExpired' | 'ProposalExecuted' | 'ProposalCancelled',
+    proposalId: number,
+    proposalHash: string,
+};
+export type ProposalQueuedData = { name: 'ProposalQueued', proposalId: number, proposalHash: string, eta: number };
+export type ProposalAmendedData = { name: 'ProposalAmended', proposalId: number, proposalHash: string };
+export type VotedData = { name: 'Voted', proposalId: number, voter: string, vote: Vote };
+export type VotedWithReasonData = {
+    name: 'VotedWithReason',
+    proposalId: number,
+    voter: string,
+    vote: Vote,
+    reason: string,
+};
+export type CommentAddedData = {
+    name: 'CommentAdded',
+    proposalId: number,
+    author: string,
+    commentHash: string,
+    parentHash: string,
+};
+export type TransferData = { name: 'Transfer', from: string, to: string, value: BigNumber };
+export type ClaimedData = { name: 'Claimed', account: string, amount: BigNumber };
+export type DelegateChangedData = {
+    name: 'DelegateChanged',
+    delegator: string,
+    fromDelegate: string,
+    toDelegate: string,
+};
+
+export type DaoEventData = ProposalCreatedData | ProposalResolvedData | ProposalQueuedData | VotedData | TransferData
+    | DelegateChangedData | VotedWithReasonData | CommentAddedData | ProposalAmendedData | ClaimedData;
+
+/**
+ * Decoded MyDao event along with its position
+ */
+export type DaoEvent = DaoEventData & EventPosition;
+
+export interface Checkpoint {
+    blockNumber: number,
+    blockHash: string,
+}
+
+/**
+ * Storage of indexed events. All events after the checkpoint are dropped on rollback,
+ * so the store never contains events of blocks which are no longer on the chain.
+ */
+export interface IndexerStore {
+    getCheckpoint(): Promise<Checkpoint | undefined>,
+    /**
+     * Hashes of the recently indexed blocks, used to detect reorgs
+     */
+    getRecentBlocks(): Promise<Checkpoint[]>,
+    /**
+     * Atomically append events of the indexed block range and move the checkpoint to its end
+     */
+    append(events: DaoEvent[], blocks: Checkpoint[], checkpoint: Checkpoint): Promise<void>,
+    /**
+     * Drop everything indexed after the given block
+     */
+    rollback(checkpoint: Checkpoint | undefined): Promise<void>,
+    getEvents(): Promise<DaoEvent[]>,
+}
+
+export class MemoryIndexerStore implements IndexerStore {
+    private events: DaoEvent[] = [];
+    private blocks: Checkpoint[] = [];
+    private checkpoint?: Checkpoint;
+
+    constructor(readonly maxRecentBlocks = 128) {
+    }
+
+    async getCheckpoint(): Promise<Checkpoint | undefined> {
+        return this.checkpoint;
+    }
+
+    async getRecentBlocks(): Promise<Checkpoint[]> {
+        return [...this.blocks];
+    }
+
+    async append(events: DaoEvent[], blocks: Checkpoint[], checkpoint: Checkpoint): Promise<void> {
+        this.events.push(...events);
+        this.blocks.push(...blocks);
+        this.blocks = this.blocks.slice(-this.maxRecentBlocks);
+        this.checkpoint = checkpoint;
+    }
+
+    async rollback(checkpoint: Checkpoint | undefined): Promise<void> {
+        const blockNumber = checkpoint?.blockNumber ?? -1;
+        this.events = this.events.filter((event) => event.blockNumber <= blockNumber);
+        this.blocks = this.blocks.filter((block) => block.blockNumber <= blockNumber);
+        this.checkpoint = checkpoint;
+    }
+
+    async getEvents(): Promise<DaoEvent[]> {
+        return [...this.events];
+    }
+}
+
+export interface IndexerOptions {
+    /**
+     * First block to index, usually the deployment block
+     */
+    fromBlock?: number,
+    /**
+     * Maximum number of blocks requested at once
+     */
+    batchSize?: number,
+}
+
+export interface VoterWeight {
+    voter: string,
+    vote: Vote,
+    weight: BigNumber,
+}
+
+/**
+ * Vote reason or comment of a proposal discussion
+ */
+export interface DiscussionEntry {
+    author: string,
+    /**
+     * Hash of the off-chain comment text, not set for vote reasons
+     */
+    commentHash?: string,
+    /**
+     * Vote explained by the reason, not set for comments
+     */
+    vote?: Vote,
+    reason?: string,
+    /**
+     * Comments replying to this one in chain order
+     */
+    replies: DiscussionEntry[],
+    event: DaoEvent,
+}
+
+export interface StateTransition {
+    proposalId: number,
+    state: ProposalState,
+    event: DaoEvent,
+}
+
+const RESOLUTION_STATES: Record<ProposalResolvedData['name'], ProposalState> = {
+    ProposalAccepted: ProposalState.Accepted,
+    ProposalRejected: ProposalState.Rejected,
+    ProposalExpired: ProposalState.Expired,
+    ProposalExecuted: ProposalState.Executed,
+    ProposalCancelled: ProposalState.Cancelled,
+};
+
+/**
+ * Decode a MyDao log, returns `undefined` for events which are not indexed
+ * @param myDao MyDao contract
+ * @param log Raw log
+ */
+export function decodeDaoEvent(myDao: MyDao, log: Log): DaoEventData | undefined {
+    // Proxies also emit events of their own, such as `Upgraded`
+    const known = Object.values(myDao.interface.events)
+        .some((event) => myDao.interface.getEventTopic(event) === log.topics[0]);
+    if (!known) {
+        return undefined;
+    }
+
+    const { name, args } = myDao.interface.parseLog(log);
+    switch (name) {
+        case 'ProposalCreated':
+            return { name, proposalId: args.proposalId.toNumber(), proposalHash: args.proposal, creator: args.creator };
+        case 'ProposalAccepted':
+        case 'ProposalRejected':
+        case 'ProposalExpired':
+        case 'ProposalExecuted':
+        case 'ProposalCancelled':
+        case 'ProposalAmended':
+            return { name, proposalId: args.proposalId.toNumber(), proposalHash: args.proposal };
+        case 'ProposalQueued':
+            return { name, proposalId: args.proposalId.toNumber(), proposalHash: args.proposal, eta: args.eta.toNumber() };
+        case 'Voted':
+            return { name, proposalId: args.proposalId.toNumber(), voter: args.voter, vote: args.vote };
+        case 'VotedWithReason':
+            return {
+                name,
+                proposalId: args.proposalId.toNumber(),
+                voter: args.voter,
+                vote: args.vote,
+                reason: args.reason,
+            };
+        case 'CommentAdded':
+            return {
+                name,
+                proposalId: args.proposalId.toNumber(),
+                author: args.author,
+                commentHash: args.commentHash,
+                parentHash: args.parentHash,
+            };
+        case 'Transfer':
+            return { name, from: args.from, to: args.to, value: args.value };
+        case 'Claimed':
+            return { name, account: args.account, amount: args.amount };
+        case 'DelegateChanged':
+            return { name, delegator: args.delegator, fromDelegate: args.fromDelegate, toDelegate: args.toDelegate };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Rebuilds the full DAO history from the contract logs
+ */
+export class Indexer {
+    private readonly fromBlock: number;
+    private readonly batchSize: number;
+
+    constructor(
+        readonly contract: MyDao,
+        readonly store: IndexerStore = new MemoryIndexerStore(),
+        options: IndexerOptions = {},
+    ) {
+        this.fromBlock = options.fromBlock ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+    }
+
+    /**
+     * Index new blocks up to `toBlock`, first rolling back blocks which were reorganized away
+     * @param toBlock Last block to index, the latest block by default
+     * @return New checkpoint
+     */
+    async sync(toBlock?: number): Promise<Checkpoint | undefined> {
+        const provider = this.contract.provider;
+        await this.handleReorg();
+
+        const lastBlock = toBlock ?? (await provider.getBlock('latest')).number;
+        let from = ((await this.store.getCheckpoint())?.blockNumber ?? this.fromBlock - 1) + 1;
+
+        while (from <= lastBlock) {
+            const to = Math.min(from + this.batchSize - 1, lastBlock);
+            const logs = await provider.getLogs({ address: this.contract.address, fromBlock: from, toBlock: to });
+
+            const blocks = new Map<number, Checkpoint & { timestamp: number }>();
+            for (const blockNumber of new Set([...logs.map((log) => log.blockNumber), to])) {
+                const block = await provider.getBlock(blockNumber);
+                blocks.set(blockNumber, { blockNumber, blockHash: block.hash, timestamp: block.timestamp });
+            }
+
+            const events: DaoEvent[] = [];
+            for (const log of logs) {
+                const block = blocks.get(log.blockNumber)!;
+                if (block.blockHash !== log.blockHash) {
+                    // The block was reorganized while fetching, retry the whole range
+                    return this.sync(toBlock);
+                }
+
+                const data = decodeDaoEvent(this.contract, log);
+                if (data !== undefined) {
+                    events.push({
+                        ...data,
+                        blockNumber: log.blockNumber,
+                        blockHash: log.blockHash,
+                        logIndex: log.logIndex,
+                        transactionHash: log.transactionHash,
+                        timestamp: block.timestamp,
+                    });
+                }
+            }
+
+            const checkpoints = [...blocks.values()]
+                .sort((a, b) => a.blockNumber - b.blockNumber)
+                .map(({ blockNumber, blockHash }) => ({ blockNumber, blockHash }));
+            await this.store.append(events, checkpoints, checkpoints[checkpoints.length - 1]);
+
+            from = to + 1;
+        }
+
+        return this.store.getCheckpoint();
+    }
+
+    /**
+     * Roll back to the latest indexed block which is still on the chain,
+     * or index everything again if none of the recent blocks is
+     */
+    private async handleReorg(): Promise<void> {
+        const checkpoint = await this.store.getCheckpoint();
+        if (checkpoint === undefined) {
+            return;
+        }
+
+        const blocks = (await this.store.getRecentBlocks()).reverse();
+        for (const block of blocks) {
+            const current = await this.contract.provider.getBlock(block.blockNumber);
+            if (current?.hash === block.blockHash) {
+                if (block.blockNumber !== checkpoint.blockNumber) {
+                    await this.store.rollback(block);
+                }
+                return;
+            }
+        }
+
+        await this.store.rollback(undefined);
+    }
+
+    async getEvents(): Promise<DaoEvent[]> {
+        return this.store.getEvents();
+    }
+
+    /**
+     * All proposals created by the account
+     * @param creator Address of the creator
+     */
+    async getProposalsByCreator(creator: string): Promise<ProposalCreatedData[]> {
+        return (await this.getEvents())
+            .filter((event): event is ProposalCreatedData & EventPosition =>
+                event.name === 'ProposalCreated' && event.creator.toLowerCase() === creator.toLowerCase());
+    }
+
+    /**
+     * Timeline of the proposal states, starting from its creation
+     * @param proposalId ID of the proposal, all proposals by default
+     */
+    async getTimeline(proposalId?: number): Promise<StateTransition[]> {
+        const timeline: StateTransition[] = [];
+        for (const event of await this.getEvents()) {
+            if (event.name === 'ProposalCreated') {
+                timeline.push({ proposalId: event.proposalId, state: ProposalState.Pending, event });
+            } else if (event.name === 'ProposalQueued') {
+                timeline.push({ proposalId: event.proposalId, state: ProposalState.Queued, event });
+            } else if (event.name in RESOLUTION_STATES) {
+                const { proposalId, name } = event as ProposalResolvedData;
+                timeline.push({ proposalId, state: RESOLUTION_STATES[name], event });
+            }
+        }
+        return timeline.filter((transition) => proposalId === undefined || transition.proposalId === proposalId);
+    }
+
+    /**
+     * Discussion thread of the proposal: vote reasons and top-level comments in chain order,
+     * with the replies nested under their comments. Replies to unknown comments are shown at the top level.
+     * @param proposalId ID of the proposal
+     */
+    async getDiscussion(proposalId: number): Promise<DiscussionEntry[]> {
+        const thread: DiscussionEntry[] = [];
+        const comments = new Map<string, DiscussionEntry>();
+        for (const event of await this.getEvents()) {
+            if (event.name === 'VotedWithReason' && event.proposalId === proposalId) {
+                thread.push({ author: event.voter, vote: event.vote, reason: event.reason, replies: [], event });
+            } else if (event.name === 'CommentAdded' && event.proposalId === proposalId) {
+                const entry = { author: event.author, commentHash: event.commentHash, replies: [], event };
+                (comments.get(event.parentHash)?.replies ?? thread).push(entry);
+                if (!comments.has(event.commentHash)) {
+                    comments.set(event.commentHash, entry);
+                }
+            }
+        }
+        return thread;
+    }
+
+    /**
+     * Voters of the proposal and their weights. A weight is the voter balance at the proposal snapshot block
+     * plus the balances of the accounts which delegated to it at the snapshot and did not vote themselves.
+     * Votes cast before the last amendment are not counted.
+     * @param proposalId ID of the proposal
+     */
+    async getVoters(proposalId: number): Promise<VoterWeight[]> {
+        const { snapshot } = await this.contract.proposals(proposalId);
+
+        const votes = new Map<string, Vote>();
+        const balances = new Map<string, BigNumber>();
+        const delegates = new Map<string, string>();
+        for (const event of await this.getEvents()) {
+            if (event.name === 'Voted' && event.proposalId === proposalId) {
+                votes.set(event.voter, event.vote);
+            } else if (event.name === 'ProposalAmended' && event.proposalId === proposalId) {
+                votes.clear();
+            } else if (event.name === 'Transfer' && snapshot.gte(event.blockNumber)) {
+                const zero = BigNumber.from(0);
+                balances.set(event.from, (balances.get(event.from) ?? zero).sub(event.value));
+                balances.set(event.to, (balances.get(event.to) ?? zero).add(event.value));
+            } else if (event.name === 'DelegateChanged' && snapshot.gte(event.blockNumber)) {
+                delegates.set(event.delegator, event.toDelegate);
+            }
+        }
+
+        const isVoting = (account: string) => (votes.get(account) ?? Vote.Abstain) !== Vote.Abstain;
+        return [...votes.entries()]
+            .filter(([voter]) => isVoting(voter))
+            .map(([voter, vote]) => {
+                let weight = balances.get(voter) ?? BigNumber.from(0);
+                for (const [delegator, delegatee] of delegates) {
+                    if (delegatee === voter && delegator !== voter && !isVoting(delegator)) {
+                        weight = weight.add(balances.get(delegator) ?? 0);
+                    }
+                }
+                return { voter, vote, weight };
+            });
+    }
+}
@@ -0,0 +1,369 @@
+import { BigNumber, BigNumberish, ContractReceipt, ethers, Signer } from 'ethers';
+import type { MyDao } from '../typechain-types';
+import { SignedBallot, SignedPermit } from './Ballots';
+import { ClaimTree } from './ClaimTree';
+import { getActionsHash } from './ProposalActions';
+import { getProposalDocumentHash, ProposalAction, ProposalDocument, serializeProposalDocument } from './ProposalDocument';
+import { ProposalStore } from './ProposalStore';
+import { DecisionRule, GovernanceParams, Proposal, ProposalState, Vote, VoteChoice } from './types';
+import { getProposalHash, parseVoteChoice } from './utils';
+
+export interface CreatedProposal {
+    id: number,
+    proposalHash: string,
+    receipt: ContractReceipt,
+}
+
+/**
+ * Typed client for a deployed MyDao contract
+ */
+export class MyDaoClient {
+    /**
+     * @param contract MyDao contract
+     * @param store Store for the off-chain proposal texts or documents
+     * @param commentStore Store for the comment texts, which are hashed with `getProposalHash`.
+     * By default they are kept in the backend of `store`, so a document store can be used for proposals.
+     */
+    constructor(
+        readonly contract: MyDao,
+        readonly store?: ProposalStore,
+        readonly commentStore: ProposalStore | undefined = store && new ProposalStore(store.backend),
+    ) {
+    }
+
+    /**
+     * Client sending transactions from another signer
+     * @param signer Signer to use
+     */
+    connect(signer: Signer): MyDaoClient {
+        return new MyDaoClient(this.contract.connect(signer), this.store, this.commentStore);
+    }
+
+    /**
+     * Get governance parameters the contract was deployed with
+     */
+    async getGovernanceParams(): Promise<GovernanceParams> {
+        const [
+            maxProposals,
+            votingPeriod,
+            initialSupply,
+            thresholdPercent,
+            decisionRule,
+            quorumPercent,
+            timelockDelay,
+            guardian,
+            proposalThreshold,
+            proposalDeposit,
+        ] = await Promise.all([
+            this.contract.maxProposals(),
+            this.contract.votingPeriod(),
+            this.contract.initialSupply(),
+            this.contract.thresholdPercent(),
+            this.contract.decisionRule(),
+            this.contract.quorumPercent(),
+            this.contract.timelockDelay(),
+            this.contract.guardian(),
+            this.contract.proposalThreshold(),
+            this.contract.proposalDeposit(),
+        ]);
+        return {
+            maxProposals,
+            votingPeriod: votingPeriod.toNumber(),
+            initialSupply,
+            thresholdPercent,
+            decisionRule: decisionRule as DecisionRule,
+            quorumPercent,
+            timelockDelay: timelockDelay.toNumber(),
+            guardian,
+            proposalThreshold,
+            proposalDeposit,
+        };
+    }
+
+    /**
+     * Create a proposal with the given text or structured document
+     * @param proposal Proposal text or document, only its hash is stored on-chain
+     * @param actions Actions performed when the proposal is executed, the document actions by default
+     * @return ID and hash of the created proposal
+     */
+    async createProposal(proposal: string | ProposalDocument, actions?: ProposalAction[]): Promise<CreatedProposal> {
+        const [proposalHash, serialized] = typeof proposal === 'string'
+            ? [getProposalHash(proposal), proposal]
+            : [getProposalDocumentHash(proposal), serializeProposalDocument(proposal)];
+        await this.store?.put(serialized, proposalHash);
+
+        const proposalActions = actions ?? (typeof proposal === 'string' ? undefined : proposal.actions);
+        const tx = proposalActions === undefined
+            ? await this.contract.createProposal(proposalHash)
+            : await this.contract.createExecutableProposal(proposalHash, getActionsHash(proposalActions));
+        const receipt = await tx.wait();
+
+        const event = receipt.events?.find((e) => e.event === 'ProposalCreated');
+        if (event?.args === undefined) {
+            throw new Error('ProposalCreated event not found');
+        }
+
+        return { id: event.args.proposalId.toNumber(), proposalHash, receipt };
+    }
+
+    /**
+     * Vote for a proposal
+     * @param proposalId ID of the proposal
+     * @param choice Vote to cast
+     */
+    async vote(proposalId: BigNumberish, choice: VoteChoice | Vote): Promise<ContractReceipt> {
+        const vote = typeof choice === 'string' ? parseVoteChoice(choice) : choice;
+        return (await this.contract.vote(proposalId, vote)).wait();
+    }
+
+    /**
+     * Vote for a proposal and explain the vote
+     * @param proposalId ID of the proposal
+     * @param choice Vote to cast
+     * @param reason Rationale of the vote
+     */
+    async voteWithReason(
+        proposalId: BigNumberish,
+        choice: VoteChoice | Vote,
+        reason: string,
+    ): Promise<ContractReceipt> {
+        const vote = typeof choice === 'string' ? parseVoteChoice(choice) : choice;
+        return (await this.contract.voteWithReason(proposalId, vote, reason)).wait();
+    }
+
+    /**
+     * Comment a proposal, the text is saved in the comment store if it is configured
+     * @param proposalId ID of the proposal
+     * @param text Comment text
+     * @param parentHash Hash of the comment to reply to, a top-level comment by default
+     * @return Hash of the comment
+     */
+    async comment(
+        proposalId: BigNumberish,
+        text: string,
+        parentHash: string = ethers.constants.HashZero,
+    ): Promise<{ commentHash: string, receipt: ContractReceipt }> {
+        const commentHash = getProposalHash(text);
+        await this.commentStore?.put(text, commentHash);
+
+        const receipt = await (await this.contract.comment(proposalId, commentHash, parentHash)).wait();
+        return { commentHash, receipt };
+    }
+
+    /**
+     * Vote for several proposals in one transaction, all votes are cast in order or none of them
+     * @param votes Proposal IDs and votes to cast
+     */
+    async voteMany(votes: { proposalId: BigNumberish, choice: VoteChoice | Vote }[]): Promise<ContractReceipt> {
+        const choices = votes.map(({ choice }) => typeof choice === 'string' ? parseVoteChoice(choice) : choice);
+        return (await this.contract.voteBatch(votes.map(({ proposalId }) => proposalId), choices)).wait();
+    }
+
+    /**
+     * Submit a ballot signed by the voter, the client signer pays for gas
+     * @param ballot Signed ballot
+     */
+    async voteBySig(ballot: SignedBallot): Promise<ContractReceipt> {
+        const { proposalId, vote, nonce, deadline } = ballot;
+        const { v, r, s } = ethers.utils.splitSignature(ballot.signature);
+        return (await this.contract.voteBySig(proposalId, vote, nonce, deadline, v, r, s)).wait();
+    }
+
+    /**
+     * Submit several signed ballots in one transaction, the client signer pays for gas.
+     * Failed ballots do not stop the batch, they are reported by `BallotFailed` events of the receipt.
+     * @param ballots Signed ballots in submission order
+     */
+    async voteBySigBatch(ballots: SignedBallot[]): Promise<ContractReceipt> {
+        return (await this.contract.voteBySigBatch(ballots.map((ballot) => {
+            const { proposalId, vote, nonce, deadline } = ballot;
+            const { v, r, s } = ethers.utils.splitSignature(ballot.signature);
+            return { proposalId, vote, nonce, deadline, v, r, s };
+        }))).wait();
+    }
+
+    /**
+     * Submit an allowance signed by the token owner, the client signer pays for gas
+     * @param permit Signed permit
+     */
+    async permit(permit: SignedPermit): Promise<ContractReceipt> {
+        const { owner, spender, value, deadline } = permit;
+        const { v, r, s } = ethers.utils.splitSignature(permit.signature);
+        return (await this.contract.permit(owner, spender, value, deadline, v, r, s)).wait();
+    }
+
+    /**
+     * Decide a proposal by the decision rule after its voting period
+     * @param proposalId ID of the proposal
+     * @return Final state of the proposal
+     */
+    async finalize(proposalId: BigNumberish): Promise<ProposalState> {
+        await (await this.contract.finalize(proposalId)).wait();
+        return (await this.getProposal(proposalId)).state;
+    }
+
+    /**
+     * Mark a proposal as expired after its voting period, it fails if the decision rule decides the proposal
+     * @param proposalId ID of the proposal
+     */
+    async expire(proposalId: BigNumberish): Promise<ContractReceipt> {
+        return (await this.contract.expire(proposalId)).wait();
+    }
+
+    /**
+     * Perform the actions of an accepted proposal
+     * @param proposalId ID of the proposal
+     * @param actions Actions the proposal was created with
+     */
+    async execute(proposalId: BigNumberish, actions: ProposalAction[]): Promise<ContractReceipt> {
+        return (await this.contract.execute(proposalId, actions)).wait();
+    }
+
+    /**
+     * Cancel a proposal, only its creator can do it while it is pending and only the guardian once it is queued
+     * @param proposalId ID of the proposal
+     */
+    async cancel(proposalId: BigNumberish): Promise<ContractReceipt> {
+        return (await this.contract.cancel(proposalId)).wait();
+    }
+
+    /**
+     * Replace the text or document of a pending proposal, only its creator can do it.
+     * Votes are reset and the TTL is kept. Actions of executable proposals do not change.
+     * @param proposalId ID of the proposal
+     * @param proposal New proposal text or document
+     * @return Hash of the amended proposal
+     */
+    async amend(
+        proposalId: BigNumberish,
+        proposal: string | ProposalDocument,
+    ): Promise<{ proposalHash: string, receipt: ContractReceipt }> {
+        const [proposalHash, serialized] = typeof proposal === 'string'
+            ? [getProposalHash(proposal), proposal]
+            : [getProposalDocumentHash(proposal), serializeProposalDocument(proposal)];
+        await this.store?.put(serialized, proposalHash);
+
+        const receipt = await (await this.contract.amend(proposalId, proposalHash)).wait();
+        return { proposalHash, receipt };
+    }
+
+    /**
+     * Claim the signer balance from the genesis claim tree
+     * @param tree Claim tree the contract was deployed with
+     */
+    async claim(tree: ClaimTree): Promise<ContractReceipt> {
+        const account = await this.contract.signer.getAddress();
+        const claim = tree.getClaim(account);
+        if (claim === undefined) {
+            throw new Error(`No claim for ${account}`);
+        }
+        return (await this.contract.claim(claim.amount, tree.getProof(account))).wait();
+    }
+
+    /**
+     * Check whether an account claimed its balance from the genesis claim tree
+     * @param account Address of the account
+     */
+    async hasClaimed(account: string): Promise<boolean> {
+        return this.contract.claimed(account);
+    }
+
+    /**
+     * Delegate voting power of the signer balance, delegating to the signer itself takes it back
+     * @param delegatee Address of the delegate
+     */
+    async delegate(delegatee: string): Promise<ContractReceipt> {
+        return (await this.contract.delegate(delegatee)).wait();
+    }
+
+    /**
+     * Get the account voting with the balance of an account, the account itself unless it delegated
+     * @param account Address of the account
+     */
+    async getDelegate(account: string): Promise<string> {
+        return this.contract.delegates(account);
+    }
+
+    /**
+     * Get current voting power of an account, its balance unless delegated plus the balances delegated to it
+     * @param account Address of the account
+     */
+    async getVotingPower(account: string): Promise<BigNumber> {
+        return this.contract.getVotingPower(account);
+    }
+
+    /**
+     * Get vote of a voter for a proposal
+     * @param proposalId ID of the proposal
+     * @param voter Address of the voter
+     */
+    async getVote(proposalId: BigNumberish, voter: string): Promise<Vote> {
+        return await this.contract.getVote(proposalId, voter) as Vote;
+    }
+
+    /**
+     * Get voting weight of a voter for a proposal, which is its voting power at the proposal snapshot
+     * along with its own delegated balance, less the balances of its delegators which voted themselves
+     * @param proposalId ID of the proposal
+     * @param voter Address of the voter
+     */
+    async getVotingWeight(proposalId: BigNumberish, voter: string): Promise<BigNumber> {
+        return this.contract.getVotingWeight(proposalId, voter);
+    }
+
+    /**
+     * Get a decoded proposal along with its current state, which accounts for the end of the voting period
+     * @param proposalId ID of the proposal
+     */
+    async getProposal(proposalId: BigNumberish): Promise<Proposal> {
+        const [proposal, state] = await Promise.all([
+            this.contract.proposals(proposalId),
+            this.contract.state(proposalId),
+        ]);
+        return {
+            id: proposal.id.toNumber(),
+            proposalHash: proposal.proposalHash,
+            ttl: proposal.ttl.toNumber(),
+            yesVotes: proposal.yesVotes,
+            noVotes: proposal.noVotes,
+            state: state as ProposalState,
+            actionsHash: proposal.actionsHash,
+            eta: proposal.eta.toNumber(),
+            snapshot: proposal.snapshot.toNumber(),
+            proposer: proposal.proposer,
+            amendments: proposal.amendments.toNumber(),
+            deposit: proposal.deposit,
+        };
+    }
+
+    /**
+     * Get the off-chain text of a proposal from the store
+     * @param proposalId ID of the proposal
+     * @return Proposal text or `undefined` if it is not stored
+     */
+    async getProposalText(proposalId: BigNumberish): Promise<string | undefined> {
+        if (this.store === undefined) {
+            throw new Error('Proposal store is not configured');
+        }
+        const { proposalHash } = await this.getProposal(proposalId);
+        return this.store.get(proposalHash);
+    }
+
+    /**
+     * Get all proposals
+     */
+    async listProposals(): Promise<Proposal[]> {
+        const count = (await this.contract.proposalsCount()).toNumber();
+        const ids = Array.from({ length: count }, (_, i) => i);
+        return Promise.all(ids.map((id) => this.getProposal(id)));
+    }
+
+    /**
+     * Get pending proposals which can still be voted for
+     */
+    async listActiveProposals(): Promise<Proposal[]> {
+        const ids = await this.contract.activeProposals();
+        return (await Promise.all(ids.map((id) => this.getProposal(id))))
+            .filter((proposal) => proposal.state === ProposalState.Pending);
+    }
+}
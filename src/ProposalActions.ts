@@ -0,0 +1,55 @@
+import { BigNumberish, ethers } from 'ethers';
+import type { MyDao } from '../typechain-types';
+import { ProposalAction } from './ProposalDocument';
+
+/**
+ * ABI type of `MyDao.Action[]`
+ */
+export const PROPOSAL_ACTIONS_TYPE = 'tuple(address target, uint256 value, bytes data)[]';
+
+/**
+ * ABI-encode actions, as `abi.encode(actions)` does in the contract
+ * @param actions Actions of the proposal
+ */
+export function encodeActions(actions: ProposalAction[]): string {
+    return ethers.utils.defaultAbiCoder.encode([PROPOSAL_ACTIONS_TYPE], [actions]);
+}
+
+/**
+ * Hash of the actions, as passed to `createExecutableProposal`
+ * @param actions Actions of the proposal
+ * @return bytes32 hash of the actions
+ */
+export function getActionsHash(actions: ProposalAction[]): string {
+    return ethers.utils.keccak256(encodeActions(actions));
+}
+
+/**
+ * Action calling a contract function
+ * @param contract Contract to call
+ * @param functionName Name or signature of the function
+ * @param args Function arguments
+ * @param value Amount of wei to send
+ */
+export function createCallAction(
+    contract: ethers.BaseContract,
+    functionName: string,
+    args: unknown[],
+    value: BigNumberish = 0,
+): ProposalAction {
+    return {
+        target: contract.address,
+        value: ethers.BigNumber.from(value).toString(),
+        data: contract.interface.encodeFunctionData(functionName, args),
+    };
+}
+
+/**
+ * Action transferring MDA tokens held by the DAO
+ * @param myDao MyDao contract
+ * @param to Recipient
+ * @param amount Amount in the smallest units
+ */
+export function createTokenTransferAction(myDao: MyDao, to: string, amount: BigNumberish): ProposalAction {
+    return createCallAction(myDao, 'transfer', [to, amount]);
+}
@@ -0,0 +1,178 @@
+import Ajv, { JSONSchemaType } from 'ajv';
+import { BigNumber, ethers, TypedDataDomain, TypedDataField } from 'ethers';
+
+export const PROPOSAL_DOCUMENT_VERSION = 1;
+
+/**
+ * On-chain call performed when a proposal is accepted
+ */
+export interface ProposalAction {
+    target: string,
+    value: string,
+    data: string,
+}
+
+/**
+ * Structured off-chain proposal
+ */
+export interface ProposalDocument {
+    version: typeof PROPOSAL_DOCUMENT_VERSION,
+    title: string,
+    description: string,
+    author: string,
+    actions?: ProposalAction[],
+    createdAt: number,
+}
+
+export const PROPOSAL_DOCUMENT_SCHEMA: JSONSchemaType<ProposalDocument> = {
+    type: 'object',
+    properties: {
+        version: { type: 'integer', const: PROPOSAL_DOCUMENT_VERSION },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        author: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+        actions: {
+            type: 'array',
+            nullable: true,
+            items: {
+                type: 'object',
+                properties: {
+                    target: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+                    value: { type: 'string', pattern: '^[0-9]+$' },
+                    data: { type: 'string', pattern: '^0x([0-9a-fA-F]{2})*$' },
+                },
+                required: ['target', 'value', 'data'],
+                additionalProperties: false,
+            },
+        },
+        createdAt: { type: 'integer', minimum: 0 },
+    },
+    required: ['version', 'title', 'description', 'author', 'createdAt'],
+    additionalProperties: false,
+};
+
+/**
+ * EIP-712 domain of proposal documents, it does not depend on the chain
+ * so that the same document has the same hash everywhere
+ */
+export const PROPOSAL_DOCUMENT_DOMAIN: TypedDataDomain = {
+    name: 'MyDao',
+    version: PROPOSAL_DOCUMENT_VERSION.toString(),
+};
+
+export const PROPOSAL_DOCUMENT_TYPES: Record<string, TypedDataField[]> = {
+    ProposalDocument: [
+        { name: 'version', type: 'uint16' },
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string' },
+        { name: 'author', type: 'address' },
+        { name: 'actions', type: 'Action[]' },
+        { name: 'createdAt', type: 'uint64' },
+    ],
+    Action: [
+        { name: 'target', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+    ],
+};
+
+const validate = new Ajv({ allErrors: true }).compile(PROPOSAL_DOCUMENT_SCHEMA);
+
+export class InvalidProposalDocumentError extends Error {
+    constructor(readonly errors: string[]) {
+        super(`Invalid proposal document: ${errors.join(', ')}`);
+        this.name = 'InvalidProposalDocumentError';
+    }
+}
+
+/**
+ * Check that the value is a proposal document matching the schema
+ * @param document Value to check
+ */
+export function validateProposalDocument(document: unknown): asserts document is ProposalDocument {
+    if (!validate(document)) {
+        const errors = (validate.errors ?? []).map((e) => `${e.instancePath || '/'} ${e.message}`);
+        throw new InvalidProposalDocumentError(errors);
+    }
+}
+
+function normalizeText(text: string): string {
+    return text.normalize('NFC').replace(/\r\n?/g, '\n').trim();
+}
+
+/**
+ * Bring a document to the canonical form: NFC text with `\n` line breaks and no surrounding whitespace,
+ * a single-line title, checksummed addresses, lowercase calldata and no empty action list
+ * @param document Proposal document
+ */
+export function normalizeProposalDocument(document: ProposalDocument): ProposalDocument {
+    validateProposalDocument(document);
+
+    const normalized: ProposalDocument = {
+        version: document.version,
+        title: normalizeText(document.title).replace(/\s+/g, ' '),
+        description: normalizeText(document.description),
+        author: ethers.utils.getAddress(document.author),
+        createdAt: document.createdAt,
+    };
+
+    if (document.actions !== undefined && document.actions.length > 0) {
+        normalized.actions = document.actions.map((action) => ({
+            target: ethers.utils.getAddress(action.target),
+            value: BigNumber.from(action.value).toString(),
+            data: action.data.toLowerCase(),
+        }));
+    }
+
+    return normalized;
+}
+
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort()
+            .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+}
+
+/**
+ * Canonical JSON of a document: normalized, with sorted keys and without whitespace
+ * @param document Proposal document
+ */
+export function serializeProposalDocument(document: ProposalDocument): string {
+    return JSON.stringify(sortKeys(normalizeProposalDocument(document)));
+}
+
+/**
+ * Parse and validate a serialized document
+ * @param json Serialized document
+ */
+export function parseProposalDocument(json: string): ProposalDocument {
+    const document: unknown = JSON.parse(json);
+    validateProposalDocument(document);
+    return normalizeProposalDocument(document);
+}
+
+/**
+ * EIP-712 hash of a document, as passed to `createProposal`
+ * @param document Proposal document
+ * @return bytes32 hash of the proposal
+ */
+export function getProposalDocumentHash(document: ProposalDocument): string {
+    const normalized = normalizeProposalDocument(document);
+    return ethers.utils._TypedDataEncoder.hash(PROPOSAL_DOCUMENT_DOMAIN, PROPOSAL_DOCUMENT_TYPES, {
+        ...normalized,
+        actions: normalized.actions ?? [],
+    });
+}
+
+/**
+ * EIP-712 hash of a serialized document, can be used as the hash function of a `ProposalStore`
+ * @param json Serialized document
+ */
+export function getSerializedProposalDocumentHash(json: string): string {
+    return getProposalDocumentHash(parseProposalDocument(json));
+}
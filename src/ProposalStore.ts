@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ProposalCreatedEvent } from '../typechain-types/contracts/MyDao';
+import { getProposalHash } from './utils';
+
+/**
+ * Raw storage of proposal documents keyed by their hash
+ */
+export interface ProposalBackend {
+    read(proposalHash: string): Promise<string | undefined>,
+    write(proposalHash: string, document: string): Promise<void>,
+}
+
+export class ProposalHashMismatchError extends Error {
+    constructor(readonly expected: string, readonly actual: string) {
+        super(`Proposal hash mismatch: expected ${expected}, got ${actual}`);
+        this.name = 'ProposalHashMismatchError';
+    }
+}
+
+export class ProposalNotFoundError extends Error {
+    constructor(readonly proposalHash: string) {
+        super(`Proposal document not found: ${proposalHash}`);
+        this.name = 'ProposalNotFoundError';
+    }
+}
+
+export interface ResolvedProposal {
+    proposalId: number,
+    proposalHash: string,
+    creator: string,
+    document: string,
+}
+
+/**
+ * Content-addressed store of off-chain proposal documents
+ */
+export class ProposalStore {
+    /**
+     * @param backend Storage for documents
+     * @param hash Function computing the on-chain hash of a document
+     */
+    constructor(
+        readonly backend: ProposalBackend = new MemoryProposalBackend(),
+        readonly hash: (document: string) => string = getProposalHash,
+    ) {
+    }
+
+    /**
+     * Save a document under its hash
+     * @param document Proposal document
+     * @param expectedHash Hash the document must have, e.g. taken from the chain
+     * @return Hash of the document
+     */
+    async put(document: string, expectedHash?: string): Promise<string> {
+        const proposalHash = this.hash(document);
+        if (expectedHash !== undefined && expectedHash.toLowerCase() !== proposalHash) {
+            throw new ProposalHashMismatchError(expectedHash, proposalHash);
+        }
+
+        await this.backend.write(proposalHash, document);
+        return proposalHash;
+    }
+
+    /**
+     * Get a document by its hash, verifying that the stored data was not changed
+     * @param proposalHash Hash of the document
+     * @return Document or `undefined` if it is not stored
+     */
+    async get(proposalHash: string): Promise<string | undefined> {
+        const document = await this.backend.read(proposalHash.toLowerCase());
+        if (document === undefined) {
+            return undefined;
+        }
+
+        const actualHash = this.hash(document);
+        if (actualHash !== proposalHash.toLowerCase()) {
+            throw new ProposalHashMismatchError(proposalHash, actualHash);
+        }
+        return document;
+    }
+
+    async has(proposalHash: string): Promise<boolean> {
+        return await this.get(proposalHash) !== undefined;
+    }
+
+    /**
+     * Resolve the document of a `ProposalCreated` event
+     * @param event `ProposalCreated` event
+     */
+    async resolve(event: ProposalCreatedEvent): Promise<ResolvedProposal> {
+        const { proposalId, proposal, creator } = event.args;
+
+        const document = await this.get(proposal);
+        if (document === undefined) {
+            throw new ProposalNotFoundError(proposal);
+        }
+
+        return { proposalId: proposalId.toNumber(), proposalHash: proposal, creator, document };
+    }
+}
+
+export class MemoryProposalBackend implements ProposalBackend {
+    private readonly documents = new Map<string, string>();
+
+    async read(proposalHash: string): Promise<string | undefined> {
+        return this.documents.get(proposalHash);
+    }
+
+    async write(proposalHash: string, document: string): Promise<void> {
+        this.documents.set(proposalHash, document);
+    }
+}
+
+/**
+ * Stores every document in a separate file named by its hash
+ */
+export class FileSystemProposalBackend implements ProposalBackend {
+    constructor(readonly directory: string) {
+    }
+
+    async read(proposalHash: string): Promise<string | undefined> {
+        try {
+            return await fs.readFile(this.getPath(proposalHash), 'utf8');
+        } catch (e) {
+            if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    async write(proposalHash: string, document: string): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.getPath(proposalHash), document, 'utf8');
+    }
+
+    private getPath(proposalHash: string): string {
+        return path.join(this.directory, proposalHash);
+    }
+}
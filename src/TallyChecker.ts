@@ -0,0 +1,202 @@
+import { BigNumber, ethers } from 'ethers';
+import { BlockTag } from '@ethersproject/providers';
+import type { MyDao } from '../typechain-types';
+import { DaoModel, DaoModelError, ModelProposal } from './DaoModel';
+import { DaoEvent, DaoEventData, EventPosition, VotedData } from './Indexer';
+import { MyDaoClient } from './MyDaoClient';
+import { GovernanceParams, ProposalState } from './types';
+
+export interface TallyMismatch {
+    proposalId?: number,
+    transactionHash?: string,
+    message: string,
+}
+
+export interface TallyReport {
+    /**
+     * Proposals recomputed from the events
+     */
+    proposals: ModelProposal[],
+    mismatches: TallyMismatch[],
+}
+
+function describeEvent(event: DaoEventData): string {
+    const { name, ...args } = event;
+    const values = Object.entries(args).map(([key, value]) => `${key}=${value.toString()}`);
+    return `${name}(${values.join(', ')})`;
+}
+
+function withoutPosition(event: DaoEvent): DaoEventData {
+    const { blockNumber, blockHash, logIndex, transactionHash, timestamp, ...data } = event;
+    return data as DaoEventData;
+}
+
+function groupByTransaction(events: DaoEvent[]): DaoEvent[][] {
+    const groups: DaoEvent[][] = [];
+    for (const event of events) {
+        const last = groups[groups.length - 1];
+        if (last !== undefined && last[0].transactionHash === event.transactionHash) {
+            last.push(event);
+        } else {
+            groups.push([event]);
+        }
+    }
+    return groups;
+}
+
+function replayTransfers(model: DaoModel, events: DaoEvent[], timestamp: number): DaoEventData[] {
+    return events.flatMap((event) => {
+        if (event.name !== 'Transfer') {
+            return [];
+        }
+        if (!BigNumber.from(event.from).isZero()) {
+            return model.transfer(event.from, event.to, event.value, timestamp);
+        }
+        // The contract mints to itself only the claimable part of the genesis distribution
+        return event.to === model.address ? model.mintClaimSupply(event.value) : model.mint(event.to, event.value);
+    });
+}
+
+/**
+ * Replay a transaction in the model, the call is recognized by its events:
+ * `createProposal` emits `ProposalCreated`, transfers emit only indexed `Transfer` events, `claim` ends with `Claimed`,
+ * `vote` emits only `Voted` and resolution events, `voteWithReason` adds `VotedWithReason` after them,
+ * deposits move with `Transfer` events before `ProposalCreated` and after the resolution events,
+ * `voteBatch` emits several `Voted` events of the same voter, `finalize` and `expire` emit a single resolution event.
+ * `execute` ends with `ProposalExecuted`, only the token transfers of its actions are replayed,
+ * `cancel` emits only `ProposalCancelled`, by the creator of a pending proposal or by the guardian otherwise,
+ * `amend` emits only `ProposalAmended`, `delegate` emits only `DelegateChanged`
+ * and `comment` emits only `CommentAdded`.
+ * @param actionsHashes Action hashes of the proposals, they are not emitted in events
+ */
+function replayTransaction(model: DaoModel, events: DaoEvent[], actionsHashes: Map<number, string>): DaoEventData[] {
+    const { timestamp } = events[0];
+
+    const executed = events[events.length - 1];
+    if (executed.name === 'ProposalExecuted') {
+        return [...replayTransfers(model, events, timestamp), ...model.execute(executed.proposalId, timestamp)];
+    }
+
+    const created = events.find((event) => event.name === 'ProposalCreated');
+    if (created?.name === 'ProposalCreated') {
+        const actionsHash = actionsHashes.get(created.proposalId);
+        return model.createProposal(created.creator, created.proposalHash, timestamp, actionsHash);
+    }
+
+    const [first] = events;
+    const claimed = events[events.length - 1];
+    if (claimed.name === 'Claimed') {
+        return model.claim(claimed.account, claimed.amount, timestamp);
+    }
+    if (first.name === 'Transfer') {
+        return replayTransfers(model, events, timestamp);
+    }
+    if (first.name === 'Voted') {
+        const votes = events.filter((event): event is VotedData & EventPosition => event.name === 'Voted');
+        if (votes.length === 1) {
+            const reason = events.find((event) => event.name === 'VotedWithReason');
+            return model.vote(first.voter, first.proposalId, first.vote, timestamp,
+                reason?.name === 'VotedWithReason' ? reason.reason : undefined);
+        }
+        return model.voteBatch(first.voter, votes.map((event) => event.proposalId),
+            votes.map((event) => event.vote), timestamp);
+    }
+    if (first.name === 'ProposalAccepted' || first.name === 'ProposalRejected' || first.name === 'ProposalExpired') {
+        return model.finalize(first.proposalId, timestamp);
+    }
+    if (first.name === 'ProposalCancelled') {
+        const proposal = model.proposals[first.proposalId];
+        const caller = proposal?.state === ProposalState.Pending ? proposal.creator : model.params.guardian;
+        return model.cancel(caller, first.proposalId, timestamp);
+    }
+    if (first.name === 'ProposalAmended') {
+        const creator = model.proposals[first.proposalId]?.creator ?? ethers.constants.AddressZero;
+        return model.amend(creator, first.proposalId, first.proposalHash, timestamp);
+    }
+    if (first.name === 'DelegateChanged') {
+        return model.delegate(first.delegator, first.toDelegate, timestamp);
+    }
+    if (first.name === 'CommentAdded') {
+        return model.comment(first.author, first.proposalId, first.commentHash, first.parentHash);
+    }
+
+    throw new DaoModelError(`Unexpected ${first.name} event`);
+}
+
+/**
+ * Recompute proposal tallies from `ProposalCreated`, `Voted`, `Transfer` and `DelegateChanged` events
+ * following the contract rules,
+ * and check them against the emitted events and the stored proposals
+ * @param myDao MyDao contract
+ * @param events All contract events from the deployment, e.g. collected by `Indexer`
+ * @param params Governance parameters to check against, read from the contract by default
+ * @param blockTag Block of the last event, the stored proposals are read at it
+ */
+export async function checkTallies(
+    myDao: MyDao,
+    events: DaoEvent[],
+    params?: GovernanceParams,
+    blockTag: BlockTag = 'latest',
+): Promise<TallyReport> {
+    const model = new DaoModel(params ?? await new MyDaoClient(myDao).getGovernanceParams(), myDao.address);
+    const mismatches: TallyMismatch[] = [];
+
+    const actionsHashes = new Map<number, string>();
+    for (const event of events) {
+        if (event.name === 'ProposalCreated') {
+            const { actionsHash } = await myDao.proposals(event.proposalId, { blockTag });
+            actionsHashes.set(event.proposalId, actionsHash);
+        }
+    }
+
+    for (const transaction of groupByTransaction(events)) {
+        const { transactionHash } = transaction[0];
+        const actual = transaction.map(withoutPosition).map(describeEvent);
+
+        let expected: string[];
+        try {
+            expected = replayTransaction(model, transaction, actionsHashes).map(describeEvent);
+        } catch (e) {
+            if (!(e instanceof DaoModelError)) {
+                throw e;
+            }
+            mismatches.push({ transactionHash, message: `Transaction reverts in the model: ${e.message}` });
+            continue;
+        }
+
+        if (expected.join() !== actual.join()) {
+            mismatches.push({
+                transactionHash,
+                message: `Expected events [${expected.join(', ')}], got [${actual.join(', ')}]`,
+            });
+        }
+    }
+
+    const count = (await myDao.proposalsCount({ blockTag })).toNumber();
+    if (count !== model.proposals.length) {
+        mismatches.push({ message: `Expected ${model.proposals.length} proposals, got ${count}` });
+    }
+
+    for (const expected of model.proposals.slice(0, count)) {
+        const actual = await myDao.proposals(expected.id, { blockTag });
+        const fields: [string, unknown, unknown][] = [
+            ['proposalHash', expected.proposalHash, actual.proposalHash],
+            ['ttl', expected.ttl, actual.ttl.toNumber()],
+            ['yesVotes', expected.yesVotes.toString(), actual.yesVotes.toString()],
+            ['noVotes', expected.noVotes.toString(), actual.noVotes.toString()],
+            ['state', ProposalState[expected.state], ProposalState[actual.state]],
+            ['eta', expected.eta, actual.eta.toNumber()],
+            ['deposit', expected.deposit.toString(), actual.deposit.toString()],
+        ];
+        for (const [field, expectedValue, actualValue] of fields) {
+            if (expectedValue !== actualValue) {
+                mismatches.push({
+                    proposalId: expected.id,
+                    message: `Proposal ${field} should be ${expectedValue}, got ${actualValue}`,
+                });
+            }
+        }
+    }
+
+    return { proposals: model.proposals, mismatches };
+}
@@ -0,0 +1,227 @@
+import { BigNumber, ethers, Signer } from 'ethers';
+import { promises as fs } from 'fs';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import path from 'path';
+import type { MyDao } from '../typechain-types';
+import { ClaimTree } from './ClaimTree';
+import { MyDaoClient } from './MyDaoClient';
+import { Genesis, GovernanceParams, TokenAllocation } from './types';
+import { DEFAULT_GOVERNANCE_PARAMS, EMPTY_GENESIS } from './utils';
+
+/**
+ * What to deploy on a network
+ */
+export interface DeploymentConfig {
+    /**
+     * Governance parameters overriding the defaults
+     */
+    params: Partial<GovernanceParams>,
+    /**
+     * Balances minted at deployment, the deployer gets the rest of the initial supply
+     */
+    distribution: TokenAllocation[],
+    /**
+     * Balances claimable from the DAO with the proofs of their `ClaimTree`
+     */
+    claims?: TokenAllocation[],
+}
+
+/**
+ * Governance parameters as stored in a manifest, token amounts are decimal strings
+ */
+export type SerializedGovernanceParams = Record<keyof GovernanceParams, string | number>;
+
+/**
+ * Record of a deployment, written as JSON per network
+ */
+export interface DeploymentManifest {
+    network: string,
+    chainId: number,
+    address: string,
+    deployer: string,
+    blockNumber: number,
+    transactionHash: string,
+    constructorArgs: SerializedGovernanceParams,
+    distribution: { account: string, amount: string }[],
+    claimRoot: string,
+    claimSupply: string,
+    /**
+     * Hash of the contract ABI the deployment was made with
+     */
+    abiHash: string,
+}
+
+export class DeploymentVerificationError extends Error {
+    constructor(readonly errors: string[]) {
+        super(`Deployment verification failed: ${errors.join(', ')}`);
+        this.name = 'DeploymentVerificationError';
+    }
+}
+
+/**
+ * Deploy MyDao, the deployer receives the whole initial supply unless a genesis distribution is given
+ * @param hre Hardhat runtime environment
+ * @param params Governance parameters overriding the defaults
+ * @param signer Deployer, the first account by default
+ * @param genesis Initial distribution of the supply
+ */
+export async function deployMyDao(
+    hre: HardhatRuntimeEnvironment,
+    params: Partial<GovernanceParams> = {},
+    signer?: Signer,
+    genesis: Partial<Genesis> = {},
+): Promise<MyDao> {
+    const MyDao = await hre.ethers.getContractFactory('MyDao', signer);
+    const myDao = await MyDao.deploy({ ...DEFAULT_GOVERNANCE_PARAMS, ...params }, { ...EMPTY_GENESIS, ...genesis });
+    return myDao.deployed();
+}
+
+/**
+ * Deploy MyDao with the initial distribution as its genesis and verify the resulting state
+ * @param hre Hardhat runtime environment
+ * @param config Parameters and initial distribution
+ * @param options Deployer, the first account by default, and network name recorded in the manifest
+ * @return Deployed contract and its manifest
+ */
+export async function deployDao(
+    hre: HardhatRuntimeEnvironment,
+    config: DeploymentConfig,
+    options: { signer?: Signer, network?: string } = {},
+): Promise<{ myDao: MyDao, manifest: DeploymentManifest }> {
+    const params = { ...DEFAULT_GOVERNANCE_PARAMS, ...config.params };
+    const tree = config.claims === undefined ? undefined : new ClaimTree(config.claims);
+    const claimSupply = tree?.supply ?? BigNumber.from(0);
+    const remainder = config.distribution.reduce(
+        (rest, { amount }) => rest.sub(amount),
+        params.initialSupply.sub(claimSupply),
+    );
+    if (remainder.isNegative()) {
+        throw new Error('Distribution exceeds the initial supply');
+    }
+
+    const signer = options.signer ?? (await hre.ethers.getSigners())[0];
+    const allocations = remainder.isZero()
+        ? config.distribution
+        : [...config.distribution, { account: await signer.getAddress(), amount: remainder }];
+    const claimRoot = tree?.root ?? ethers.constants.HashZero;
+    const myDao = await deployMyDao(hre, params, signer, { allocations, claimRoot, claimSupply });
+    const receipt = await myDao.deployTransaction.wait();
+
+    const manifest: DeploymentManifest = {
+        network: options.network ?? hre.network.name,
+        chainId: (await myDao.provider.getNetwork()).chainId,
+        address: myDao.address,
+        deployer: receipt.from,
+        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.transactionHash,
+        constructorArgs: serializeGovernanceParams(params),
+        distribution: config.distribution.map(({ account, amount }) => ({ account, amount: amount.toString() })),
+        claimRoot,
+        claimSupply: claimSupply.toString(),
+        abiHash: await getAbiHash(hre),
+    };
+    await verifyDeployment(hre, myDao, manifest);
+    return { myDao, manifest };
+}
+
+/**
+ * Check the state of a contract right after its deployment against the manifest
+ * @param hre Hardhat runtime environment with the artifacts of the build
+ * @param myDao Deployed contract
+ * @param manifest Deployment manifest
+ * @throws DeploymentVerificationError listing every mismatch
+ */
+export async function verifyDeployment(
+    hre: HardhatRuntimeEnvironment,
+    myDao: MyDao,
+    manifest: DeploymentManifest,
+): Promise<void> {
+    const errors: string[] = [];
+
+    if (myDao.address !== manifest.address) {
+        errors.push(`address is ${myDao.address}, expected ${manifest.address}`);
+    }
+    if (await myDao.provider.getCode(manifest.address) === '0x') {
+        errors.push(`no code at ${manifest.address}`);
+    }
+    if (await getAbiHash(hre) !== manifest.abiHash) {
+        errors.push('ABI hash does not match the build');
+    }
+
+    const params = serializeGovernanceParams(await new MyDaoClient(myDao).getGovernanceParams());
+    for (const [name, expected] of Object.entries(manifest.constructorArgs)) {
+        const actual = params[name as keyof GovernanceParams];
+        if (actual !== expected) {
+            errors.push(`${name} is ${actual}, expected ${expected}`);
+        }
+    }
+
+    const initialSupply = BigNumber.from(manifest.constructorArgs.initialSupply);
+    if (!(await myDao.totalSupply()).eq(initialSupply)) {
+        errors.push(`total supply is not ${initialSupply}`);
+    }
+    if (await myDao.claimRoot() !== manifest.claimRoot) {
+        errors.push(`claim root is not ${manifest.claimRoot}`);
+    }
+    if (!(await myDao.unclaimedSupply()).eq(manifest.claimSupply)) {
+        errors.push(`unclaimed supply is not ${manifest.claimSupply}`);
+    }
+
+    const deployer = ethers.utils.getAddress(manifest.deployer);
+    const balances = new Map<string, BigNumber>([
+        [deployer, initialSupply.sub(manifest.claimSupply)],
+        [myDao.address, BigNumber.from(manifest.claimSupply)],
+    ]);
+    for (const { account, amount } of manifest.distribution) {
+        const recipient = ethers.utils.getAddress(account);
+        balances.set(deployer, balances.get(deployer)!.sub(amount));
+        balances.set(recipient, (balances.get(recipient) ?? BigNumber.from(0)).add(amount));
+    }
+    for (const [account, expected] of balances) {
+        const actual = await myDao.balanceOf(account);
+        if (!actual.eq(expected)) {
+            errors.push(`balance of ${account} is ${actual}, expected ${expected}`);
+        }
+    }
+
+    if (!(await myDao.proposalsCount()).isZero()) {
+        errors.push('proposals were created');
+    }
+
+    if (errors.length > 0) {
+        throw new DeploymentVerificationError(errors);
+    }
+}
+
+/**
+ * Write the manifest to `<directory>/<network>.json`
+ * @return Path of the manifest
+ */
+export async function writeDeploymentManifest(directory: string, manifest: DeploymentManifest): Promise<string> {
+    const file = path.join(directory, `${manifest.network}.json`);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+    return file;
+}
+
+/**
+ * Read the manifest of a network written by `writeDeploymentManifest`
+ */
+export async function readDeploymentManifest(directory: string, network: string): Promise<DeploymentManifest> {
+    return JSON.parse(await fs.readFile(path.join(directory, `${network}.json`), 'utf8'));
+}
+
+/**
+ * Hash of the MyDao ABI this package was built with
+ */
+export async function getAbiHash(hre: HardhatRuntimeEnvironment): Promise<string> {
+    return ethers.utils.id(JSON.stringify((await hre.artifacts.readArtifact('MyDao')).abi));
+}
+
+function serializeGovernanceParams(params: GovernanceParams): SerializedGovernanceParams {
+    const serialized = {} as SerializedGovernanceParams;
+    for (const [name, value] of Object.entries(params)) {
+        serialized[name as keyof GovernanceParams] = BigNumber.isBigNumber(value) ? value.toString() : value;
+    }
+    return serialized;
+}
@@ -0,0 +1,113 @@
+import { DiscussionEntry } from './Indexer';
+import { SimulationReport } from './simulation';
+import { Proposal, ProposalState, Vote } from './types';
+import { formatTokens } from './utils';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Format a duration as `1d 2h 3m 4s`, omitting leading zero units
+ * @param seconds Duration in seconds
+ */
+export function formatDuration(seconds: number): string {
+    const units: [number, string][] = [[DAY, 'd'], [HOUR, 'h'], [MINUTE, 'm'], [1, 's']];
+    const parts: string[] = [];
+
+    let rest = Math.abs(seconds);
+    for (const [size, suffix] of units) {
+        const value = Math.floor(rest / size);
+        rest -= value * size;
+        if (value > 0 || parts.length > 0 || size === 1) {
+            parts.push(`${value}${suffix}`);
+        }
+    }
+
+    return parts.join(' ');
+}
+
+/**
+ * Format time left until the proposal TTL
+ * @param ttl Proposal TTL
+ * @param now Current block timestamp
+ */
+export function formatTtl(ttl: number, now: number): string {
+    return ttl >= now
+        ? `${formatDuration(ttl - now)} left`
+        : `expired ${formatDuration(now - ttl)} ago`;
+}
+
+export function formatVote(vote: Vote): string {
+    return Vote[vote].toUpperCase();
+}
+
+export function formatState(state: ProposalState): string {
+    return ProposalState[state];
+}
+
+/**
+ * Multi-line human readable description of a proposal
+ * @param proposal Decoded proposal
+ * @param now Current block timestamp
+ */
+export function formatProposal(proposal: Proposal, now: number): string {
+    return [
+        `Proposal #${proposal.id}`,
+        `  Hash:  ${proposal.proposalHash}`,
+        `  State: ${formatState(proposal.state)}`,
+        `  Yes:   ${formatTokens(proposal.yesVotes)} MDA`,
+        `  No:    ${formatTokens(proposal.noVotes)} MDA`,
+        `  TTL:   ${formatTtl(proposal.ttl, now)}`,
+    ].join('\n');
+}
+
+/**
+ * Multi-line discussion thread, replies are indented under their comments
+ * @param entries Discussion of a proposal
+ * @param texts Comment texts by their hashes, comments which are not found are shown by hash
+ */
+export function formatDiscussion(entries: DiscussionEntry[], texts: Map<string, string>): string {
+    const lines: string[] = [];
+    const format = (entry: DiscussionEntry, indent: string) => {
+        if (entry.vote !== undefined) {
+            lines.push(`${indent}- ${entry.author} voted ${formatVote(entry.vote)}: ${entry.reason}`);
+        } else {
+            const hash = entry.commentHash!;
+            lines.push(`${indent}- ${entry.author}: ${texts.get(hash) ?? `<${hash}>`}`);
+        }
+        entry.replies.forEach((reply) => format(reply, `${indent}  `));
+    };
+    entries.forEach((entry) => format(entry, ''));
+    return lines.join('\n');
+}
+
+/**
+ * Multi-line summary of a simulation: the outcome of every proposal, blocked proposals and failed steps
+ * @param report Simulation report
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+    const lines = report.proposals.map((proposal) => {
+        const { id, state, timeToResolution, creator } = proposal;
+        const resolution = timeToResolution === undefined ? '' : ` after ${formatDuration(timeToResolution)}`;
+        return `#${id} ${formatState(state)}${resolution}: ${proposal.proposal} by ${creator}`
+            + ` (Yes: ${proposal.yesVotes} MDA, No: ${proposal.noVotes} MDA)`;
+    });
+    if (report.proposals.length === 0) {
+        lines.push('No proposals');
+    }
+    lines.push(`Blocked proposals: ${report.blocked}`);
+    if (report.failures.length > 0) {
+        lines.push('Failed steps:');
+    }
+    for (const failure of report.failures) {
+        lines.push(`  #${failure.step} ${failure.action} by ${failure.holder}: ${failure.reason}`);
+    }
+    if (report.mismatches.length > 0) {
+        lines.push('Unmet expectations:');
+    }
+    for (const mismatch of report.mismatches) {
+        lines.push(`  ${mismatch}`);
+    }
+    return lines.join('\n');
+}
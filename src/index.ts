@@ -0,0 +1,16 @@
+export * from './types';
+export * from './utils';
+export * from './MyDaoClient';
+export * from './format';
+export * from './ProposalStore';
+export * from './ProposalDocument';
+export * from './ProposalActions';
+export * from './Indexer';
+export * from './DaoModel';
+export * from './TallyChecker';
+export * from './Ballots';
+export * from './BallotRelayer';
+export * from './ClaimTree';
+export * from './deploy';
+export * from './upgrades';
+export * from './simulation';
@@ -0,0 +1,785 @@
+import Ajv, { JSONSchemaType } from 'ajv';
+import { BigNumber, ContractTransaction, ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import yaml from 'js-yaml';
+import type { MyDao } from '../typechain-types';
+import { DaoModel, DaoModelError } from './DaoModel';
+import { deployMyDao } from './deploy';
+import { DaoEventData, decodeDaoEvent } from './Indexer';
+import { DecisionRule, GovernanceParams, ProposalState, Vote, VoteChoice } from './types';
+import {
+    DECIMALS,
+    DEFAULT_GOVERNANCE_PARAMS,
+    formatTokens,
+    getProposalHash,
+    getRevertReason,
+    parseTokens,
+    parseVoteChoice,
+    validateGovernanceParams,
+} from './utils';
+
+const BLOCKED_REASON = 'Max number of pending proposals reached';
+
+/**
+ * Governance parameters of a scenario, token amounts are decimal strings.
+ * The initial supply is the sum of the holder balances.
+ */
+export interface ScenarioParams {
+    maxProposals?: number,
+    votingPeriod?: number,
+    thresholdPercent?: number,
+    decisionRule?: keyof typeof DecisionRule,
+    quorumPercent?: number,
+    proposalThreshold?: string,
+    proposalDeposit?: string,
+}
+
+export type ScenarioAction = 'propose' | 'vote' | 'transfer' | 'delegate' | 'finalize' | 'expire' | 'cancel';
+
+/**
+ * Event expected from a step, its `event` name and the fields to compare. Proposals are named by their text,
+ * accounts by their holder name or `MyDao`, amounts are in tokens and other values are decimal strings.
+ */
+export type ExpectedEvent = Record<string, string>;
+
+export interface ExpectedProposal {
+    state?: keyof typeof ProposalState,
+    yes?: string,
+    no?: string,
+}
+
+/**
+ * State checked after a step or at the end of a scenario, proposals are named by their text
+ * and accounts by their holder name or `MyDao`
+ */
+export interface ScenarioExpectations {
+    proposals?: Record<string, ExpectedProposal>,
+    balances?: Record<string, string>,
+    votes?: Record<string, Record<string, VoteChoice>>,
+}
+
+/**
+ * Transaction sent by a holder at a given time
+ */
+export interface ScenarioStep {
+    /**
+     * Seconds since the deployment, strictly increasing as every step is a block
+     */
+    at: number,
+    action: ScenarioAction,
+    /**
+     * Name of the sending holder
+     */
+    holder: string,
+    /**
+     * Proposal text, it names the proposal in later steps. Proposing the same text again,
+     * e.g. after it was blocked, makes later steps refer to the new proposal.
+     */
+    proposal?: string,
+    vote?: VoteChoice,
+    /**
+     * Recipient of a transfer or delegate of a delegation
+     */
+    to?: string,
+    /**
+     * Tokens transferred
+     */
+    amount?: string,
+    /**
+     * Revert reason the step must fail with
+     */
+    reverts?: string,
+    /**
+     * Every event the step must emit, in order
+     */
+    events?: ExpectedEvent[],
+    expect?: ScenarioExpectations,
+}
+
+/**
+ * Holder behaviour replayed by the simulator
+ */
+export interface Scenario {
+    name: string,
+    params?: ScenarioParams,
+    /**
+     * Balance of every holder at deployment by name
+     */
+    holders: Record<string, string>,
+    steps: ScenarioStep[],
+    /**
+     * Seconds since the deployment at which the outcomes are reported, the last step by default
+     */
+    end?: number,
+    /**
+     * State checked at the end
+     */
+    expect?: ScenarioExpectations,
+}
+
+/**
+ * Outcome of a created proposal
+ */
+export interface SimulatedProposal {
+    id: number,
+    proposal: string,
+    creator: string,
+    createdAt: number,
+    /**
+     * State at the end of the scenario as reported by `MyDao.state`
+     */
+    state: ProposalState,
+    yesVotes: string,
+    noVotes: string,
+    /**
+     * Time the proposal was decided or cancelled, the end of its voting period if it was decided without
+     * being finalized, undefined while it is pending
+     */
+    resolvedAt?: number,
+    timeToResolution?: number,
+}
+
+/**
+ * Step which reverted, or was skipped because its proposal was not created
+ */
+export interface FailedStep {
+    step: number,
+    action: ScenarioAction,
+    holder: string,
+    reason: string,
+}
+
+export interface SimulationReport {
+    proposals: SimulatedProposal[],
+    /**
+     * Number of proposals which could not be created because the maximum number was pending
+     */
+    blocked: number,
+    failures: FailedStep[],
+    /**
+     * Expectations of the scenario which were not met
+     */
+    mismatches: string[],
+    end: number,
+}
+
+/**
+ * Governance parameters overriding those of the scenario to analyse their effect
+ */
+export type ParamOverrides = Partial<Omit<GovernanceParams, 'initialSupply'>>;
+
+export class InvalidScenarioError extends Error {
+    constructor(readonly errors: string[]) {
+        super(`Invalid scenario: ${errors.join(', ')}`);
+        this.name = 'InvalidScenarioError';
+    }
+}
+
+/**
+ * Token amount in a scenario, with at most as many decimals as the token
+ */
+const TOKEN_AMOUNT = { type: 'string', pattern: `^[0-9]+(\\.[0-9]{1,${DECIMALS}})?$` } as const;
+
+function requiredFor(action: ScenarioAction, fields: (keyof ScenarioStep)[]) {
+    return { if: { properties: { action: { const: action } } }, then: { required: fields } };
+}
+
+const EXPECTATIONS_SCHEMA: JSONSchemaType<ScenarioExpectations> = {
+    type: 'object',
+    properties: {
+        proposals: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    state: {
+                        type: 'string',
+                        enum: ['Pending', 'Accepted', 'Rejected', 'Expired', 'Executed', 'Queued', 'Cancelled'],
+                        nullable: true,
+                    },
+                    yes: { ...TOKEN_AMOUNT, nullable: true },
+                    no: { ...TOKEN_AMOUNT, nullable: true },
+                },
+                additionalProperties: false,
+            },
+            required: [],
+            nullable: true,
+        },
+        balances: { type: 'object', additionalProperties: TOKEN_AMOUNT, required: [], nullable: true },
+        votes: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                additionalProperties: { type: 'string', enum: ['yes', 'no', 'abstain'] },
+                required: [],
+            },
+            required: [],
+            nullable: true,
+        },
+    },
+    additionalProperties: false,
+};
+
+export const SCENARIO_SCHEMA: JSONSchemaType<Scenario> = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        params: {
+            type: 'object',
+            nullable: true,
+            properties: {
+                maxProposals: { type: 'integer', minimum: 1, maximum: 255, nullable: true },
+                votingPeriod: { type: 'integer', minimum: 1, nullable: true },
+                thresholdPercent: { type: 'integer', minimum: 50, maximum: 99, nullable: true },
+                decisionRule: {
+                    type: 'string',
+                    enum: ['AbsoluteMajority', 'QuorumMajority', 'Supermajority'],
+                    nullable: true,
+                },
+                quorumPercent: { type: 'integer', minimum: 0, maximum: 99, nullable: true },
+                proposalThreshold: { ...TOKEN_AMOUNT, nullable: true },
+                proposalDeposit: { ...TOKEN_AMOUNT, nullable: true },
+            },
+            additionalProperties: false,
+        },
+        holders: {
+            type: 'object',
+            additionalProperties: TOKEN_AMOUNT,
+            required: [],
+            minProperties: 1,
+        },
+        steps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    at: { type: 'integer', minimum: 1 },
+                    action: {
+                        type: 'string',
+                        enum: ['propose', 'vote', 'transfer', 'delegate', 'finalize', 'expire', 'cancel'],
+                    },
+                    holder: { type: 'string' },
+                    proposal: { type: 'string', minLength: 1, nullable: true },
+                    vote: { type: 'string', enum: ['yes', 'no', 'abstain'], nullable: true },
+                    to: { type: 'string', nullable: true },
+                    amount: { ...TOKEN_AMOUNT, nullable: true },
+                    reverts: { type: 'string', nullable: true },
+                    events: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            additionalProperties: { type: 'string' },
+                            required: ['event'],
+                        },
+                        nullable: true,
+                    },
+                    expect: { ...EXPECTATIONS_SCHEMA, nullable: true },
+                },
+                required: ['at', 'action', 'holder'],
+                additionalProperties: false,
+                allOf: [
+                    requiredFor('propose', ['proposal']),
+                    requiredFor('vote', ['proposal', 'vote']),
+                    requiredFor('transfer', ['to', 'amount']),
+                    requiredFor('delegate', ['to']),
+                    requiredFor('finalize', ['proposal']),
+                    requiredFor('expire', ['proposal']),
+                    requiredFor('cancel', ['proposal']),
+                ],
+            },
+        },
+        end: { type: 'integer', minimum: 0, nullable: true },
+        expect: { ...EXPECTATIONS_SCHEMA, nullable: true },
+    },
+    required: ['name', 'holders', 'steps'],
+    additionalProperties: false,
+};
+
+const validate = new Ajv({ allErrors: true }).compile(SCENARIO_SCHEMA);
+
+/**
+ * Check that the value is a scenario matching the schema whose steps name known holders and proposals
+ * @param scenario Value to check
+ */
+export function validateScenario(scenario: unknown): asserts scenario is Scenario {
+    if (!validate(scenario)) {
+        const errors = (validate.errors ?? []).map((e) => `${e.instancePath || '/'} ${e.message}`);
+        throw new InvalidScenarioError(errors);
+    }
+
+    const errors: string[] = [];
+    const proposals = new Set<string>();
+    // Inherited keys such as `toString` are not holders
+    const isHolder = (name: string) => Object.prototype.hasOwnProperty.call(scenario.holders, name);
+    const checkExpectations = (expectations: ScenarioExpectations | undefined, where: string) => {
+        const votes = Object.entries(expectations?.votes ?? {});
+        const voters = votes.flatMap(([, byVoter]) => Object.keys(byVoter));
+        const names = new Set([...Object.keys(expectations?.balances ?? {}), ...voters]);
+        for (const name of names) {
+            if (name !== 'MyDao' && !isHolder(name)) {
+                errors.push(`${where} names unknown holder ${name}`);
+            }
+        }
+        for (const text of new Set([...Object.keys(expectations?.proposals ?? {}), ...votes.map(([text]) => text)])) {
+            if (!proposals.has(text)) {
+                errors.push(`${where} names proposal "${text}" before it is proposed`);
+            }
+        }
+    };
+    let previous = 0;
+    for (const [i, step] of scenario.steps.entries()) {
+        if (step.at <= previous) {
+            errors.push(`/steps/${i} is not after the previous step`);
+        }
+        previous = step.at;
+        for (const holder of [step.holder, step.to]) {
+            if (holder !== undefined && !isHolder(holder)) {
+                errors.push(`/steps/${i} names unknown holder ${holder}`);
+            }
+        }
+        if (step.action === 'propose') {
+            proposals.add(step.proposal!);
+        } else if (step.proposal !== undefined && !proposals.has(step.proposal)) {
+            errors.push(`/steps/${i} names proposal "${step.proposal}" before it is proposed`);
+        }
+        checkExpectations(step.expect, `/steps/${i}/expect`);
+    }
+    if (scenario.end !== undefined && scenario.end < previous) {
+        errors.push('/end is before the last step');
+    }
+    checkExpectations(scenario.expect, '/expect');
+    if (Object.values(scenario.holders).every((balance) => parseTokens(balance).isZero())) {
+        errors.push('/holders have no tokens');
+    }
+
+    if (errors.length > 0) {
+        throw new InvalidScenarioError(errors);
+    }
+}
+
+/**
+ * Read and validate the scenarios of a YAML or JSON file, a YAML file can hold several documents separated by `---`
+ */
+export async function loadScenarios(file: string): Promise<Scenario[]> {
+    const documents = yaml.loadAll(await fs.readFile(file, 'utf8'));
+    return documents.map((scenario, i) => {
+        try {
+            validateScenario(scenario);
+            return scenario;
+        } catch (e) {
+            if (documents.length > 1 && e instanceof InvalidScenarioError) {
+                throw new InvalidScenarioError(e.errors.map((error) => `document ${i}: ${error}`));
+            }
+            throw e;
+        }
+    });
+}
+
+/**
+ * Read and validate a file holding a single scenario
+ */
+export async function loadScenario(file: string): Promise<Scenario> {
+    const scenarios = await loadScenarios(file);
+    if (scenarios.length !== 1) {
+        throw new Error(`${file} holds ${scenarios.length} scenarios, expected one`);
+    }
+    return scenarios[0];
+}
+
+/**
+ * Governance parameters of a scenario: the defaults, then the scenario parameters, then the overrides.
+ * The result is checked like the contract constructor does, e.g. the quorum must not exceed the threshold.
+ */
+export function getScenarioParams(scenario: Scenario, overrides: ParamOverrides = {}): GovernanceParams {
+    const { decisionRule, proposalThreshold, proposalDeposit, ...params } = scenario.params ?? {};
+    const governanceParams: GovernanceParams = {
+        ...DEFAULT_GOVERNANCE_PARAMS,
+        ...params,
+        ...(decisionRule === undefined ? {} : { decisionRule: DecisionRule[decisionRule] }),
+        ...(proposalThreshold === undefined ? {} : { proposalThreshold: parseTokens(proposalThreshold) }),
+        ...(proposalDeposit === undefined ? {} : { proposalDeposit: parseTokens(proposalDeposit) }),
+        ...overrides,
+        initialSupply: Object.values(scenario.holders)
+            .reduce((total, balance) => total.add(parseTokens(balance)), BigNumber.from(0)),
+    };
+    validateGovernanceParams(governanceParams);
+    return governanceParams;
+}
+
+/**
+ * Either side of a simulation, the steps run at absolute timestamps
+ */
+interface ScenarioBackend {
+    /**
+     * Timestamp of the deployment, step times are relative to it
+     */
+    start: number,
+    /**
+     * Send the step transaction
+     * @return Emitted events, or the revert reason
+     */
+    run(step: ScenarioStep, proposalId: number | undefined, timestamp: number): Promise<DaoEventData[] | string>,
+    getProposal(proposalId: number, timestamp: number): Promise<{
+        state: ProposalState,
+        yesVotes: BigNumber,
+        noVotes: BigNumber,
+        ttl: number,
+    }>,
+    /**
+     * Address of a holder, or of the contract for `MyDao`
+     */
+    getAddress(name: string): string,
+    balanceOf(account: string): Promise<BigNumber>,
+    getVote(proposalId: number, voter: string): Promise<Vote>,
+}
+
+const RESOLUTION_EVENTS = ['ProposalAccepted', 'ProposalRejected', 'ProposalExpired', 'ProposalCancelled'];
+
+function normalizeTokens(amount: string): string {
+    return formatTokens(parseTokens(amount));
+}
+
+/**
+ * Event with proposals, accounts and amounts named as in the scenario
+ */
+function describeEvent(
+    event: DaoEventData,
+    ids: Map<string, number>,
+    getName: (address: string) => string,
+): ExpectedEvent {
+    const described: ExpectedEvent = {};
+    for (const [key, value] of Object.entries(event)) {
+        if (key === 'name') {
+            described.event = value;
+        } else if (key === 'proposalId') {
+            described.proposal = [...ids].find(([, id]) => id === value)?.[0] ?? `#${value}`;
+        } else if (key === 'vote') {
+            described.vote = Vote[value].toLowerCase();
+        } else if (key === 'value') {
+            described.amount = formatTokens(value);
+        } else if (typeof value === 'string' && ethers.utils.isAddress(value)) {
+            described[key] = getName(value);
+        } else if (key !== 'proposalHash') {
+            described[key] = value.toString();
+        }
+    }
+    return described;
+}
+
+/**
+ * Differences between the events of a step and the expected ones
+ */
+function checkEvents(where: string, events: ExpectedEvent[], expected: ExpectedEvent[]): string[] {
+    const names = events.map(({ event }) => event);
+    const expectedNames = expected.map(({ event }) => event);
+    if (names.join() !== expectedNames.join()) {
+        return [`${where} emitted [${names.join(', ')}], expected [${expectedNames.join(', ')}]`];
+    }
+
+    const mismatches: string[] = [];
+    for (const [i, fields] of expected.entries()) {
+        for (const [key, value] of Object.entries(fields)) {
+            const actual = events[i][key];
+            if (actual !== (key === 'amount' ? normalizeTokens(value) : value)) {
+                mismatches.push(`${where}: ${key} of ${fields.event} is ${actual}, expected ${value}`);
+            }
+        }
+    }
+    return mismatches;
+}
+
+/**
+ * Differences between the state after a step, or at the end, and the expected one
+ */
+async function checkExpectations(
+    where: string,
+    expectations: ScenarioExpectations,
+    ids: Map<string, number>,
+    backend: ScenarioBackend,
+    timestamp: number,
+): Promise<string[]> {
+    const mismatches: string[] = [];
+    const compare = (what: string, actual: string, expected: string) => {
+        if (actual !== expected) {
+            mismatches.push(`${where}: ${what} is ${actual}, expected ${expected}`);
+        }
+    };
+
+    for (const [text, expected] of Object.entries(expectations.proposals ?? {})) {
+        const id = ids.get(text);
+        if (id === undefined) {
+            mismatches.push(`${where}: proposal "${text}" was not created`);
+            continue;
+        }
+        const { state, yesVotes, noVotes } = await backend.getProposal(id, timestamp);
+        if (expected.state !== undefined) {
+            compare(`state of "${text}"`, ProposalState[state], expected.state);
+        }
+        if (expected.yes !== undefined) {
+            compare(`YES votes of "${text}"`, formatTokens(yesVotes), normalizeTokens(expected.yes));
+        }
+        if (expected.no !== undefined) {
+            compare(`NO votes of "${text}"`, formatTokens(noVotes), normalizeTokens(expected.no));
+        }
+    }
+    for (const [name, expected] of Object.entries(expectations.balances ?? {})) {
+        const balance = await backend.balanceOf(backend.getAddress(name));
+        compare(`balance of ${name}`, formatTokens(balance), normalizeTokens(expected));
+    }
+    for (const [text, votes] of Object.entries(expectations.votes ?? {})) {
+        const id = ids.get(text);
+        if (id === undefined) {
+            mismatches.push(`${where}: proposal "${text}" was not created`);
+            continue;
+        }
+        for (const [name, expected] of Object.entries(votes)) {
+            const vote = await backend.getVote(id, backend.getAddress(name));
+            compare(`vote of ${name} for "${text}"`, Vote[vote].toLowerCase(), expected);
+        }
+    }
+    return mismatches;
+}
+
+async function runScenario(scenario: Scenario, backend: ScenarioBackend): Promise<SimulationReport> {
+    const ids = new Map<string, number>();
+    const proposals: SimulatedProposal[] = [];
+    const failures: FailedStep[] = [];
+    const mismatches: string[] = [];
+    let blocked = 0;
+
+    const names = new Map(['MyDao', ...Object.keys(scenario.holders)].map((name) => [backend.getAddress(name), name]));
+    const getName = (address: string) => names.get(address) ?? address;
+
+    for (const [i, step] of scenario.steps.entries()) {
+        const where = `step ${i} (${step.action} by ${step.holder})`;
+        const proposalId = step.proposal === undefined ? undefined : ids.get(step.proposal);
+        const result = step.action !== 'propose' && step.proposal !== undefined && proposalId === undefined
+            ? `Proposal "${step.proposal}" was not created`
+            : await backend.run(step, proposalId, backend.start + step.at);
+
+        if (typeof result === 'string') {
+            failures.push({ step: i, action: step.action, holder: step.holder, reason: result });
+            blocked += step.action === 'propose' && result === BLOCKED_REASON ? 1 : 0;
+            if (step.reverts !== result && (step.reverts !== undefined || step.events !== undefined)) {
+                const expected = step.reverts === undefined ? 'events' : `"${step.reverts}"`;
+                mismatches.push(`${where} reverted with "${result}", expected ${expected}`);
+            }
+        } else {
+            for (const event of result) {
+                if (event.name === 'ProposalCreated') {
+                    ids.set(step.proposal!, event.proposalId);
+                    proposals.push({
+                        id: event.proposalId,
+                        proposal: step.proposal!,
+                        creator: step.holder,
+                        createdAt: step.at,
+                        state: ProposalState.Pending,
+                        yesVotes: '0.0',
+                        noVotes: '0.0',
+                    });
+                } else if (RESOLUTION_EVENTS.includes(event.name)) {
+                    proposals[(event as { proposalId: number }).proposalId].resolvedAt = step.at;
+                }
+            }
+            if (step.reverts !== undefined) {
+                mismatches.push(`${where} succeeded, expected it to revert with "${step.reverts}"`);
+            }
+            if (step.events !== undefined) {
+                const events = result.map((event) => describeEvent(event, ids, getName));
+                mismatches.push(...checkEvents(where, events, step.events));
+            }
+        }
+
+        if (step.expect !== undefined) {
+            mismatches.push(...await checkExpectations(where, step.expect, ids, backend, backend.start + step.at));
+        }
+    }
+
+    const end = scenario.end ?? scenario.steps[scenario.steps.length - 1]?.at ?? 0;
+    if (scenario.expect !== undefined) {
+        mismatches.push(...await checkExpectations('end', scenario.expect, ids, backend, backend.start + end));
+    }
+    for (const proposal of proposals) {
+        const { state, yesVotes, noVotes, ttl } = await backend.getProposal(proposal.id, backend.start + end);
+        proposal.state = state;
+        proposal.yesVotes = formatTokens(yesVotes);
+        proposal.noVotes = formatTokens(noVotes);
+        if (proposal.resolvedAt === undefined && state !== ProposalState.Pending) {
+            proposal.resolvedAt = ttl - backend.start;
+        }
+        if (proposal.resolvedAt !== undefined) {
+            proposal.timeToResolution = proposal.resolvedAt - proposal.createdAt;
+        }
+    }
+
+    return { proposals, blocked, failures, mismatches, end };
+}
+
+/**
+ * Address standing for a holder in the model
+ */
+function getModelAddress(name: string): string {
+    return ethers.utils.getAddress(ethers.utils.hexDataSlice(ethers.utils.id(name), 12));
+}
+
+/**
+ * Replay a scenario through `DaoModel`, which follows the contract rules without a chain
+ * @param scenario Validated scenario
+ * @param overrides Governance parameters replacing those of the scenario
+ */
+export async function simulateScenario(scenario: Scenario, overrides: ParamOverrides = {}): Promise<SimulationReport> {
+    const model = new DaoModel(getScenarioParams(scenario, overrides), getModelAddress('MyDao'));
+    for (const [name, balance] of Object.entries(scenario.holders)) {
+        model.mint(getModelAddress(name), parseTokens(balance));
+    }
+
+    return runScenario(scenario, {
+        start: 0,
+        async run(step, proposalId, timestamp) {
+            const holder = getModelAddress(step.holder);
+            try {
+                switch (step.action) {
+                case 'propose':
+                    return model.createProposal(holder, getProposalHash(step.proposal!), timestamp);
+                case 'vote':
+                    return model.vote(holder, proposalId!, parseVoteChoice(step.vote!), timestamp);
+                case 'transfer':
+                    return model.transfer(holder, getModelAddress(step.to!), parseTokens(step.amount!), timestamp);
+                case 'delegate':
+                    return model.delegate(holder, getModelAddress(step.to!), timestamp);
+                case 'finalize':
+                    return model.finalize(proposalId!, timestamp);
+                case 'expire':
+                    return model.expire(proposalId!, timestamp);
+                case 'cancel':
+                    return model.cancel(holder, proposalId!, timestamp);
+                }
+            } catch (e) {
+                if (!(e instanceof DaoModelError) || e.panic) {
+                    throw e;
+                }
+                return e.reason;
+            }
+        },
+        async getProposal(proposalId, timestamp) {
+            const proposal = model.proposals[proposalId];
+            return { ...proposal, state: model.getState(proposalId, timestamp) };
+        },
+        getAddress: getModelAddress,
+        async balanceOf(account) {
+            return model.balanceOf(account);
+        },
+        async getVote(proposalId, voter) {
+            return model.getVote(proposalId, voter);
+        },
+    });
+}
+
+/**
+ * Run a scenario against a fresh MyDao deployment on a Hardhat network, moving its clock to the step times.
+ * The holders are the signers after the first one, which deploys the contract.
+ * @param hre Hardhat runtime environment
+ * @param scenario Validated scenario
+ * @param overrides Governance parameters replacing those of the scenario
+ */
+export async function runScenarioOnChain(
+    hre: HardhatRuntimeEnvironment,
+    scenario: Scenario,
+    overrides: ParamOverrides = {},
+): Promise<SimulationReport> {
+    const [deployer, ...accounts] = await hre.ethers.getSigners();
+    const names = Object.keys(scenario.holders);
+    if (names.length > accounts.length) {
+        throw new Error(`Scenario has ${names.length} holders but only ${accounts.length} accounts are available`);
+    }
+    const signers = new Map(names.map((name, i) => [name, accounts[i]]));
+
+    const myDao = await deployMyDao(hre, getScenarioParams(scenario, overrides), deployer, {
+        allocations: names.map((name) => ({
+            account: signers.get(name)!.address,
+            amount: parseTokens(scenario.holders[name]),
+        })),
+    });
+    const { timestamp: start } = await hre.ethers.provider.getBlock(myDao.deployTransaction.blockNumber!);
+
+    const send = (dao: MyDao, step: ScenarioStep, proposalId: number | undefined): Promise<ContractTransaction> => {
+        switch (step.action) {
+        case 'propose':
+            return dao.createProposal(getProposalHash(step.proposal!));
+        case 'vote':
+            return dao.vote(proposalId!, parseVoteChoice(step.vote!));
+        case 'transfer':
+            return dao.transfer(signers.get(step.to!)!.address, parseTokens(step.amount!));
+        case 'delegate':
+            return dao.delegate(signers.get(step.to!)!.address);
+        case 'finalize':
+            return dao.finalize(proposalId!);
+        case 'expire':
+            return dao.expire(proposalId!);
+        case 'cancel':
+            return dao.cancel(proposalId!);
+        }
+    };
+
+    return runScenario(scenario, {
+        start,
+        async run(step, proposalId, timestamp) {
+            await hre.network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+            try {
+                const receipt = await (await send(myDao.connect(signers.get(step.holder)!), step, proposalId)).wait();
+                return receipt.logs
+                    .map((log) => decodeDaoEvent(myDao, log))
+                    .filter((event): event is DaoEventData => event !== undefined);
+            } catch (e) {
+                const reason = getRevertReason(e);
+                if (reason === undefined) {
+                    throw e;
+                }
+                return reason;
+            }
+        },
+        async getProposal(proposalId, timestamp) {
+            if ((await hre.ethers.provider.getBlock('latest')).timestamp < timestamp) {
+                await hre.network.provider.send('evm_mine', [timestamp]);
+            }
+            const { yesVotes, noVotes, ttl } = await myDao.proposals(proposalId);
+            return { state: await myDao.state(proposalId), yesVotes, noVotes, ttl: ttl.toNumber() };
+        },
+        getAddress(name) {
+            return name === 'MyDao' ? myDao.address : signers.get(name)!.address;
+        },
+        balanceOf(account) {
+            return myDao.balanceOf(account);
+        },
+        getVote(proposalId, voter) {
+            return myDao.getVote(proposalId, voter);
+        },
+    });
+}
+
+/**
+ * Differences between two reports of the same scenario, e.g. of the model and of the chain
+ * @return Descriptions of the differences, empty if the reports agree
+ */
+export function compareSimulationReports(expected: SimulationReport, actual: SimulationReport): string[] {
+    const differences: string[] = [];
+    const compare = (what: string, a: unknown, b: unknown) => {
+        if (JSON.stringify(a) !== JSON.stringify(b)) {
+            differences.push(`${what} is ${JSON.stringify(b)}, expected ${JSON.stringify(a)}`);
+        }
+    };
+
+    compare('number of proposals', expected.proposals.length, actual.proposals.length);
+    for (const [i, proposal] of expected.proposals.slice(0, actual.proposals.length).entries()) {
+        const other = actual.proposals[i];
+        const keys = new Set([...Object.keys(proposal), ...Object.keys(other)]) as Set<keyof SimulatedProposal>;
+        for (const key of keys) {
+            compare(`${key} of proposal #${i}`, proposal[key], other[key]);
+        }
+    }
+    compare('blocked proposals', expected.blocked, actual.blocked);
+    compare('failed steps', expected.failures, actual.failures);
+    compare('unmet expectations', expected.mismatches, actual.mismatches);
+    return differences;
+}
@@ -0,0 +1,116 @@
+import { BigNumber } from 'ethers';
+
+/**
+ * Vote options, in the same order as `MyDao.Vote`
+ */
+export enum Vote { Abstain, Yes, No }
+
+/**
+ * Proposal states, in the same order as `MyDao.ProposalState`
+ */
+export enum ProposalState { Pending, Accepted, Rejected, Expired, Executed, Queued, Cancelled }
+
+/**
+ * Rules deciding a proposal after its voting period, in the same order as `MyDao.DecisionRule`
+ */
+export enum DecisionRule { AbsoluteMajority, QuorumMajority, Supermajority }
+
+/**
+ * Human readable vote option accepted by the client
+ */
+export type VoteChoice = 'yes' | 'no' | 'abstain';
+
+/**
+ * Constructor parameters of `MyDao`
+ */
+export interface GovernanceParams {
+    maxProposals: number,
+    votingPeriod: number,
+    initialSupply: BigNumber,
+    thresholdPercent: number,
+    decisionRule: DecisionRule,
+    quorumPercent: number,
+    /**
+     * Seconds between acceptance and execution of executable proposals, zero to execute them at once
+     */
+    timelockDelay: number,
+    /**
+     * Account which can cancel queued proposals, zero address for none
+     */
+    guardian: string,
+    /**
+     * Voting power needed to create a proposal
+     */
+    proposalThreshold: BigNumber,
+    /**
+     * Tokens paid for a proposal, returned when it is accepted or rejected and kept by the DAO otherwise
+     */
+    proposalDeposit: BigNumber,
+}
+
+/**
+ * Tokens given to an account
+ */
+export interface TokenAllocation {
+    account: string,
+    amount: BigNumber,
+}
+
+/**
+ * Initial distribution of the supply passed to the `MyDao` constructor, allocations and claim supply
+ * must add up to the initial supply. Without allocations and claim root the deployer gets the whole supply.
+ */
+export interface Genesis {
+    /**
+     * Balances minted at deployment
+     */
+    allocations: TokenAllocation[],
+    /**
+     * Root of the `ClaimTree` of balances claimable from the DAO, zero for none
+     */
+    claimRoot: string,
+    /**
+     * Tokens held by the DAO until they are claimed
+     */
+    claimSupply: BigNumber,
+}
+
+/**
+ * Decoded `MyDao.proposals(id)` entry
+ */
+export interface Proposal {
+    id: number,
+    proposalHash: string,
+    ttl: number,
+    yesVotes: BigNumber,
+    noVotes: BigNumber,
+    /**
+     * Current state from `MyDao.state`, a proposal whose voting period is over is reported as decided
+     * even before it is finalized
+     */
+    state: ProposalState,
+    /**
+     * Hash of the actions performed by `execute`, zero for proposals without actions
+     */
+    actionsHash: string,
+    /**
+     * Earliest execution time of a queued proposal, zero for proposals which were not queued
+     */
+    eta: number,
+    /**
+     * Block whose final balances weight the votes, the one before the proposal was created or last amended
+     */
+    snapshot: number,
+    /**
+     * Account which created the proposal, it can cancel or amend it while it is pending
+     */
+    proposer: string,
+    /**
+     * Number of times the proposal was amended, each amendment resets the votes
+     */
+    amendments: number,
+    /**
+     * Deposit paid by the creator, returned when the proposal is decided and forfeited when it expires
+     */
+    deposit: BigNumber,
+}
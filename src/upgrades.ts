@@ -0,0 +1,204 @@
+import { Signer } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { MyDaoUpgradeable } from '../typechain-types';
+import { MyDaoClient } from './MyDaoClient';
+import { ProposalAction } from './ProposalDocument';
+import { createCallAction } from './ProposalActions';
+import { Genesis, GovernanceParams } from './types';
+import {
+    DEFAULT_GOVERNANCE_PARAMS,
+    EMPTY_GENESIS,
+    InvalidGovernanceParamsError,
+    validateGovernanceParams,
+} from './utils';
+
+/**
+ * State variable or struct member in the `storageLayout` compiler output
+ */
+export interface StorageVariable {
+    label: string,
+    slot: string,
+    offset: number,
+    type: string,
+}
+
+/**
+ * Type in the `storageLayout` compiler output, type IDs contain AST IDs which differ between compilations
+ */
+export interface StorageType {
+    label: string,
+    encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes',
+    numberOfBytes: string,
+    members?: StorageVariable[],
+    key?: string,
+    value?: string,
+    base?: string,
+}
+
+export interface StorageLayout {
+    storage: StorageVariable[],
+    types: Record<string, StorageType> | null,
+}
+
+export class StorageLayoutError extends Error {
+    constructor(readonly from: string, readonly to: string, readonly errors: string[]) {
+        super(`Storage layout of ${to} is incompatible with ${from}: ${errors.join(', ')}`);
+        this.name = 'StorageLayoutError';
+    }
+}
+
+/**
+ * Read the storage layout of a compiled contract, it must be selected in the compiler output
+ * @param hre Hardhat runtime environment
+ * @param contractName Name of the contract
+ */
+export async function getStorageLayout(hre: HardhatRuntimeEnvironment, contractName: string): Promise<StorageLayout> {
+    const { sourceName, contractName: name } = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${name}`);
+    const output = buildInfo?.output.contracts[sourceName][name] as { storageLayout?: StorageLayout } | undefined;
+    if (output?.storageLayout === undefined) {
+        throw new Error(`No storage layout for ${contractName}, select storageLayout in the compiler output`);
+    }
+    return output.storageLayout;
+}
+
+function compareVariables(
+    previous: StorageLayout,
+    variable: StorageVariable,
+    next: StorageLayout,
+    updated: StorageVariable | undefined,
+): string | undefined {
+    if (updated === undefined) {
+        return `${variable.label} is removed`;
+    }
+    if (updated.label !== variable.label) {
+        return `${variable.label} is replaced by ${updated.label}`;
+    }
+    if (updated.slot !== variable.slot || updated.offset !== variable.offset) {
+        return `${variable.label} moves from slot ${variable.slot} offset ${variable.offset} `
+            + `to slot ${updated.slot} offset ${updated.offset}`;
+    }
+    const error = compareTypes(previous, variable.type, next, updated.type, false);
+    return error === undefined ? undefined : `${variable.label}: ${error}`;
+}
+
+/**
+ * @param growable Whether the type may take more slots, true for mapping values which do not share their slots
+ */
+function compareTypes(
+    previous: StorageLayout,
+    beforeId: string,
+    next: StorageLayout,
+    afterId: string,
+    growable: boolean,
+): string | undefined {
+    const before = previous.types![beforeId];
+    const after = next.types![afterId];
+
+    if (before.encoding !== after.encoding || before.label !== after.label) {
+        return `${before.label} changes to ${after.label}`;
+    }
+    if (before.encoding === 'mapping') {
+        return compareTypes(previous, before.key!, next, after.key!, false)
+            ?? compareTypes(previous, before.value!, next, after.value!, true);
+    }
+    if (before.base !== undefined) {
+        const error = compareTypes(previous, before.base, next, after.base!, false);
+        if (error !== undefined) {
+            return error;
+        }
+    }
+    for (const [i, member] of (before.members ?? []).entries()) {
+        const error = compareVariables(previous, member, next, after.members![i]);
+        if (error !== undefined) {
+            return `${before.label}.${error}`;
+        }
+    }
+    if (before.numberOfBytes !== after.numberOfBytes
+        && !(growable && Number(after.numberOfBytes) > Number(before.numberOfBytes))) {
+        return `${before.label} changes size from ${before.numberOfBytes} to ${after.numberOfBytes} bytes`;
+    }
+    return undefined;
+}
+
+/**
+ * Check that a new version can use the storage of the previous one: every previous variable keeps its
+ * name, slot and type, new variables are only appended. Structs can gain members only as mapping values,
+ * structs stored in arrays or directly in a slot would overlap the following data.
+ * @param previous Layout of the deployed version
+ * @param next Layout of the new version
+ * @return Incompatibilities, empty if the upgrade is safe
+ */
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): string[] {
+    return previous.storage
+        .map((variable, i) => compareVariables(previous, variable, next, next.storage[i]))
+        .filter((error): error is string => error !== undefined);
+}
+
+/**
+ * Deploy MyDaoUpgradeable behind an ERC1967 proxy initialized with the genesis distribution
+ * @param hre Hardhat runtime environment
+ * @param params Governance parameters overriding the defaults, held by the implementation
+ * @param signer Deployer, the first account by default
+ * @param genesis Initial distribution of the supply
+ * @return Implementation attached to the proxy
+ */
+export async function deployUpgradeableMyDao(
+    hre: HardhatRuntimeEnvironment,
+    params: Partial<GovernanceParams> = {},
+    signer?: Signer,
+    genesis: Partial<Genesis> = {},
+): Promise<MyDaoUpgradeable> {
+    const MyDaoUpgradeable = await hre.ethers.getContractFactory('MyDaoUpgradeable', signer);
+    const implementation = await MyDaoUpgradeable.deploy({ ...DEFAULT_GOVERNANCE_PARAMS, ...params });
+    await implementation.deployed();
+
+    const ERC1967Proxy = await hre.ethers.getContractFactory('ERC1967Proxy', signer);
+    const data = implementation.interface.encodeFunctionData('initialize', [{ ...EMPTY_GENESIS, ...genesis }]);
+    const proxy = await (await ERC1967Proxy.deploy(implementation.address, data)).deployed();
+    return implementation.attach(proxy.address);
+}
+
+/**
+ * Deploy a new implementation after checking its storage layout against the current one
+ * @param hre Hardhat runtime environment
+ * @param myDao Proxy to upgrade
+ * @param options Names of the current and new implementation contracts and governance parameters
+ * overriding the current ones, the supply is already minted so its initial amount cannot change
+ * @param signer Deployer, the first account by default
+ * @return Address of the new implementation and the action upgrading to it, to be proposed
+ * @throws StorageLayoutError if the layouts are incompatible
+ * @throws InvalidGovernanceParamsError if the constructor would reject the parameters
+ * or the pending proposals would exceed the maximum
+ */
+export async function prepareUpgrade(
+    hre: HardhatRuntimeEnvironment,
+    myDao: MyDaoUpgradeable,
+    options: { from?: string, to: string, params?: Partial<Omit<GovernanceParams, 'initialSupply'>> },
+    signer?: Signer,
+): Promise<{ implementation: string, action: ProposalAction }> {
+    const from = options.from ?? 'MyDaoUpgradeable';
+    const errors = compareStorageLayouts(await getStorageLayout(hre, from), await getStorageLayout(hre, options.to));
+    if (errors.length > 0) {
+        throw new StorageLayoutError(from, options.to, errors);
+    }
+
+    const params = { ...await new MyDaoClient(myDao).getGovernanceParams(), ...options.params };
+    validateGovernanceParams(params);
+    const pending = (await myDao.activeProposalsCount()).toNumber();
+    if (params.maxProposals < pending) {
+        throw new InvalidGovernanceParamsError([`Max proposals is below the ${pending} pending proposals`]);
+    }
+    const Implementation = await hre.ethers.getContractFactory(options.to, signer);
+    const implementation = await (await Implementation.deploy(params)).deployed();
+    return { implementation: implementation.address, action: createUpgradeAction(myDao, implementation.address) };
+}
+
+/**
+ * Action upgrading the proxy, only the DAO itself can call `upgradeTo`
+ * @param myDao Proxy to upgrade
+ * @param implementation Address of the new implementation
+ */
+export function createUpgradeAction(myDao: MyDaoUpgradeable, implementation: string): ProposalAction {
+    return createCallAction(myDao, 'upgradeTo', [implementation]);
+}
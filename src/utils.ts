@@ -0,0 +1,126 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+import { DecisionRule, Genesis, GovernanceParams, Vote, VoteChoice } from './types';
+
+export const DECIMALS = 6;
+
+const DAY = 24 * 60 * 60;
+
+const VOTE_CHOICES: Record<VoteChoice, Vote> = {
+    yes: Vote.Yes,
+    no: Vote.No,
+    abstain: Vote.Abstain,
+};
+
+/**
+ * Convert an amount of MDA tokens to the smallest units
+ * @param amount Amount of tokens, e.g. `'2.5'`
+ */
+export function parseTokens(amount: string | number): BigNumber {
+    return ethers.utils.parseUnits(amount.toString(), DECIMALS);
+}
+
+/**
+ * Parameters of the original DAO: 3 proposals at a time, voted for 3 days,
+ * 100 tokens and accepted or rejected by more than half of them, otherwise expired
+ */
+export const DEFAULT_GOVERNANCE_PARAMS: GovernanceParams = {
+    maxProposals: 3,
+    votingPeriod: 3 * DAY,
+    initialSupply: parseTokens(100),
+    thresholdPercent: 50,
+    decisionRule: DecisionRule.AbsoluteMajority,
+    quorumPercent: 0,
+    timelockDelay: 0,
+    guardian: ethers.constants.AddressZero,
+    proposalThreshold: BigNumber.from(0),
+    proposalDeposit: BigNumber.from(0),
+};
+
+export class InvalidGovernanceParamsError extends Error {
+    constructor(readonly errors: string[]) {
+        super(`Invalid governance parameters: ${errors.join(', ')}`);
+        this.name = 'InvalidGovernanceParamsError';
+    }
+}
+
+/**
+ * Check governance parameters like the MyDao constructor does, the errors are its revert reasons
+ * @param params Governance parameters
+ */
+export function validateGovernanceParams(params: GovernanceParams): void {
+    const errors: string[] = [];
+    if (params.maxProposals <= 0) {
+        errors.push('Max proposals must be positive');
+    }
+    if (params.votingPeriod <= 0) {
+        errors.push('Voting period must be positive');
+    }
+    if (params.initialSupply.lte(0)) {
+        errors.push('Initial supply must be positive');
+    }
+    if (params.thresholdPercent < 50 || params.thresholdPercent >= 100) {
+        errors.push('Threshold must be in [50, 100)');
+    }
+    if (params.quorumPercent > params.thresholdPercent) {
+        errors.push('Quorum must not exceed threshold');
+    }
+    if (params.proposalThreshold.gt(params.initialSupply)) {
+        errors.push('Proposal threshold exceeds initial supply');
+    }
+    if (params.proposalDeposit.gt(params.initialSupply)) {
+        errors.push('Proposal deposit exceeds initial supply');
+    }
+
+    if (errors.length > 0) {
+        throw new InvalidGovernanceParamsError(errors);
+    }
+}
+
+/**
+ * Genesis giving the whole initial supply to the deployer
+ */
+export const EMPTY_GENESIS: Genesis = {
+    allocations: [],
+    claimRoot: ethers.constants.HashZero,
+    claimSupply: BigNumber.from(0),
+};
+
+/**
+ * Hash of the proposal text, as passed to `createProposal`
+ * @param proposal Proposal text
+ * @return bytes32 hash of the proposal
+ */
+export function getProposalHash(proposal: string): string {
+    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(proposal));
+}
+
+/**
+ * Convert an amount of the smallest units to MDA tokens
+ * @param amount Amount of the smallest units
+ */
+export function formatTokens(amount: BigNumberish): string {
+    return ethers.utils.formatUnits(amount, DECIMALS);
+}
+
+/**
+ * Reason string of a reverted transaction or call
+ * @param error Error thrown by ethers or the Hardhat network
+ * @return The reason, or `undefined` if the error is not a revert with a reason string, e.g. a panic
+ */
+export function getRevertReason(error: unknown): string | undefined {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.match(/reverted with reason string '(.*)'/)?.[1];
+}
+
+/**
+ * Convert a human readable vote option to `Vote`
+ * @param choice Vote option
+ */
+export function parseVoteChoice(choice: string): Vote {
+    const key = choice.toLowerCase();
+    // Inherited keys such as `constructor` are not vote choices
+    if (!Object.prototype.hasOwnProperty.call(VOTE_CHOICES, key)) {
+        throw new Error(`Unknown vote choice: ${choice}`);
+    }
+    return VOTE_CHOICES[key as VoteChoice];
+}
@@ -0,0 +1,276 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+    compareSimulationReports,
+    DiscussionEntry,
+    formatDiscussion,
+    formatProposal,
+    formatSimulationReport,
+    formatState,
+    formatTokens,
+    formatTtl,
+    formatVote,
+    FileSystemProposalBackend,
+    Indexer,
+    loadScenarios,
+    MyDaoClient,
+    ParamOverrides,
+    parseVoteChoice,
+    ProposalStore,
+    runScenarioOnChain,
+    simulateScenario,
+    SimulationReport,
+} from '../src';
+
+interface DaoArgs {
+    dao: string,
+    from?: string,
+    store?: string,
+}
+
+/**
+ * Client for the MyDao contract at `--dao`, sending transactions from `--from` or the first account
+ * and keeping proposal texts in the `--store` directory
+ */
+async function getClient(hre: HardhatRuntimeEnvironment, { dao, from, store }: DaoArgs): Promise<MyDaoClient> {
+    const signer = from === undefined
+        ? (await hre.ethers.getSigners())[0]
+        : await hre.ethers.getSigner(from);
+    const proposalStore = store === undefined
+        ? undefined
+        : new ProposalStore(new FileSystemProposalBackend(store));
+    return new MyDaoClient(await hre.ethers.getContractAt('MyDao', dao, signer), proposalStore);
+}
+
+/**
+ * Texts of the discussion comments which are in the store
+ */
+async function getCommentTexts(
+    store: ProposalStore | undefined,
+    entries: DiscussionEntry[],
+): Promise<Map<string, string>> {
+    const texts = new Map<string, string>();
+    const collect = async (entry: DiscussionEntry) => {
+        const text = entry.commentHash === undefined ? undefined : await store?.get(entry.commentHash);
+        if (text !== undefined) {
+            texts.set(entry.commentHash!, text);
+        }
+        for (const reply of entry.replies) {
+            await collect(reply);
+        }
+    };
+    for (const entry of entries) {
+        await collect(entry);
+    }
+    return texts;
+}
+
+async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+    return (await hre.ethers.provider.getBlock('latest')).timestamp;
+}
+
+function daoTask(name: string, description: string) {
+    return task(name, description)
+        .addParam('dao', 'Address of the MyDao contract', undefined, types.string)
+        .addOptionalParam('from', 'Account sending the transaction', undefined, types.string)
+        .addOptionalParam('store', 'Directory with off-chain proposal texts', undefined, types.string);
+}
+
+daoTask('dao:propose', 'Create a proposal')
+    .addParam('text', 'Proposal text', undefined, types.string)
+    .setAction(async (args: DaoArgs & { text: string }, hre) => {
+        const client = await getClient(hre, args);
+        const { id, proposalHash } = await client.createProposal(args.text);
+        const { proposalDeposit } = await client.getGovernanceParams();
+
+        console.log(`Created proposal #${id}`);
+        console.log(`  Hash:  ${proposalHash}`);
+        if (proposalDeposit.gt(0)) {
+            console.log(`  Deposit: ${formatTokens(proposalDeposit)} MDA, returned if the proposal is decided`);
+        }
+
+        return id;
+    });
+
+daoTask('dao:vote', 'Vote for a proposal')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .addParam('choice', 'Vote: yes, no or abstain', undefined, types.string)
+    .addOptionalParam('reason', 'Rationale of the vote', undefined, types.string)
+    .setAction(async (args: DaoArgs & { id: number, choice: string, reason?: string }, hre) => {
+        const client = await getClient(hre, args);
+        const vote = parseVoteChoice(args.choice);
+        if (args.reason === undefined) {
+            await client.vote(args.id, vote);
+        } else {
+            await client.voteWithReason(args.id, vote, args.reason);
+        }
+
+        const proposal = await client.getProposal(args.id);
+        console.log(`Voted ${formatVote(vote)} for proposal #${args.id}`);
+        console.log(formatProposal(proposal, await latestTimestamp(hre)));
+
+        return proposal.state;
+    });
+
+daoTask('dao:finalize', 'Decide a proposal after its voting period')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .setAction(async (args: DaoArgs & { id: number }, hre) => {
+        const client = await getClient(hre, args);
+        const state = await client.finalize(args.id);
+
+        console.log(`Finalized proposal #${args.id}: ${formatState(state)}`);
+
+        return state;
+    });
+
+daoTask('dao:expire', 'Mark a proposal as expired after its voting period')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .setAction(async (args: DaoArgs & { id: number }, hre) => {
+        const client = await getClient(hre, args);
+        await client.expire(args.id);
+
+        console.log(`Expired proposal #${args.id}`);
+    });
+
+daoTask('dao:cancel', 'Cancel a pending proposal by its creator or a queued one by the guardian')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .setAction(async (args: DaoArgs & { id: number }, hre) => {
+        const client = await getClient(hre, args);
+        await client.cancel(args.id);
+
+        console.log(`Cancelled proposal #${args.id}`);
+    });
+
+daoTask('dao:amend', 'Replace the text of a pending proposal, its votes are reset')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .addParam('text', 'New proposal text', undefined, types.string)
+    .setAction(async (args: DaoArgs & { id: number, text: string }, hre) => {
+        const client = await getClient(hre, args);
+        const { proposalHash } = await client.amend(args.id, args.text);
+
+        console.log(`Amended proposal #${args.id}`);
+        console.log(formatProposal(await client.getProposal(args.id), await latestTimestamp(hre)));
+
+        return proposalHash;
+    });
+
+daoTask('dao:status', 'Show a proposal')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .setAction(async (args: DaoArgs & { id: number }, hre) => {
+        const client = await getClient(hre, args);
+        const proposal = await client.getProposal(args.id);
+
+        console.log(formatProposal(proposal, await latestTimestamp(hre)));
+        if (client.store !== undefined) {
+            const text = await client.store.get(proposal.proposalHash);
+            console.log(`  Text:  ${text ?? '<not stored>'}`);
+        }
+
+        return proposal;
+    });
+
+daoTask('dao:list', 'List proposals')
+    .addFlag('all', 'Include proposals which are no longer active')
+    .setAction(async (args: DaoArgs & { all: boolean }, hre) => {
+        const client = await getClient(hre, args);
+        const proposals = args.all ? await client.listProposals() : await client.listActiveProposals();
+        const now = await latestTimestamp(hre);
+
+        if (proposals.length === 0) {
+            console.log('No proposals');
+        }
+        for (const proposal of proposals) {
+            console.log(`#${proposal.id} ${formatState(proposal.state)} ${proposal.proposalHash}`);
+            console.log(`  Yes: ${formatTokens(proposal.yesVotes)} MDA, No: ${formatTokens(proposal.noVotes)} MDA`);
+            console.log(`  TTL: ${formatTtl(proposal.ttl, now)}`);
+        }
+
+        return proposals;
+    });
+
+daoTask('dao:balance', 'Show token balance of an account')
+    .addOptionalParam('account', 'Account address, defaults to the sender', undefined, types.string)
+    .setAction(async (args: DaoArgs & { account?: string }, hre) => {
+        const client = await getClient(hre, args);
+        const account = args.account ?? await client.contract.signer.getAddress();
+        const balance = await client.contract.balanceOf(account);
+
+        console.log(`${account}: ${formatTokens(balance)} MDA`);
+
+        return balance;
+    });
+
+daoTask('dao:delegate', 'Delegate voting power of the sender balance')
+    .addParam('to', 'Address of the delegate, the sender itself takes the power back', undefined, types.string)
+    .setAction(async (args: DaoArgs & { to: string }, hre) => {
+        const client = await getClient(hre, args);
+        await client.delegate(args.to);
+
+        const power = await client.getVotingPower(args.to);
+        console.log(`Delegated to ${args.to}`);
+        console.log(`  Voting power: ${formatTokens(power)} MDA`);
+
+        return power;
+    });
+
+daoTask('dao:comment', 'Comment a proposal')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .addParam('text', 'Comment text', undefined, types.string)
+    .addOptionalParam('replyTo', 'Hash of the comment to reply to', undefined, types.string)
+    .setAction(async (args: DaoArgs & { id: number, text: string, replyTo?: string }, hre) => {
+        const client = await getClient(hre, args);
+        const { commentHash } = await client.comment(args.id, args.text, args.replyTo);
+
+        console.log(`Commented proposal #${args.id}`);
+        console.log(`  Hash:  ${commentHash}`);
+
+        return commentHash;
+    });
+
+daoTask('dao:discussion', 'Show vote reasons and comments of a proposal')
+    .addParam('id', 'Proposal ID', undefined, types.int)
+    .addOptionalParam('fromBlock', 'First block to index, usually the deployment block', 0, types.int)
+    .setAction(async (args: DaoArgs & { id: number, fromBlock: number }, hre) => {
+        const client = await getClient(hre, args);
+        const indexer = new Indexer(client.contract, undefined, { fromBlock: args.fromBlock });
+        await indexer.sync();
+        const discussion = await indexer.getDiscussion(args.id);
+
+        if (discussion.length === 0) {
+            console.log('No discussion');
+        } else {
+            console.log(formatDiscussion(discussion, await getCommentTexts(client.commentStore, discussion)));
+        }
+
+        return discussion;
+    });
+
+task('dao:simulate', 'Replay the scenarios of a file through the model of the contract rules')
+    .addParam('scenario', 'Path of the YAML or JSON scenario file', undefined, types.inputFile)
+    .addOptionalParam('maxProposals', 'Maximum number of pending proposals to try instead', undefined, types.int)
+    .addOptionalParam('votingPeriod', 'Voting period in seconds to try instead', undefined, types.int)
+    .addOptionalParam('thresholdPercent', 'Threshold percent to try instead', undefined, types.int)
+    .addFlag('check', 'Run the scenario on a fresh deployment too and compare the outcomes')
+    .setAction(async (args: ParamOverrides & { scenario: string, check: boolean }, hre) => {
+        const { scenario: file, check, ...options } = args;
+        const overrides = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+        const reports: SimulationReport[] = [];
+        for (const scenario of await loadScenarios(file)) {
+            const report = await simulateScenario(scenario, overrides);
+            reports.push(report);
+
+            console.log(`Scenario: ${scenario.name}`);
+            console.log(formatSimulationReport(report));
+
+            if (check) {
+                const actual = await runScenarioOnChain(hre, scenario, overrides);
+                const differences = compareSimulationReports(report, actual);
+                if (differences.length > 0) {
+                    throw new Error(`The contract on ${hre.network.name} differs: ${differences.join(', ')}`);
+                }
+                console.log(`The contract on ${hre.network.name} has the same outcomes`);
+            }
+        }
+
+        return reports;
+    });
@@ -0,0 +1,215 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    BallotRelayer,
+    deployMyDao,
+    getProposalHash,
+    MyDaoClient,
+    parseTokens,
+    ProposalState,
+    recoverBallotSigner,
+    signBallot,
+    signPermit,
+    Vote,
+} from '../src';
+
+const HOUR = 60 * 60;
+
+describe('Ballots', function() {
+    async function deployBallotsFixture() {
+        const [owner, relayer, noTokensAccount, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        // The owner keeps 40 tokens
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        await myDao.transfer(voters[1].address, parseTokens(20));
+        await myDao.transfer(voters[2].address, parseTokens(10));
+        await myDao.createProposal(getProposalHash('Test proposal'));
+
+        const client = new MyDaoClient(myDao.connect(relayer));
+        const deadline = await time.latest() + HOUR;
+        return { myDao, client, owner, relayer, noTokensAccount, voters: voters.slice(0, 3), deadline };
+    }
+
+    it('Vote by signature', async function() {
+        const { myDao, client, relayer, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.No, deadline);
+        expect(ballot.nonce).to.equal(0);
+        expect(await recoverBallotSigner(myDao, ballot)).to.equal(voters[0].address);
+
+        const receipt = await client.voteBySig(ballot);
+        expect(receipt.from).to.equal(relayer.address);
+        expect(await myDao.getVote(0, voters[0].address)).to.equal(Vote.No);
+        expect(await myDao.getVote(0, relayer.address)).to.equal(Vote.Abstain);
+        expect((await myDao.proposals(0)).noVotes).to.equal(parseTokens(30));
+        expect(await myDao.nonces(voters[0].address)).to.equal(1);
+    });
+
+    it('Vote by signature emits the usual events', async function() {
+        const { myDao, owner, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        const { vote, nonce, signature } = await signBallot(myDao, voters[1], 0, Vote.Yes, deadline);
+        const { v, r, s } = ethers.utils.splitSignature(signature);
+
+        // YES 50 of 100 tokens
+        await expect(myDao.voteBySig(0, vote, nonce, deadline, v, r, s))
+            .to.emit(myDao, 'Voted').withArgs(0, voters[1].address, Vote.Yes)
+            .to.not.emit(myDao, 'ProposalAccepted');
+
+        const ownerBallot = await signBallot(myDao, owner, 0, Vote.Yes, deadline);
+        const ownerSignature = ethers.utils.splitSignature(ownerBallot.signature);
+        await expect(myDao.voteBySig(0, Vote.Yes, 0, deadline, ownerSignature.v, ownerSignature.r, ownerSignature.s))
+            .to.emit(myDao, 'Voted').withArgs(0, owner.address, Vote.Yes)
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, getProposalHash('Test proposal'));
+    });
+
+    it('Cannot replay a ballot', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline);
+        await client.voteBySig(ballot);
+        await myDao.connect(voters[0]).vote(0, Vote.No);
+
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('Invalid nonce');
+        expect(await myDao.getVote(0, voters[0].address)).to.equal(Vote.No);
+    });
+
+    it('Cannot vote with a future nonce', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline, 1);
+
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('Invalid nonce');
+    });
+
+    it('Vote when time is the deadline', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline);
+        await time.setNextBlockTimestamp(deadline);
+
+        await expect(client.voteBySig(ballot)).to.not.be.reverted;
+    });
+
+    it('Cannot vote after the deadline', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline);
+        await time.setNextBlockTimestamp(deadline + 1);
+
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('Signature expired');
+        expect(await myDao.nonces(voters[0].address)).to.equal(0);
+    });
+
+    it('Cannot vote by signature without tokens', async function() {
+        const { myDao, client, noTokensAccount, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, noTokensAccount, 0, Vote.Yes, deadline);
+
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('You must hold tokens to vote or create proposals');
+    });
+
+    it('Tampered ballot is signed by another account', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = { ...await signBallot(myDao, voters[0], 0, Vote.Yes, deadline), vote: Vote.No };
+
+        expect(await recoverBallotSigner(myDao, ballot)).to.not.equal(voters[0].address);
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('You must hold tokens to vote or create proposals');
+    });
+
+    it('Permit by signature', async function() {
+        const { myDao, client, relayer, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const permit = await signPermit(myDao, voters[0], relayer.address, parseTokens(5), deadline);
+        await client.permit(permit);
+
+        expect(await myDao.allowance(voters[0].address, relayer.address)).to.equal(parseTokens(5));
+        await expect(client.permit(permit)).to.be.revertedWith('ERC20Permit: invalid signature');
+    });
+
+    it('Ballots and permits share nonces', async function() {
+        const { myDao, client, relayer, voters, deadline } = await loadFixture(deployBallotsFixture);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline);
+        await client.permit(await signPermit(myDao, voters[0], relayer.address, parseTokens(5), deadline));
+
+        await expect(client.voteBySig(ballot)).to.be.revertedWith('Invalid nonce');
+        await client.voteBySig(await signBallot(myDao, voters[0], 0, Vote.Yes, deadline));
+        expect(await myDao.nonces(voters[0].address)).to.equal(2);
+    });
+
+    it('Relayer submits collected ballots', async function() {
+        const { myDao, client, owner, noTokensAccount, voters, deadline } = await loadFixture(deployBallotsFixture);
+        const relayer = new BallotRelayer(client);
+
+        await relayer.add(await signBallot(myDao, voters[1], 0, Vote.Yes, deadline));
+        await relayer.add(await signBallot(myDao, noTokensAccount, 0, Vote.Yes, deadline));
+        await relayer.add(await signBallot(myDao, voters[2], 0, Vote.Yes, deadline));
+        await relayer.add(await signBallot(myDao, owner, 0, Vote.Yes, deadline));
+        expect(relayer.pending).to.have.length(4);
+
+        const results = await relayer.submit();
+
+        expect(relayer.pending).to.deep.equal([]);
+        expect(results.map(({ ballot }) => ballot.voter))
+            .to.deep.equal([voters[1].address, noTokensAccount.address, voters[2].address, owner.address]);
+        expect(results.map(({ error }) => error)).to.deep.equal([
+            undefined,
+            'You must hold tokens to vote or create proposals',
+            undefined,
+            undefined,
+        ]);
+        // The ballots are submitted in one transaction
+        expect(results[0].receipt).to.not.equal(undefined);
+        expect(results[2].receipt).to.equal(results[0].receipt);
+        expect(results[3].receipt).to.equal(results[0].receipt);
+        // YES 70 of 100 tokens
+        expect((await myDao.proposals(0)).state).to.equal(ProposalState.Accepted);
+    });
+
+    it('Vote by signature in a batch', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+        const ballots = [
+            await signBallot(myDao, voters[0], 0, Vote.No, deadline),
+            await signBallot(myDao, voters[1], 0, Vote.Yes, deadline),
+            // Same nonce as the first ballot
+            await signBallot(myDao, voters[0], 0, Vote.Yes, deadline),
+        ];
+
+        const receipt = await client.voteBySigBatch(ballots);
+        const events = receipt.events!.filter(({ event }) => event === 'BallotFailed');
+
+        expect(events.map(({ args }) => args!.index.toNumber())).to.deep.equal([2]);
+        expect(events[0].args!.reason).to.equal(ethers.utils.hexConcat([
+            ethers.utils.id('Error(string)').slice(0, 10),
+            ethers.utils.defaultAbiCoder.encode(['string'], ['Invalid nonce']),
+        ]));
+        expect(await myDao.getVote(0, voters[0].address)).to.equal(Vote.No);
+        expect(await myDao.getVote(0, voters[1].address)).to.equal(Vote.Yes);
+        expect(await myDao.nonces(voters[0].address)).to.equal(1);
+    });
+
+    it('Batch fails when a ballot runs out of gas', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.No, deadline);
+        const { v, r, s } = ethers.utils.splitSignature(ballot.signature);
+
+        await expect(client.contract.voteBySigBatch([{ ...ballot, v, r, s }], { gasLimit: 60000 }))
+            .to.be.revertedWith('Not enough gas for the ballots');
+    });
+
+    it('Relayer rejects ballots not signed by the voter', async function() {
+        const { myDao, client, voters, deadline } = await loadFixture(deployBallotsFixture);
+        const relayer = new BallotRelayer(client);
+
+        const ballot = await signBallot(myDao, voters[0], 0, Vote.Yes, deadline);
+
+        await expect(relayer.add({ ...ballot, voter: voters[1].address }))
+            .to.be.rejectedWith(`Ballot of ${voters[1].address} is signed by ${voters[0].address}`);
+        expect(relayer.pending).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import itParam from 'mocha-param';
+import { ClaimTree, deployMyDao, MyDaoClient, parseTokens } from '../src';
+
+describe('ClaimTree', function() {
+    async function createClaims(count: number) {
+        const [owner, ...accounts] = await ethers.getSigners();
+        const claims = accounts.slice(0, count).map((account, i) => ({
+            account: account.address,
+            amount: parseTokens(i + 1),
+        }));
+        return { owner, accounts, claims };
+    }
+
+    itParam('Every proof of ${value} claims is accepted by the contract', [1, 2, 3, 4, 5, 7], async function(count: number) {
+        const { owner, accounts, claims } = await createClaims(count);
+        const tree = new ClaimTree(claims);
+        const myDao = await deployMyDao(hre, {}, undefined, {
+            allocations: [{ account: owner.address, amount: parseTokens(100).sub(tree.supply) }],
+            claimRoot: tree.root,
+            claimSupply: tree.supply,
+        });
+
+        for (const [i, { amount }] of claims.entries()) {
+            const proof = tree.getProof(accounts[i].address);
+            expect(ClaimTree.verify(tree.root, accounts[i].address, amount, proof)).to.equal(true);
+            await new MyDaoClient(myDao.connect(accounts[i])).claim(tree);
+            expect(await myDao.balanceOf(accounts[i].address)).to.equal(amount);
+        }
+        expect(await myDao.unclaimedSupply()).to.equal(0);
+    });
+
+    it('Root and supply', async function() {
+        const { accounts, claims } = await createClaims(3);
+        const tree = new ClaimTree(claims);
+
+        expect(tree.supply).to.equal(parseTokens(6));
+        expect(new ClaimTree([claims[0]]).root).to.equal(ClaimTree.getLeaf(accounts[0].address, parseTokens(1)));
+        expect(new ClaimTree([...claims].reverse()).root).not.to.equal(tree.root);
+        expect(new ClaimTree([claims[0], { ...claims[1], amount: parseTokens(3) }, claims[2]]).root)
+            .not.to.equal(tree.root);
+    });
+
+    it('Proofs do not verify other claims', async function() {
+        const { accounts, claims } = await createClaims(4);
+        const tree = new ClaimTree(claims);
+        const proof = tree.getProof(accounts[0].address);
+
+        expect(ClaimTree.verify(tree.root, accounts[0].address, parseTokens(2), proof)).to.equal(false);
+        expect(ClaimTree.verify(tree.root, accounts[1].address, parseTokens(1), proof)).to.equal(false);
+        expect(ClaimTree.verify(tree.root, accounts[0].address, parseTokens(1), proof.slice(1))).to.equal(false);
+    });
+
+    it('Claims are found by address in any case', async function() {
+        const { accounts, claims } = await createClaims(2);
+        const tree = new ClaimTree(claims);
+        const address = accounts[1].address;
+
+        expect(tree.getClaim(address.toLowerCase())).to.deep.equal(claims[1]);
+        expect(tree.getProof(address.toLowerCase())).to.deep.equal(tree.getProof(address));
+        expect(tree.getClaim(accounts[2].address)).to.equal(undefined);
+        expect(() => tree.getProof(accounts[2].address)).to.throw(`No claim for ${accounts[2].address}`);
+    });
+
+    it('Should reject empty and duplicate claims', async function() {
+        const { accounts, claims } = await createClaims(2);
+
+        expect(() => new ClaimTree([])).to.throw('Claim tree must have at least one claim');
+        expect(() => new ClaimTree([...claims, { account: accounts[0].address.toLowerCase(), amount: parseTokens(1) }]))
+            .to.throw(`Duplicate claim for ${accounts[0].address}`);
+    });
+
+    it('Client cannot claim without a claim', async function() {
+        const { owner, claims } = await createClaims(2);
+        const tree = new ClaimTree(claims);
+        const myDao = await deployMyDao(hre);
+
+        await expect(new MyDaoClient(myDao).claim(tree)).to.be.rejectedWith(`No claim for ${owner.address}`);
+        expect(await new MyDaoClient(myDao).hasClaimed(owner.address)).to.equal(false);
+    });
+});
@@ -0,0 +1,269 @@
+import { loadFixture, mine, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers, network } from 'hardhat';
+import {
+    deployMyDao,
+    DiscussionEntry,
+    getProposalHash,
+    Indexer,
+    MemoryIndexerStore,
+    parseTokens,
+    ProposalState,
+    Vote,
+} from '../src';
+
+const DAY = 24 * 60 * 60;
+const VOTING_PERIOD = 3 * DAY;
+
+describe('Indexer', function() {
+    async function deployIndexerFixture() {
+        const [owner, ...otherAccounts] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        const voters = otherAccounts.slice(0, 3);
+        const balances = [25, 40, 35].map((x) => parseTokens(x));
+        for (let i = 0; i < voters.length; i++) {
+            await myDao.transfer(voters[i].address, balances[i]);
+        }
+
+        return { myDao, owner, voters, fromBlock };
+    }
+
+    async function historyFixture() {
+        const { myDao, owner, voters, fromBlock } = await deployIndexerFixture();
+
+        // Proposal 0 is accepted, transfers after its snapshot do not change the weights
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await myDao.connect(voters[2]).transfer(voters[0].address, parseTokens(10));
+        await myDao.connect(voters[1]).transfer(voters[2].address, parseTokens(5));
+
+        // Proposal 1 expires, its snapshot includes the transfers before it
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Proposal 1'));
+        await myDao.connect(voters[1]).vote(1, Vote.No);
+
+        await myDao.connect(voters[2]).vote(0, Vote.Yes);
+
+        await time.increase(VOTING_PERIOD + 1);
+        await myDao.connect(voters[1]).transfer(voters[0].address, parseTokens(35));
+
+        return { myDao, owner, voters, fromBlock };
+    }
+
+    it('Voters and weights match the tallies', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(historyFixture);
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+
+        await indexer.sync();
+
+        expect(await indexer.getVoters(0)).to.deep.equal([
+            { voter: voters[0].address, vote: Vote.Yes, weight: parseTokens(25) },
+            { voter: voters[1].address, vote: Vote.No, weight: parseTokens(40) },
+            { voter: voters[2].address, vote: Vote.Yes, weight: parseTokens(35) },
+        ]);
+        expect((await myDao.proposals(0)).yesVotes).to.equal(parseTokens(60));
+        expect((await myDao.proposals(0)).noVotes).to.equal(parseTokens(40));
+
+        expect(await indexer.getVoters(1)).to.deep.equal([
+            { voter: voters[1].address, vote: Vote.No, weight: parseTokens(35) },
+        ]);
+        expect((await myDao.proposals(1)).noVotes).to.equal(parseTokens(35));
+    });
+
+    it('Proposals created by account', async function() {
+        const { myDao, owner, voters, fromBlock } = await loadFixture(historyFixture);
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+
+        await indexer.sync();
+
+        const created = await indexer.getProposalsByCreator(voters[1].address.toLowerCase());
+        expect(created.map((proposal) => proposal.proposalId)).to.deep.equal([1]);
+        expect(created[0].proposalHash).to.equal(getProposalHash('Proposal 1'));
+        expect(await indexer.getProposalsByCreator(owner.address)).to.deep.equal([]);
+    });
+
+    it('State transition timeline', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+
+        const [voter] = voters;
+        for (let i = 0; i < 3; i++) {
+            await myDao.connect(voter).createProposal(getProposalHash(`Proposal ${i}`));
+        }
+        await time.increase(VOTING_PERIOD + 1);
+        await myDao.connect(voter).createProposal(getProposalHash('Proposal 3'));
+
+        await indexer.sync();
+
+        const timeline = await indexer.getTimeline(0);
+        expect(timeline.map((transition) => transition.state))
+            .to.deep.equal([ProposalState.Pending, ProposalState.Expired]);
+        expect(timeline[1].event.timestamp).to.equal(await time.latest());
+        expect(timeline[1].event.timestamp - timeline[0].event.timestamp).to.be.greaterThan(VOTING_PERIOD);
+
+        expect((await indexer.getTimeline()).map(({ proposalId, state }) => [proposalId, state])).to.deep.equal([
+            [0, ProposalState.Pending],
+            [1, ProposalState.Pending],
+            [2, ProposalState.Pending],
+            [0, ProposalState.Expired],
+            [1, ProposalState.Expired],
+            [2, ProposalState.Expired],
+            [3, ProposalState.Pending],
+        ]);
+    });
+
+    it('Voters and weights with delegation', async function() {
+        const { myDao, owner, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+
+        await myDao.connect(voters[0]).delegate(owner.address);
+        await myDao.connect(voters[2]).delegate(owner.address);
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Proposal 0'));
+        // The owner holds no tokens and votes only with the delegated balances.
+        // Re-delegation after the snapshot does not change the weights
+        await myDao.connect(voters[2]).delegate(voters[1].address);
+        await myDao.connect(voters[0]).vote(0, Vote.No);
+        await myDao.connect(owner).vote(0, Vote.Yes);
+
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+        await indexer.sync();
+
+        expect(await indexer.getVoters(0)).to.deep.equal([
+            { voter: voters[0].address, vote: Vote.No, weight: parseTokens(25) },
+            { voter: owner.address, vote: Vote.Yes, weight: parseTokens(35) },
+        ]);
+        expect((await myDao.proposals(0)).yesVotes).to.equal(parseTokens(35));
+        expect((await myDao.proposals(0)).noVotes).to.equal(parseTokens(25));
+    });
+
+    it('Voters and weights after amendment', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await myDao.connect(voters[2]).transfer(voters[0].address, parseTokens(10));
+        await myDao.connect(voters[0]).amend(0, getProposalHash('Amended proposal 0'));
+        await myDao.connect(voters[2]).vote(0, Vote.Yes);
+
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+        await indexer.sync();
+
+        expect(await indexer.getVoters(0)).to.deep.equal([
+            { voter: voters[2].address, vote: Vote.Yes, weight: parseTokens(25) },
+        ]);
+        expect((await myDao.proposals(0)).yesVotes).to.equal(parseTokens(25));
+        expect((await myDao.proposals(0)).noVotes).to.equal(0);
+    });
+
+    it('Discussion thread', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+        const [first, reply, nested, other, orphan] = ['First', 'Reply', 'Nested', 'Other', 'Orphan']
+            .map((text) => getProposalHash(text));
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 1'));
+        await myDao.connect(voters[0]).comment(0, first, ethers.constants.HashZero);
+        await myDao.connect(voters[1]).voteWithReason(0, Vote.No, 'Too expensive');
+        await myDao.connect(voters[1]).comment(0, reply, first);
+        await myDao.connect(voters[0]).comment(1, other, ethers.constants.HashZero);
+        await myDao.connect(voters[2]).comment(0, nested, reply);
+        await myDao.connect(voters[2]).comment(0, orphan, getProposalHash('Unknown'));
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+        await indexer.sync();
+        const discussion = await indexer.getDiscussion(0);
+
+        const simplify = ({ author, commentHash, vote, reason, replies }: DiscussionEntry): unknown =>
+            ({ author, commentHash, vote, reason, replies: replies.map(simplify) });
+        expect(discussion.map(simplify)).to.deep.equal([
+            {
+                author: voters[0].address,
+                commentHash: first,
+                vote: undefined,
+                reason: undefined,
+                replies: [{
+                    author: voters[1].address,
+                    commentHash: reply,
+                    vote: undefined,
+                    reason: undefined,
+                    replies: [
+                        { author: voters[2].address, commentHash: nested, vote: undefined, reason: undefined, replies: [] },
+                    ],
+                }],
+            },
+            { author: voters[1].address, commentHash: undefined, vote: Vote.No, reason: 'Too expensive', replies: [] },
+            { author: voters[2].address, commentHash: orphan, vote: undefined, reason: undefined, replies: [] },
+        ]);
+        expect(discussion[1].event.name).to.equal('VotedWithReason');
+        expect((await indexer.getDiscussion(1)).map(({ commentHash }) => commentHash)).to.deep.equal([other]);
+    });
+
+    it('Incremental sync over block ranges', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+        const store = new MemoryIndexerStore();
+        const indexer = new Indexer(myDao, store, { fromBlock, batchSize: 2 });
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        const firstBlock = await ethers.provider.getBlockNumber();
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Proposal 1'));
+
+        const checkpoint = await indexer.sync(firstBlock);
+        expect(checkpoint?.blockNumber).to.equal(firstBlock);
+        expect((await indexer.getTimeline()).map((transition) => transition.proposalId)).to.deep.equal([0]);
+
+        await myDao.connect(voters[1]).vote(1, Vote.Yes);
+        await mine(5);
+        await indexer.sync();
+
+        expect((await store.getCheckpoint())?.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+        expect((await indexer.getTimeline()).map((transition) => transition.proposalId)).to.deep.equal([0, 1]);
+        expect(await indexer.getVoters(1)).to.deep.equal([
+            { voter: voters[1].address, vote: Vote.Yes, weight: parseTokens(40) },
+        ]);
+        expect((await indexer.getEvents()).filter((event) => event.name === 'Transfer')).to.have.length(4);
+    });
+
+    it('Roll back reorganized blocks', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(), { fromBlock });
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await indexer.sync();
+        const snapshot = await network.provider.send('evm_snapshot');
+
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Orphaned proposal'));
+        await myDao.connect(voters[1]).vote(1, Vote.No);
+        await indexer.sync();
+        expect(await indexer.getProposalsByCreator(voters[1].address)).to.have.length(1);
+
+        await network.provider.send('evm_revert', [snapshot]);
+        await myDao.connect(voters[2]).createProposal(getProposalHash('Proposal 1'));
+        await mine(3);
+        await indexer.sync();
+
+        expect(await indexer.getProposalsByCreator(voters[1].address)).to.deep.equal([]);
+        expect(await indexer.getVoters(1)).to.deep.equal([]);
+        const created = await indexer.getProposalsByCreator(voters[2].address);
+        expect(created.map(({ proposalId, proposalHash }) => [proposalId, proposalHash]))
+            .to.deep.equal([[1, getProposalHash('Proposal 1')]]);
+    });
+
+    it('Index everything again after a reorg deeper than recent blocks', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(deployIndexerFixture);
+        const indexer = new Indexer(myDao, new MemoryIndexerStore(1), { fromBlock });
+
+        const snapshot = await network.provider.send('evm_snapshot');
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Orphaned proposal'));
+        await indexer.sync();
+
+        await network.provider.send('evm_revert', [snapshot]);
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Proposal 0'));
+        await indexer.sync();
+
+        expect(await indexer.getProposalsByCreator(voters[0].address)).to.deep.equal([]);
+        expect(await indexer.getProposalsByCreator(voters[1].address)).to.have.length(1);
+        expect((await indexer.getEvents()).filter((event) => event.name === 'Transfer')).to.have.length(4);
+    });
+});
@@ -1,18 +1,43 @@
 import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { BigNumber } from 'ethers';
-import { ethers } from 'hardhat';
+import { BigNumber, BigNumberish } from 'ethers';
+import hre, { ethers } from 'hardhat';
 import itParam from 'mocha-param';
+import {
+    ClaimTree,
+    createCallAction,
+    createTokenTransferAction,
+    DECIMALS,
+    DecisionRule,
+    DEFAULT_GOVERNANCE_PARAMS,
+    deployMyDao,
+    formatTokens,
+    getActionsHash,
+    GovernanceParams,
+    getProposalHash,
+    MyDaoClient,
+    parseTokens,
+    Proposal,
+    ProposalState,
+    Vote,
+} from '../src';
 import { MyDao } from '../typechain-types';
 
-const DECIMALS = 6;
 const DAY = 24 * 60 * 60;
-const VOTING_PERIOD = 3 * DAY;
 
-enum Vote { Abstain, Yes, No }
-
-enum ProposalState { Pending, Accepted, Rejected, Expired }
+const PARAMETER_SETS: GovernanceParams[] = [
+    DEFAULT_GOVERNANCE_PARAMS,
+    { ...DEFAULT_GOVERNANCE_PARAMS, maxProposals: 5, votingPeriod: DAY, initialSupply: parseTokens(1000) },
+    {
+        ...DEFAULT_GOVERNANCE_PARAMS,
+        maxProposals: 4,
+        votingPeriod: 7 * DAY,
+        initialSupply: parseTokens(10),
+        decisionRule: DecisionRule.QuorumMajority,
+        quorumPercent: 20,
+    },
+];
 
 interface VoteInfo {
     value: Vote,
@@ -38,354 +63,325 @@ const TEST_PROPOSAL = 'Test proposal';
 const TEST_PROPOSAL_HASH = getProposalHash(TEST_PROPOSAL);
 
 function createProposalHash(id: number): string {
-    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`Proposal ${id}`));
+    return getProposalHash(`Proposal ${id}`);
 }
 
-function getProposalHash(proposal: string): string {
-    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(proposal));
-}
+type ExpectedProposal = { [key in keyof Proposal]?: BigNumberish };
 
-function checkProposal(proposal: any, expected: any): void {
+async function checkProposal(myDao: MyDao, proposalId: BigNumberish, expected: ExpectedProposal): Promise<void> {
+    const proposal = await new MyDaoClient(myDao).getProposal(proposalId);
     for (const [key, value] of Object.entries(expected)) {
-        expect(proposal[key])
+        expect(proposal[key as keyof Proposal])
             .to.equal(value, `Proposal ${key} is not correct`);
     }
 }
 
-describe('MyDao', function() {
-    async function deployMyDaoFixture() {
-        const [owner, noTokensAccount, ...otherAccounts] = await ethers.getSigners();
-        const MyDao = await ethers.getContractFactory('MyDao');
-        const myDao = await MyDao.deploy();
-        const totalSupply = ethers.utils.parseUnits('100', DECIMALS);
-        return { myDao, owner, noTokensAccount, otherAccounts, totalSupply };
-    }
-
-    function createFixture(rawBalances: number[]) {
-        return async function() {
-            const { myDao, owner, noTokensAccount, otherAccounts, totalSupply } = await deployMyDaoFixture();
-
-            const balances = rawBalances.map((x) => ethers.utils.parseUnits(x.toString(), DECIMALS));
-            const voters = otherAccounts.slice(0, balances.length);
-
-            expect(balances.reduce((a, b) => a.add(b)))
-                .to.equal(totalSupply, 'Balances sum should be equal to total supply');
-
-            for (let i = 0; i < voters.length; i++) {
-                await myDao.transfer(voters[i].address, balances[i]);
-            }
-
-            expect(await myDao.balanceOf(owner.address)).to.equal(0, 'Owner should have no tokens');
-
-            return { myDao, noTokensAccount, owner, voters, balances };
-        };
-    }
-
-    async function minimumBalanceFixture() {
-        const { myDao, owner, noTokensAccount, otherAccounts, totalSupply } = await deployMyDaoFixture();
-
-        const [minimumBalanceAccount, halfSupplyAccount] = otherAccounts;
-
-        await myDao.transfer(minimumBalanceAccount.address, 1);
-        await myDao.transfer(halfSupplyAccount.address, totalSupply.div(2));
-
-        return { myDao, noTokensAccount, owner, minimumBalanceAccount, halfSupplyAccount };
-    }
-
-    const threeVotersFixture = createFixture([25, 40, 35]);
-    const fourVotersFixture = createFixture([5, 10, 15, 70]);
-
-    describe('Deployment', function() {
-        it('Should mint 100 tokens to the owner', async function() {
-            const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
-
-            expect(await myDao.decimals())
-                .to.equal(DECIMALS, `Decimals should be ${DECIMALS}`);
-            expect(await myDao.balanceOf(owner.address))
-                .to.equal(totalSupply, `Owner should have ${totalSupply} tokens`);
-            expect(await myDao.totalSupply())
-                .to.equal(totalSupply, `Total supply should be ${totalSupply}`);
-        });
-
-        it('Proposal count should be 0', async function() {
-            const { myDao } = await loadFixture(deployMyDaoFixture);
-
-            expect(await myDao.proposalsCount()).to.equal(0, 'Proposals count should be 0');
-        });
-    });
-
-    describe('Create Proposal', function() {
-        it('Successful create proposal', async function() {
-            const { myDao, owner } = await loadFixture(deployMyDaoFixture);
-            const proposalHash = TEST_PROPOSAL_HASH;
-
-            const proposalId = await myDao.proposalsCount();
-
-            expect(await myDao.createProposal(proposalHash))
-                .to.emit(myDao, 'ProposalCreated').withArgs(proposalId, proposalHash, owner.address);
-            expect(await myDao.proposalsCount())
-                .to.equal(1, 'Proposals count should be 1');
-
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash,
-                id: proposalId,
-                ttl: await time.latest() + VOTING_PERIOD,
-                yesVotes: 0,
-                noVotes: 0,
-                state: ProposalState.Pending,
-            });
-            expect(await myDao.getVote(proposalId, owner.address))
-                .to.equal(Vote.Abstain, 'Proposal owner vote should be ABSTAIN');
-        });
-
-        it('Account with no tokens should not be able to create proposal', async function() {
-            const { myDao, noTokensAccount } = await loadFixture(deployMyDaoFixture);
-
-            await expect(myDao.connect(noTokensAccount).createProposal(TEST_PROPOSAL_HASH))
-                .to.be.revertedWith('You must hold tokens to vote or create proposals');
-        });
+async function getActiveProposals(myDao: MyDao): Promise<number[]> {
+    return (await myDao.activeProposals()).map((id) => id.toNumber());
+}
 
-        it('Cannot be more than three pending proposals', async function() {
-            const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+for (const params of PARAMETER_SETS) {
+    const paramsName = `${params.maxProposals} proposals, ${params.votingPeriod / DAY} days, `
+        + `${formatTokens(params.initialSupply)} MDA, ${params.thresholdPercent}%, `
+        + `${DecisionRule[params.decisionRule]} ${params.quorumPercent}%`;
+
+    describe(`MyDao (${paramsName})`, function() {
+        async function deployMyDaoFixture() {
+            const [owner, noTokensAccount, ...otherAccounts] = await ethers.getSigners();
+            const myDao = await deployMyDao(hre, params);
+            const totalSupply = params.initialSupply;
+            return { myDao, owner, noTokensAccount, otherAccounts, totalSupply };
+        }
 
-            for (let i = 0; i < 3; i++) {
-                const proposalHash = createProposalHash(i);
-                await expect(myDao.createProposal(proposalHash))
-                    .to.emit(myDao, 'ProposalCreated').withArgs(i, proposalHash, owner.address);
-            }
+        function createFixture(rawBalances: number[]) {
+            return async function() {
+                const [owner, noTokensAccount, ...otherAccounts] = await ethers.getSigners();
+                const totalSupply = params.initialSupply;
 
-            await expect(myDao.createProposal(TEST_PROPOSAL_HASH))
-                .to.be.revertedWith('Max number of pending proposals reached');
-        });
+                // Balances are given in percents of the total supply
+                const balances = rawBalances.map((x) => totalSupply.mul(x).div(100));
+                const voters = otherAccounts.slice(0, balances.length);
 
-        it('Create two proposals with the same hash', async function() {
-            const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+                expect(balances.reduce((a, b) => a.add(b)))
+                    .to.equal(totalSupply, 'Balances sum should be equal to total supply');
 
-            const proposalHash = TEST_PROPOSAL_HASH;
+                const myDao = await deployMyDao(hre, params, undefined, {
+                    allocations: voters.map((voter, i) => ({ account: voter.address, amount: balances[i] })),
+                });
 
-            await expect(myDao.createProposal(proposalHash))
-                .to.emit(myDao, 'ProposalCreated').withArgs(0, proposalHash, owner.address);
-            await expect(myDao.createProposal(proposalHash))
-                .to.emit(myDao, 'ProposalCreated').withArgs(1, proposalHash, owner.address);
-        });
-    });
+                expect(await myDao.balanceOf(owner.address)).to.equal(0, 'Owner should have no tokens');
 
-    describe('Transfer', function() {
-        async function checkTransfer(
-            myDao: MyDao,
-            from: SignerWithAddress,
-            to: SignerWithAddress,
-            amount: BigNumber,
-            expected: BigNumber
-        ) {
-            expect(await myDao.balanceOf(to.address))
-                .to.equal(0, 'Recipient should have no tokens');
-            await expect(myDao.connect(from).transfer(to.address, amount))
-                .to.emit(myDao, 'Transfer').withArgs(from.address, to.address, amount);
-            expect(await myDao.balanceOf(to.address))
-                .to.equal(amount, `Recipient should have ${amount} tokens`);
-            expect(await myDao.balanceOf(from.address))
-                .to.equal(expected, `Owner should have ${expected} tokens`);
+                return { myDao, noTokensAccount, owner, voters, balances };
+            };
         }
 
-        it('Successful transfer', async function() {
-            const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
-            const [recipient] = otherAccounts;
-            const amount = ethers.utils.parseUnits('10', DECIMALS);
-
-            await checkTransfer(myDao, owner, recipient, amount, totalSupply.sub(amount));
-        });
-
-        it('Transfer all tokens', async function() {
-            const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
-            const [recipient] = otherAccounts;
-
-            expect(await myDao.balanceOf(recipient.address))
-                .to.equal(0, 'Recipient should have no tokens');
-            await expect(myDao.transfer(recipient.address, totalSupply))
-                .to.emit(myDao, 'Transfer').withArgs(owner.address, recipient.address, totalSupply);
-            expect(await myDao.balanceOf(recipient.address))
-                .to.equal(totalSupply, `Recipient should have ${totalSupply} tokens`);
-            expect(await myDao.balanceOf(owner.address))
-                .to.equal(0, 'Owner should have no tokens');
-        });
-
-        it('Transfer more than balance', async function() {
-            const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
-            const amount = totalSupply.add(1);
+        async function minimumBalanceFixture() {
+            const { myDao, owner, noTokensAccount, otherAccounts, totalSupply } = await deployMyDaoFixture();
 
-            await expect(myDao.transfer(owner.address, amount))
-                .to.be.revertedWith('ERC20: transfer amount exceeds balance');
-        });
+            const [minimumBalanceAccount, halfSupplyAccount] = otherAccounts;
 
-        it('Transfer from account with no tokens', async function() {
-            const { myDao, noTokensAccount, owner } = await loadFixture(deployMyDaoFixture);
+            await myDao.transfer(minimumBalanceAccount.address, 1);
+            await myDao.transfer(halfSupplyAccount.address, totalSupply.mul(params.thresholdPercent).div(100));
 
-            await expect(myDao.connect(noTokensAccount).transfer(owner.address, 1))
-                .to.be.revertedWith('ERC20: transfer amount exceeds balance');
-        });
+            return { myDao, noTokensAccount, owner, minimumBalanceAccount, halfSupplyAccount };
+        }
 
-        it('Scenario with transfer 25, 40, 35 tokens', async function() {
-            const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
-            const amounts = [25, 40, 35].map(amount => ethers.utils.parseUnits(amount.toString(), DECIMALS));
-            const recipients = otherAccounts.slice(0, amounts.length);
+        const threeVotersFixture = createFixture([25, 40, 35]);
+        const fourVotersFixture = createFixture([5, 10, 15, 70]);
 
-            expect(amounts.reduce((a, b) => a.add(b)))
-                .to.equal(totalSupply, 'Balances sum should be equal to total supply');
+        describe('Deployment', function() {
+            it(`Should mint ${formatTokens(params.initialSupply)} tokens to the owner`, async function() {
+                const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
 
-            let totalTransferred = ethers.BigNumber.from(0);
-            for (let i = 0; i < recipients.length; i++) {
-                const recipient = recipients[i];
-                const amount = amounts[i];
+                expect(await myDao.decimals())
+                    .to.equal(DECIMALS, `Decimals should be ${DECIMALS}`);
+                expect(await myDao.balanceOf(owner.address))
+                    .to.equal(totalSupply, `Owner should have ${totalSupply} tokens`);
+                expect(await myDao.totalSupply())
+                    .to.equal(totalSupply, `Total supply should be ${totalSupply}`);
+            });
 
-                totalTransferred = totalTransferred.add(amount);
+            it('Proposal count should be 0', async function() {
+                const { myDao } = await loadFixture(deployMyDaoFixture);
 
-                await checkTransfer(myDao, owner, recipient, amount, totalSupply.sub(totalTransferred));
-            }
+                expect(await myDao.proposalsCount()).to.equal(0, 'Proposals count should be 0');
+            });
         });
-    });
 
-    describe('Vote', function() {
-        itParam('Successful vote ${value.name}', [yes, no],
-            async function(vote: VoteInfo) {
-                const { myDao, voters, balances } = await threeVotersFixture();
-                const proposalId = 0;
+        describe('Create Proposal', function() {
+            it('Successful create proposal', async function() {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
                 const proposalHash = TEST_PROPOSAL_HASH;
 
-                const creator = voters[0];
-                const voter = voters[1];
-                const voterBalance = balances[1];
-
-                await myDao.connect(creator).createProposal(proposalHash);
+                const proposalId = await myDao.proposalsCount();
 
-                const ttl = await time.latest() + VOTING_PERIOD;
+                expect(await myDao.createProposal(proposalHash))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(proposalId, proposalHash, owner.address);
+                expect(await myDao.proposalsCount())
+                    .to.equal(1, 'Proposals count should be 1');
 
-                expect(await myDao.connect(voter).vote(proposalId, vote.value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, vote.value);
-                expect(await myDao.getVote(proposalId, voter.address))
-                    .to.equal(vote.value, `Voter vote should be ${vote.name}`);
-                expect(await myDao.getVote(proposalId, creator.address))
-                    .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-                checkProposal(await myDao.proposals(proposalId), {
+                await checkProposal(myDao, proposalId, {
                     proposalHash,
                     id: proposalId,
-                    ttl,
-                    yesVotes: vote.value == Vote.Yes ? voterBalance : 0,
-                    noVotes: vote.value == Vote.No ? voterBalance : 0,
+                    ttl: await time.latest() + params.votingPeriod,
+                    yesVotes: 0,
+                    noVotes: 0,
                     state: ProposalState.Pending,
                 });
+                expect(await myDao.getVote(proposalId, owner.address))
+                    .to.equal(Vote.Abstain, 'Proposal owner vote should be ABSTAIN');
             });
 
-        itParam('Account with no tokens should not be able to vote ${value.name}', [yes, no],
-            async function(vote: VoteInfo) {
+            it('Account with no tokens should not be able to create proposal', async function() {
                 const { myDao, noTokensAccount } = await loadFixture(deployMyDaoFixture);
 
-                await expect(myDao.connect(noTokensAccount).vote(0, vote.value))
+                await expect(myDao.connect(noTokensAccount).createProposal(TEST_PROPOSAL_HASH))
                     .to.be.revertedWith('You must hold tokens to vote or create proposals');
             });
 
-        itParam('Proposal should not be expired to vote ${value.name}', [yes, no],
-            async function(vote: VoteInfo) {
-                const { myDao, voters } = await threeVotersFixture();
-                const proposalId = 0;
+            it(`Cannot be more than ${params.maxProposals} pending proposals`, async function() {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
 
-                const creator = voters[0];
-                const voter = voters[1];
+                for (let i = 0; i < params.maxProposals; i++) {
+                    const proposalHash = createProposalHash(i);
+                    await expect(myDao.createProposal(proposalHash))
+                        .to.emit(myDao, 'ProposalCreated').withArgs(i, proposalHash, owner.address);
+                }
 
-                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                await expect(myDao.createProposal(TEST_PROPOSAL_HASH))
+                    .to.be.revertedWith('Max number of pending proposals reached');
+            });
 
-                await time.setNextBlockTimestamp(await time.latest() + VOTING_PERIOD + 1);
+            it('Create two proposals with the same hash', async function() {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
 
-                await expect(myDao.connect(voter).vote(proposalId, vote.value))
-                    .to.be.revertedWith('Proposal is expired');
-                expect((await myDao.proposals(proposalId)).ttl).to.lessThan(await time.latest());
+                const proposalHash = TEST_PROPOSAL_HASH;
+
+                await expect(myDao.createProposal(proposalHash))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(0, proposalHash, owner.address);
+                await expect(myDao.createProposal(proposalHash))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(1, proposalHash, owner.address);
             });
+        });
 
-        itParam('Change vote ${value[0].name} to ${value[1].name}', [[yes, no], [no, yes]],
-            async function(votes: VoteInfo[]) {
-                const { myDao, voters, balances } = await threeVotersFixture();
-                const proposalId = 0;
+        describe('Transfer', function() {
+            async function checkTransfer(
+                myDao: MyDao,
+                from: SignerWithAddress,
+                to: SignerWithAddress,
+                amount: BigNumber,
+                expected: BigNumber
+            ) {
+                expect(await myDao.balanceOf(to.address))
+                    .to.equal(0, 'Recipient should have no tokens');
+                await expect(myDao.connect(from).transfer(to.address, amount))
+                    .to.emit(myDao, 'Transfer').withArgs(from.address, to.address, amount);
+                expect(await myDao.balanceOf(to.address))
+                    .to.equal(amount, `Recipient should have ${amount} tokens`);
+                expect(await myDao.balanceOf(from.address))
+                    .to.equal(expected, `Owner should have ${expected} tokens`);
+            }
 
-                const creator = voters[0];
-                const voter = voters[1];
-                const voterBalance = balances[1];
+            it('Successful transfer', async function() {
+                const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
+                const [recipient] = otherAccounts;
+                const amount = totalSupply.div(10);
 
-                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                await checkTransfer(myDao, owner, recipient, amount, totalSupply.sub(amount));
+            });
+
+            it('Transfer all tokens', async function() {
+                const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
+                const [recipient] = otherAccounts;
+
+                expect(await myDao.balanceOf(recipient.address))
+                    .to.equal(0, 'Recipient should have no tokens');
+                await expect(myDao.transfer(recipient.address, totalSupply))
+                    .to.emit(myDao, 'Transfer').withArgs(owner.address, recipient.address, totalSupply);
+                expect(await myDao.balanceOf(recipient.address))
+                    .to.equal(totalSupply, `Recipient should have ${totalSupply} tokens`);
+                expect(await myDao.balanceOf(owner.address))
+                    .to.equal(0, 'Owner should have no tokens');
+            });
 
-                const ttl = await time.latest() + VOTING_PERIOD;
+            it('Transfer more than balance', async function() {
+                const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
+                const amount = totalSupply.add(1);
 
-                await myDao.connect(voter).vote(proposalId, votes[0].value);
+                await expect(myDao.transfer(owner.address, amount))
+                    .to.be.revertedWith('ERC20: transfer amount exceeds balance');
+            });
 
-                expect(await myDao.connect(voter).vote(proposalId, votes[1].value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, votes[1].value);
-                expect(await myDao.getVote(proposalId, voter.address))
-                    .to.equal(votes[1].value, `Voter vote should be ${votes[1].name}`);
-                expect(await myDao.getVote(proposalId, creator.address))
-                    .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-                checkProposal(await myDao.proposals(proposalId), {
-                    proposalHash: TEST_PROPOSAL_HASH,
-                    id: proposalId,
-                    ttl: ttl,
-                    yesVotes: votes[1].value == Vote.Yes ? voterBalance : 0,
-                    noVotes: votes[1].value == Vote.No ? voterBalance : 0,
-                    state: ProposalState.Pending,
-                });
+            it('Transfer from account with no tokens', async function() {
+                const { myDao, noTokensAccount, owner } = await loadFixture(deployMyDaoFixture);
+
+                await expect(myDao.connect(noTokensAccount).transfer(owner.address, 1))
+                    .to.be.revertedWith('ERC20: transfer amount exceeds balance');
             });
 
-        itParam('Cannot vote twice ${value.name}', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters } = await threeVotersFixture();
-            const proposalId = 0;
+            it('Scenario with transfer 25, 40, 35 tokens', async function() {
+                const { myDao, owner, otherAccounts, totalSupply } = await loadFixture(deployMyDaoFixture);
+                const amounts = [25, 40, 35].map(amount => totalSupply.mul(amount).div(100));
+                const recipients = otherAccounts.slice(0, amounts.length);
 
-            const creator = voters[0];
-            const voter = voters[1];
+                expect(amounts.reduce((a, b) => a.add(b)))
+                    .to.equal(totalSupply, 'Balances sum should be equal to total supply');
 
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-            await myDao.connect(voter).vote(proposalId, vote.value);
+                let totalTransferred = ethers.BigNumber.from(0);
+                for (let i = 0; i < recipients.length; i++) {
+                    const recipient = recipients[i];
+                    const amount = amounts[i];
 
-            await expect(myDao.connect(voter).vote(proposalId, vote.value))
-                .to.be.revertedWith('You already voted this way');
+                    totalTransferred = totalTransferred.add(amount);
+
+                    await checkTransfer(myDao, owner, recipient, amount, totalSupply.sub(totalTransferred));
+                }
+            });
         });
 
-        itParam('Retraction vote ${value.name}', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters } = await threeVotersFixture();
-            const proposalId = 0;
+        describe('Vote', function() {
+            itParam('Successful vote ${value.name}', [yes, no],
+                async function(vote: VoteInfo) {
+                    const { myDao, voters, balances } = await threeVotersFixture();
+                    const proposalId = 0;
+                    const proposalHash = TEST_PROPOSAL_HASH;
+
+                    const creator = voters[0];
+                    const voter = voters[1];
+                    const voterBalance = balances[1];
+
+                    await myDao.connect(creator).createProposal(proposalHash);
+
+                    const ttl = await time.latest() + params.votingPeriod;
+
+                    expect(await myDao.connect(voter).vote(proposalId, vote.value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, vote.value);
+                    expect(await myDao.getVote(proposalId, voter.address))
+                        .to.equal(vote.value, `Voter vote should be ${vote.name}`);
+                    expect(await myDao.getVote(proposalId, creator.address))
+                        .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash,
+                        id: proposalId,
+                        ttl,
+                        yesVotes: vote.value == Vote.Yes ? voterBalance : 0,
+                        noVotes: vote.value == Vote.No ? voterBalance : 0,
+                        state: ProposalState.Pending,
+                    });
+                });
+
+            itParam('Account with no tokens should not be able to vote ${value.name}', [yes, no],
+                async function(vote: VoteInfo) {
+                    const { myDao, owner, noTokensAccount } = await loadFixture(deployMyDaoFixture);
 
-            const creator = voters[0];
-            const voter = voters[1];
+                    await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
+                    await expect(myDao.connect(noTokensAccount).vote(0, vote.value))
+                        .to.be.revertedWith('You must hold tokens to vote or create proposals');
+                });
 
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-            await myDao.connect(voter).vote(proposalId, vote.value);
+            itParam('Proposal should not be expired to vote ${value.name}', [yes, no],
+                async function(vote: VoteInfo) {
+                    const { myDao, voters } = await threeVotersFixture();
+                    const proposalId = 0;
 
-            await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, Vote.Abstain);
-        });
+                    const creator = voters[0];
+                    const voter = voters[1];
 
-        it('Cannot vote ABSTAIN', async function() {
-            const { myDao, voters } = await threeVotersFixture();
-            const proposalId = 0;
+                    await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
 
-            const creator = voters[0];
-            const voter = voters[1];
+                    await time.setNextBlockTimestamp(await time.latest() + params.votingPeriod + 1);
 
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                    await expect(myDao.connect(voter).vote(proposalId, vote.value))
+                        .to.be.revertedWith('Proposal is expired');
+                    expect((await myDao.proposals(proposalId)).ttl).to.lessThan(await time.latest());
+                });
 
-            await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
-                .to.be.revertedWith('You already voted this way');
-        });
+            itParam('Change vote ${value[0].name} to ${value[1].name}', [[yes, no], [no, yes]],
+                async function(votes: VoteInfo[]) {
+                    const { myDao, voters, balances } = await threeVotersFixture();
+                    const proposalId = 0;
+
+                    const creator = voters[0];
+                    const voter = voters[1];
+                    const voterBalance = balances[1];
+
+                    await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+
+                    const ttl = await time.latest() + params.votingPeriod;
+
+                    await myDao.connect(voter).vote(proposalId, votes[0].value);
+
+                    expect(await myDao.connect(voter).vote(proposalId, votes[1].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, votes[1].value);
+                    expect(await myDao.getVote(proposalId, voter.address))
+                        .to.equal(votes[1].value, `Voter vote should be ${votes[1].name}`);
+                    expect(await myDao.getVote(proposalId, creator.address))
+                        .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash: TEST_PROPOSAL_HASH,
+                        id: proposalId,
+                        ttl: ttl,
+                        yesVotes: votes[1].value == Vote.Yes ? voterBalance : 0,
+                        noVotes: votes[1].value == Vote.No ? voterBalance : 0,
+                        state: ProposalState.Pending,
+                    });
+                });
 
-        itParam('Cannot vote ${value.name} on non-existent proposal', [yes, no],
-            async function(vote: VoteInfo) {
+            itParam('Cannot vote twice ${value.name}', [yes, no], async function(vote: VoteInfo) {
                 const { myDao, voters } = await threeVotersFixture();
                 const proposalId = 0;
 
+                const creator = voters[0];
                 const voter = voters[1];
 
+                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                await myDao.connect(voter).vote(proposalId, vote.value);
+
                 await expect(myDao.connect(voter).vote(proposalId, vote.value))
-                    .to.be.revertedWith('Proposal does not exist');
+                    .to.be.revertedWith('You already voted this way');
             });
 
-        itParam('Cannot change vote ${value[0].name} to ${value[1].name} for expired proposal', [[yes, no], [no, yes]],
-            async function(votes: VoteInfo[]) {
+            itParam('Retraction vote ${value.name}', [yes, no], async function(vote: VoteInfo) {
                 const { myDao, voters } = await threeVotersFixture();
                 const proposalId = 0;
 
@@ -393,32 +389,13 @@ describe('MyDao', function() {
                 const voter = voters[1];
 
                 await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter).vote(proposalId, votes[0].value);
-
-                await time.setNextBlockTimestamp(await time.latest() + VOTING_PERIOD + 1);
+                await myDao.connect(voter).vote(proposalId, vote.value);
 
-                await expect(myDao.connect(voter).vote(proposalId, votes[1].value))
-                    .to.be.revertedWith('Proposal is expired');
-                expect((await myDao.proposals(proposalId)).ttl).to.lessThan(await time.latest());
+                await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, Vote.Abstain);
             });
 
-        itParam('Vote ${value.name} when time is TTL', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters } = await threeVotersFixture();
-            const proposalId = 0;
-
-            const creator = voters[0];
-            const voter = voters[1];
-
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-            await time.setNextBlockTimestamp(await time.latest() + VOTING_PERIOD);
-
-            await expect(myDao.connect(voter).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, vote.value);
-            expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
-        });
-
-        itParam('Change vote ${value[0].name} to ${value[1].name} when time is TTL', [[yes, no], [no, yes]],
-            async function(votes: VoteInfo[]) {
+            it('Cannot vote ABSTAIN', async function() {
                 const { myDao, voters } = await threeVotersFixture();
                 const proposalId = 0;
 
@@ -426,364 +403,152 @@ describe('MyDao', function() {
                 const voter = voters[1];
 
                 await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter).vote(proposalId, votes[0].value);
-                await time.setNextBlockTimestamp(await time.latest() + VOTING_PERIOD - 1);
 
-                await expect(myDao.connect(voter).vote(proposalId, votes[1].value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, votes[1].value);
-                expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
+                await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
+                    .to.be.revertedWith('You already voted this way');
             });
 
-        itParam('Retraction vote ${value.name} when time is TTL', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters } = await threeVotersFixture();
-            const proposalId = 0;
+            itParam('Cannot vote ${value.name} on non-existent proposal', [yes, no],
+                async function(vote: VoteInfo) {
+                    const { myDao, voters } = await threeVotersFixture();
+                    const proposalId = 0;
 
-            const creator = voters[0];
-            const voter = voters[1];
+                    const voter = voters[1];
 
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-            await myDao.connect(voter).vote(proposalId, vote.value);
-            await time.setNextBlockTimestamp(await time.latest() + VOTING_PERIOD - 1);
+                    await expect(myDao.connect(voter).vote(proposalId, vote.value))
+                        .to.be.revertedWith('Proposal does not exist');
+                });
 
-            await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, Vote.Abstain);
-            expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
-        });
-    });
+            itParam('Cannot change vote ${value[0].name} to ${value[1].name} for expired proposal', [[yes, no], [no, yes]],
+                async function(votes: VoteInfo[]) {
+                    const { myDao, voters } = await threeVotersFixture();
+                    const proposalId = 0;
 
-    describe('Transfer with voting', function() {
-        itParam('Vote ${value.name} and transfer all tokens to ABSTAIN', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters, balances } = await fourVotersFixture();
-            const proposalId = 0;
+                    const creator = voters[0];
+                    const voter = voters[1];
 
-            const creator = voters[0];
-            const voter = voters[1];
-            const voterBalance = balances[1];
+                    await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                    await myDao.connect(voter).vote(proposalId, votes[0].value);
 
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-            await myDao.connect(voter).vote(proposalId, vote.value);
+                    await time.setNextBlockTimestamp(await time.latest() + params.votingPeriod + 1);
 
-            await expect(myDao.connect(voter).transfer(creator.address, voterBalance))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, Vote.Abstain);
-            expect(await myDao.getVote(proposalId, voter.address))
-                .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-            expect(await myDao.getVote(proposalId, creator.address))
-                .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: 0,
-                noVotes: 0,
-                state: ProposalState.Pending,
-            });
-        });
+                    await expect(myDao.connect(voter).vote(proposalId, votes[1].value))
+                        .to.be.revertedWith('Proposal is expired');
+                    expect((await myDao.proposals(proposalId)).ttl).to.lessThan(await time.latest());
+                });
 
-        itParam('Vote ${value.name} and transfer some tokens to ABSTAIN', [yes, no],
-            async function(vote: VoteInfo) {
-                const { myDao, voters, balances } = await fourVotersFixture();
+            itParam('Vote ${value.name} when time is TTL', [yes, no], async function(vote: VoteInfo) {
+                const { myDao, voters } = await threeVotersFixture();
                 const proposalId = 0;
 
                 const creator = voters[0];
                 const voter = voters[1];
-                const voterBalance = balances[1];
-                const transferAmount = voterBalance.div(2);
 
                 await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter).vote(proposalId, vote.value);
-
-                await expect(myDao.connect(voter).transfer(creator.address, transferAmount))
-                    .to.not.emit(myDao, 'Voted');
-                expect(await myDao.getVote(proposalId, voter.address))
-                    .to.equal(vote.value, 'Voter vote should be the same');
-                expect(await myDao.getVote(proposalId, creator.address))
-                    .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-                checkProposal(await myDao.proposals(proposalId), {
-                    proposalHash: TEST_PROPOSAL_HASH,
-                    id: proposalId,
-                    yesVotes: vote.value === Vote.Yes ? voterBalance.sub(transferAmount) : 0,
-                    noVotes: vote.value === Vote.No ? voterBalance.sub(transferAmount) : 0,
-                    state: ProposalState.Pending,
-                });
-            });
-
-        it('Don\'t vote and transfer all tokens to ABSTAIN', async function() {
-            const { myDao, voters, balances } = await fourVotersFixture();
-            const proposalId = 0;
-
-            const creator = voters[0];
-            const voter = voters[1];
-            const voterBalance = balances[1];
-
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-
-            await expect(myDao.connect(voter).transfer(creator.address, voterBalance))
-                .to.not.emit(myDao, 'Voted');
-            expect(await myDao.getVote(proposalId, voter.address))
-                .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-            expect(await myDao.getVote(proposalId, creator.address))
-                .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: 0,
-                noVotes: 0,
-                state: ProposalState.Pending,
-            });
-        });
-
-        it('Don\'t vote and transfer some tokens to ABSTAIN', async function() {
-            const { myDao, voters, balances } = await fourVotersFixture();
-            const proposalId = 0;
-
-            const creator = voters[0];
-            const voter = voters[1];
-            const voterBalance = balances[1];
-            const transferAmount = voterBalance.div(2);
-
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-
-            await expect(myDao.connect(voter).transfer(creator.address, transferAmount))
-                .to.not.emit(myDao, 'Voted');
-            expect(await myDao.getVote(proposalId, voter.address))
-                .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-            expect(await myDao.getVote(proposalId, creator.address))
-                .to.equal(Vote.Abstain, 'Proposal creator vote should be ABSTAIN');
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: 0,
-                noVotes: 0,
-                state: ProposalState.Pending,
-            });
-        });
-
-        itParam('Don\'t vote and transfer all tokens to ${value.name}', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters, balances } = await fourVotersFixture();
-            const proposalId = 0;
-
-            const creator = voters[0];
-            const voter1 = voters[1];
-            const voter2 = voters[2];
-            const voterBalance1 = balances[1];
-            const voterBalance2 = balances[2];
-
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-
-            await myDao.connect(voter2).vote(proposalId, vote.value);
-
-            await expect(myDao.connect(voter1).transfer(voter2.address, voterBalance1))
-                .to.not.emit(myDao, 'Voted');
-            expect(await myDao.getVote(proposalId, voter1.address))
-                .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-            expect(await myDao.getVote(proposalId, voter2.address))
-                .to.equal(vote.value, 'Voter vote should be the same');
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: vote.value === Vote.Yes ? voterBalance2.add(voterBalance1) : 0,
-                noVotes: vote.value === Vote.No ? voterBalance2.add(voterBalance1) : 0,
-                state: ProposalState.Pending,
-            });
-        });
+                await time.setNextBlockTimestamp(await time.latest() + params.votingPeriod);
 
-        itParam('Don\'t vote and transfer some tokens to ${value.name}', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters, balances } = await fourVotersFixture();
-            const proposalId = 0;
-
-            const creator = voters[0];
-            const voter1 = voters[1];
-            const voter2 = voters[2];
-            const voterBalance1 = balances[1];
-            const voterBalance2 = balances[2];
-            const transferAmount = voterBalance1.div(2);
-
-            await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-
-            await myDao.connect(voter2).vote(proposalId, vote.value);
-
-            await expect(myDao.connect(voter1).transfer(voter2.address, transferAmount))
-                .to.not.emit(myDao, 'Voted');
-            expect(await myDao.getVote(proposalId, voter1.address))
-                .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-            expect(await myDao.getVote(proposalId, voter2.address))
-                .to.equal(vote.value, 'Voter vote should be the same');
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: vote.value === Vote.Yes ? voterBalance2.add(transferAmount) : 0,
-                noVotes: vote.value === Vote.No ? voterBalance2.add(transferAmount) : 0,
-                state: ProposalState.Pending,
+                await expect(myDao.connect(voter).vote(proposalId, vote.value))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, vote.value);
+                expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
             });
-        });
-
-        itParam('Vote ${value[0].name} and transfer all tokens to ${value[1].name}',
-            [[yes, no], [yes, yes], [no, no], [no, yes]],
-            async function(votes: [VoteInfo, VoteInfo]) {
-                const { myDao, voters, balances } = await fourVotersFixture();
-                const proposalId = 0;
 
-                const creator = voters[0];
-                const voter1 = voters[1];
-                const voter2 = voters[2];
-                const voterBalance1 = balances[1];
-                const voterBalance2 = balances[2];
-
-                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter1).vote(proposalId, votes[0].value);
-                await myDao.connect(voter2).vote(proposalId, votes[1].value);
-
-                await expect(myDao.connect(voter1).transfer(voter2.address, voterBalance1))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter1.address, Vote.Abstain);
-                expect(await myDao.getVote(proposalId, voter1.address))
-                    .to.equal(Vote.Abstain, 'Voter vote should be ABSTAIN');
-                expect(await myDao.getVote(proposalId, voter2.address))
-                    .to.equal(votes[1].value, 'Voter vote should be the same');
-                checkProposal(await myDao.proposals(proposalId), {
-                    proposalHash: TEST_PROPOSAL_HASH,
-                    id: proposalId,
-                    yesVotes: votes[1].value === Vote.Yes ? voterBalance2.add(voterBalance1) : 0,
-                    noVotes: votes[1].value === Vote.No ? voterBalance2.add(voterBalance1) : 0,
-                    state: ProposalState.Pending,
-                });
-            });
+            itParam('Change vote ${value[0].name} to ${value[1].name} when time is TTL', [[yes, no], [no, yes]],
+                async function(votes: VoteInfo[]) {
+                    const { myDao, voters } = await threeVotersFixture();
+                    const proposalId = 0;
 
-        itParam('Vote ${value[0].name} and transfer some tokens to ${value[1].name}',
-            [[yes, no], [yes, yes], [no, no], [no, yes]],
-            async function(votes: [VoteInfo, VoteInfo]) {
-                const { myDao, voters, balances } = await fourVotersFixture();
-                const proposalId = 0;
+                    const creator = voters[0];
+                    const voter = voters[1];
 
-                const creator = voters[0];
-                const voter1 = voters[1];
-                const voter2 = voters[2];
-                const voterBalance1 = balances[1];
-                const voterBalance2 = balances[2];
-                const transferAmount = voterBalance1.div(2);
+                    await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                    await myDao.connect(voter).vote(proposalId, votes[0].value);
+                    await time.setNextBlockTimestamp(await time.latest() + params.votingPeriod - 1);
 
-                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter1).vote(proposalId, votes[0].value);
-                await myDao.connect(voter2).vote(proposalId, votes[1].value);
-
-                await expect(myDao.connect(voter1).transfer(voter2.address, transferAmount))
-                    .to.not.emit(myDao, 'Voted');
-                expect(await myDao.getVote(proposalId, voter1.address))
-                    .to.equal(votes[0].value, 'Voter vote should be the same');
-                expect(await myDao.getVote(proposalId, voter2.address))
-                    .to.equal(votes[1].value, 'Voter vote should be the same');
-
-                const yesVotes = (votes[0].value === Vote.Yes ? voterBalance1.sub(transferAmount) : BigNumber.from(0))
-                    .add((votes[1].value === Vote.Yes ? voterBalance2.add(transferAmount) : 0));
-                const noVotes = (votes[0].value === Vote.No ? voterBalance1.sub(transferAmount) : BigNumber.from(0))
-                    .add((votes[1].value === Vote.No ? voterBalance2.add(transferAmount) : 0));
-                checkProposal(await myDao.proposals(proposalId), {
-                    proposalHash: TEST_PROPOSAL_HASH,
-                    id: proposalId,
-                    yesVotes,
-                    noVotes,
-                    state: ProposalState.Pending,
+                    await expect(myDao.connect(voter).vote(proposalId, votes[1].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, votes[1].value);
+                    expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
                 });
-            });
 
-        itParam('Vote shouldn\'t be increase by transfer if proposal is expired', [yes, no],
-            async function(vote: VoteInfo) {
-                const { myDao, voters, balances } = await fourVotersFixture();
+            itParam('Retraction vote ${value.name} when time is TTL', [yes, no], async function(vote: VoteInfo) {
+                const { myDao, voters } = await threeVotersFixture();
                 const proposalId = 0;
 
                 const creator = voters[0];
-                const voter1 = voters[1];
-                const voter2 = voters[2];
-                const voterBalance1 = balances[1];
-                const voterBalance2 = balances[2];
+                const voter = voters[1];
 
                 await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter1).vote(proposalId, vote.value);
-
-                await time.increase(VOTING_PERIOD);
-
-                checkProposal(await myDao.proposals(proposalId), {
-                    yesVotes: vote.value === Vote.Yes ? voterBalance1 : 0,
-                    noVotes: vote.value === Vote.No ? voterBalance1 : 0,
-                    state: ProposalState.Pending,
-                });
+                await myDao.connect(voter).vote(proposalId, vote.value);
+                await time.setNextBlockTimestamp(await time.latest() + params.votingPeriod - 1);
 
-                await expect(myDao.connect(voter2).transfer(voter1.address, voterBalance2))
-                    .to.not.emit(myDao, vote.successEvent);
+                await expect(myDao.connect(voter).vote(proposalId, Vote.Abstain))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, voter.address, Vote.Abstain);
+                expect((await myDao.proposals(proposalId)).ttl).to.equal(await time.latest());
+            });
+        });
 
-                checkProposal(await myDao.proposals(proposalId), {
-                    yesVotes: vote.value === Vote.Yes ? voterBalance1 : 0,
-                    noVotes: vote.value === Vote.No ? voterBalance1 : 0,
-                    state: ProposalState.Pending,
+        describe('Transfer with voting', function() {
+            itParam('Vote ${value[0].name}, transfer all tokens and recipient votes ${value[1].name}',
+                [[yes, no], [yes, yes], [no, no], [no, yes]],
+                async function(votes: [VoteInfo, VoteInfo]) {
+                    const { myDao, voters, balances } = await fourVotersFixture();
+                    const proposalId = 0;
+
+                    const creator = voters[0];
+                    const voter1 = voters[1];
+                    const voter2 = voters[2];
+                    const voterBalance1 = balances[1];
+                    const voterBalance2 = balances[2];
+
+                    await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+                    await myDao.connect(voter1).vote(proposalId, votes[0].value);
+                    await myDao.connect(voter1).transfer(voter2.address, voterBalance1);
+
+                    // The moved tokens are counted once, by their holder at the snapshot
+                    await expect(myDao.connect(voter2).vote(proposalId, votes[1].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voter2.address, votes[1].value);
+
+                    const yesVotes = (votes[0].value === Vote.Yes ? voterBalance1 : BigNumber.from(0))
+                        .add(votes[1].value === Vote.Yes ? voterBalance2 : 0);
+                    const noVotes = (votes[0].value === Vote.No ? voterBalance1 : BigNumber.from(0))
+                        .add(votes[1].value === Vote.No ? voterBalance2 : 0);
+                    await checkProposal(myDao, proposalId, { yesVotes, noVotes, state: ProposalState.Pending });
                 });
-            });
 
-        itParam('Vote shouldn\'t decrease by transfer if proposal is expired', [yes, no],
-            async function(vote: VoteInfo) {
+            it('Transfers before the proposal block are in the snapshot', async function() {
                 const { myDao, voters, balances } = await fourVotersFixture();
                 const proposalId = 0;
 
-                const creator = voters[0];
-                const voter1 = voters[1];
-                const voter2 = voters[2];
-                const voterBalance1 = balances[1];
-
-                await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(voter1).vote(proposalId, vote.value);
-
-                await time.increase(VOTING_PERIOD);
-
-                checkProposal(await myDao.proposals(proposalId), {
-                    yesVotes: vote.value === Vote.Yes ? voterBalance1 : 0,
-                    noVotes: vote.value === Vote.No ? voterBalance1 : 0,
-                    state: ProposalState.Pending,
-                });
-
-                await expect(myDao.connect(voter1).transfer(voter2.address, voterBalance1))
-                    .to.not.emit(myDao, 'Voted');
+                await myDao.connect(voters[1]).transfer(voters[2].address, balances[1]);
+                await myDao.connect(voters[0]).createProposal(TEST_PROPOSAL_HASH);
+                const { snapshot } = await myDao.proposals(proposalId);
 
-                checkProposal(await myDao.proposals(proposalId), {
-                    yesVotes: vote.value === Vote.Yes ? voterBalance1 : 0,
-                    noVotes: vote.value === Vote.No ? voterBalance1 : 0,
-                    state: ProposalState.Pending,
-                });
+                expect(snapshot).to.equal(await ethers.provider.getBlockNumber() - 1);
+                expect(await myDao.getPastBalance(voters[2].address, snapshot)).to.equal(balances[1].add(balances[2]));
+                expect(await myDao.getVotingWeight(proposalId, voters[1].address)).to.equal(0);
+                expect(await myDao.getVotingWeight(proposalId, voters[2].address))
+                    .to.equal(balances[1].add(balances[2]));
             });
-    });
-
-    describe('Update proposal state', function() {
-        itParam('One voter ${value.name} votes', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
-            const proposalId = 0;
 
-            await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
+            it('Cannot get balance of the current block', async function() {
+                const { myDao, voters } = await fourVotersFixture();
 
-            await expect(myDao.connect(owner).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, owner.address, vote.value)
-                .to.emit(myDao, vote.successEvent).withArgs(proposalId, TEST_PROPOSAL_HASH);
-
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash: TEST_PROPOSAL_HASH,
-                id: proposalId,
-                yesVotes: vote.value === Vote.Yes ? totalSupply : 0,
-                noVotes: vote.value === Vote.No ? totalSupply : 0,
-                state: vote.successState,
+                await expect(myDao.getPastBalance(voters[0].address, await ethers.provider.getBlockNumber() + 1))
+                    .to.be.revertedWith('Checkpoints: block not yet mined');
             });
         });
 
-        itParam('${value.successEvent} of third proposal with two pendings', [yes, no],
-            async function(vote: VoteInfo) {
+        describe('Update proposal state', function() {
+            itParam('One voter ${value.name} votes', [yes, no], async function(vote: VoteInfo) {
                 const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
-                const proposalId = 2;
+                const proposalId = 0;
 
-                await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
-                await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
                 await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
 
                 await expect(myDao.connect(owner).vote(proposalId, vote.value))
                     .to.emit(myDao, 'Voted').withArgs(proposalId, owner.address, vote.value)
                     .to.emit(myDao, vote.successEvent).withArgs(proposalId, TEST_PROPOSAL_HASH);
 
-                checkProposal(await myDao.proposals(0), { state: ProposalState.Pending });
-                checkProposal(await myDao.proposals(1), { state: ProposalState.Pending });
-                checkProposal(await myDao.proposals(proposalId), {
+                await checkProposal(myDao, proposalId, {
                     proposalHash: TEST_PROPOSAL_HASH,
                     id: proposalId,
                     yesVotes: vote.value === Vote.Yes ? totalSupply : 0,
@@ -792,173 +557,1834 @@ describe('MyDao', function() {
                 });
             });
 
-        itParam('${value.successEvent} with 2 ${value.name} votes of 3 voters', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters, balances } = await threeVotersFixture();
-
-            const proposalHash = TEST_PROPOSAL_HASH;
-            const proposalId = await myDao.proposalsCount();
-
-            await myDao.connect(voters[0]).createProposal(proposalHash);
-            const ttl = await time.latest() + VOTING_PERIOD;
-
-            // Vote 0
-            await expect(myDao.connect(voters[0]).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voters[0].address, vote.value);
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash,
-                id: proposalId,
-                ttl: ttl,
-                yesVotes: vote.value == Vote.Yes ? balances[0] : 0,
-                noVotes: vote.value == Vote.No ? balances[0] : 0,
-                state: ProposalState.Pending,
-            });
-
-            // Vote 1
-            await expect(myDao.connect(voters[1]).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voters[1].address, vote.value)
-                .to.emit(myDao, vote.successEvent).withArgs(proposalId, proposalHash);
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash,
-                id: proposalId,
-                ttl: ttl,
-                yesVotes: vote.value == Vote.Yes ? balances[0].add(balances[1]) : 0,
-                noVotes: vote.value == Vote.No ? balances[0].add(balances[1]) : 0,
-                state: vote.successState,
-            });
-        });
+            itParam('${value.successEvent} of third proposal with two pendings', [yes, no],
+                async function(vote: VoteInfo) {
+                    const { myDao, owner, totalSupply } = await loadFixture(deployMyDaoFixture);
+                    const proposalId = 2;
+
+                    await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
+                    await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
+                    await myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH);
+
+                    await expect(myDao.connect(owner).vote(proposalId, vote.value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, owner.address, vote.value)
+                        .to.emit(myDao, vote.successEvent).withArgs(proposalId, TEST_PROPOSAL_HASH);
+
+                    await checkProposal(myDao, 0, { state: ProposalState.Pending });
+                    await checkProposal(myDao, 1, { state: ProposalState.Pending });
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash: TEST_PROPOSAL_HASH,
+                        id: proposalId,
+                        yesVotes: vote.value === Vote.Yes ? totalSupply : 0,
+                        noVotes: vote.value === Vote.No ? totalSupply : 0,
+                        state: vote.successState,
+                    });
+                });
 
-        itParam('${value[0].successEvent} with 2 ${value[0].name} and 1 ${value[1].name} votes of 3 voters',
-            [[yes, no], [no, yes]],
-            async function(vote: VoteInfo[]) {
+            itParam('${value.successEvent} with 2 ${value.name} votes of 3 voters', [yes, no], async function(vote: VoteInfo) {
                 const { myDao, voters, balances } = await threeVotersFixture();
 
                 const proposalHash = TEST_PROPOSAL_HASH;
                 const proposalId = await myDao.proposalsCount();
 
                 await myDao.connect(voters[0]).createProposal(proposalHash);
-                const ttl = await time.latest() + VOTING_PERIOD;
+                const ttl = await time.latest() + params.votingPeriod;
 
                 // Vote 0
-                await expect(myDao.connect(voters[0]).vote(proposalId, vote[0].value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voters[0].address, vote[0].value);
-                checkProposal(await myDao.proposals(proposalId), {
+                await expect(myDao.connect(voters[0]).vote(proposalId, vote.value))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, voters[0].address, vote.value);
+                await checkProposal(myDao, proposalId, {
                     proposalHash,
                     id: proposalId,
                     ttl: ttl,
-                    yesVotes: vote[0].value == Vote.Yes ? balances[0] : 0,
-                    noVotes: vote[0].value == Vote.No ? balances[0] : 0,
+                    yesVotes: vote.value == Vote.Yes ? balances[0] : 0,
+                    noVotes: vote.value == Vote.No ? balances[0] : 0,
                     state: ProposalState.Pending,
                 });
 
                 // Vote 1
-                await expect(myDao.connect(voters[1]).vote(proposalId, vote[1].value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voters[1].address, vote[1].value);
-                checkProposal(await myDao.proposals(proposalId), {
+                await expect(myDao.connect(voters[1]).vote(proposalId, vote.value))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, voters[1].address, vote.value)
+                    .to.emit(myDao, vote.successEvent).withArgs(proposalId, proposalHash);
+                await checkProposal(myDao, proposalId, {
                     proposalHash,
                     id: proposalId,
                     ttl: ttl,
-                    yesVotes: vote[0].value == Vote.Yes ? balances[0] : balances[1],
-                    noVotes: vote[0].value == Vote.No ? balances[0] : balances[1],
-                    state: ProposalState.Pending,
+                    yesVotes: vote.value == Vote.Yes ? balances[0].add(balances[1]) : 0,
+                    noVotes: vote.value == Vote.No ? balances[0].add(balances[1]) : 0,
+                    state: vote.successState,
                 });
+            });
 
-                // Vote 2
-                await expect(myDao.connect(voters[2]).vote(proposalId, vote[0].value))
-                    .to.emit(myDao, 'Voted').withArgs(proposalId, voters[2].address, vote[0].value)
-                    .to.emit(myDao, vote[0].successEvent).withArgs(proposalId, proposalHash);
-                checkProposal(await myDao.proposals(proposalId), {
-                    proposalHash,
-                    id: proposalId,
-                    ttl: ttl,
-                    yesVotes: vote[0].value == Vote.Yes ? balances[0].add(balances[2]) : balances[1],
-                    noVotes: vote[0].value == Vote.No ? balances[0].add(balances[2]) : balances[1],
-                    state: vote[0].successState,
+            itParam('${value[0].successEvent} with 2 ${value[0].name} and 1 ${value[1].name} votes of 3 voters',
+                [[yes, no], [no, yes]],
+                async function(vote: VoteInfo[]) {
+                    const { myDao, voters, balances } = await threeVotersFixture();
+
+                    const proposalHash = TEST_PROPOSAL_HASH;
+                    const proposalId = await myDao.proposalsCount();
+
+                    await myDao.connect(voters[0]).createProposal(proposalHash);
+                    const ttl = await time.latest() + params.votingPeriod;
+
+                    // Vote 0
+                    await expect(myDao.connect(voters[0]).vote(proposalId, vote[0].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voters[0].address, vote[0].value);
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash,
+                        id: proposalId,
+                        ttl: ttl,
+                        yesVotes: vote[0].value == Vote.Yes ? balances[0] : 0,
+                        noVotes: vote[0].value == Vote.No ? balances[0] : 0,
+                        state: ProposalState.Pending,
+                    });
+
+                    // Vote 1
+                    await expect(myDao.connect(voters[1]).vote(proposalId, vote[1].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voters[1].address, vote[1].value);
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash,
+                        id: proposalId,
+                        ttl: ttl,
+                        yesVotes: vote[0].value == Vote.Yes ? balances[0] : balances[1],
+                        noVotes: vote[0].value == Vote.No ? balances[0] : balances[1],
+                        state: ProposalState.Pending,
+                    });
+
+                    // Vote 2
+                    await expect(myDao.connect(voters[2]).vote(proposalId, vote[0].value))
+                        .to.emit(myDao, 'Voted').withArgs(proposalId, voters[2].address, vote[0].value)
+                        .to.emit(myDao, vote[0].successEvent).withArgs(proposalId, proposalHash);
+                    await checkProposal(myDao, proposalId, {
+                        proposalHash,
+                        id: proposalId,
+                        ttl: ttl,
+                        yesVotes: vote[0].value == Vote.Yes ? balances[0].add(balances[2]) : balances[1],
+                        noVotes: vote[0].value == Vote.No ? balances[0].add(balances[2]) : balances[1],
+                        state: vote[0].successState,
+                    });
                 });
+
+            itParam('${value.successEvent} by vote with minimum balance', [yes, no], async function(vote: VoteInfo) {
+                const { myDao, minimumBalanceAccount, halfSupplyAccount } = await minimumBalanceFixture();
+
+                const proposalHash = TEST_PROPOSAL_HASH;
+                const proposalId = 0;
+
+                await myDao.connect(halfSupplyAccount).createProposal(proposalHash);
+
+                await expect(myDao.connect(halfSupplyAccount).vote(proposalId, vote.value))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, halfSupplyAccount.address, vote.value)
+                    .to.not.emit(myDao, vote.successEvent);
+
+                await checkProposal(myDao, proposalId, { state: ProposalState.Pending });
+
+                await expect(myDao.connect(minimumBalanceAccount).vote(proposalId, vote.value))
+                    .to.emit(myDao, 'Voted').withArgs(proposalId, minimumBalanceAccount.address, vote.value)
+                    .to.emit(myDao, vote.successEvent).withArgs(proposalId, proposalHash);
+
+                await checkProposal(myDao, proposalId, { state: vote.successState });
             });
 
-        itParam('${value.successEvent} by transfer tokens', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, voters, balances } = await threeVotersFixture();
-
-            const proposalHash = TEST_PROPOSAL_HASH;
-            const proposalId = await myDao.proposalsCount();
-
-            await myDao.connect(voters[0]).createProposal(proposalHash);
-            const ttl = await time.latest() + VOTING_PERIOD;
-
-            // Vote 0
-            await expect(myDao.connect(voters[0]).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, voters[0].address, vote.value);
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash,
-                id: proposalId,
-                ttl: ttl,
-                yesVotes: vote.value == Vote.Yes ? balances[0] : 0,
-                noVotes: vote.value == Vote.No ? balances[0] : 0,
-                state: ProposalState.Pending,
+            it('Replace expired proposal', async function() {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+                const maxProposals = params.maxProposals;
+
+                await myDao.connect(owner).createProposal(createProposalHash(0));
+
+                await time.increase(params.votingPeriod + 1);
+
+                // Expiry is derived from the time, the stored state changes only when the slot is needed
+                await checkProposal(myDao, 0, { state: ProposalState.Expired });
+                expect((await myDao.proposals(0)).state).to.equal(ProposalState.Pending);
+
+                for (let i = 1; i < maxProposals; i++) {
+                    await expect(myDao.connect(owner).createProposal(createProposalHash(i)))
+                        .to.emit(myDao, 'ProposalCreated').withArgs(i, createProposalHash(i), owner.address)
+                        .to.not.emit(myDao, 'ProposalExpired');
+                    expect((await myDao.proposals(0)).state).to.equal(ProposalState.Pending);
+                }
+
+                await expect(myDao.connect(owner).createProposal(createProposalHash(maxProposals)))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(maxProposals, createProposalHash(maxProposals), owner.address)
+                    .to.emit(myDao, 'ProposalExpired').withArgs(0, createProposalHash(0));
+                await checkProposal(myDao, 0, { state: ProposalState.Expired });
             });
 
-            // Transfer tokens
-            await expect(myDao.connect(voters[1]).transfer(voters[0].address, balances[1]))
-                .to.emit(myDao, vote.successEvent).withArgs(proposalId, proposalHash);
-            checkProposal(await myDao.proposals(proposalId), {
-                proposalHash,
-                id: proposalId,
-                ttl: ttl,
-                yesVotes: vote.value == Vote.Yes ? balances[0].add(balances[1]) : 0,
-                noVotes: vote.value == Vote.No ? balances[0].add(balances[1]) : 0,
-                state: vote.successState,
+            itParam('${value.successEvent} proposal frees its slot', [yes, no], async function(vote: VoteInfo) {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+                const maxProposals = params.maxProposals;
+
+                for (let i = 0; i < maxProposals; i++) {
+                    await myDao.connect(owner).createProposal(createProposalHash(i));
+                }
+
+                await expect(myDao.connect(owner).vote(1, vote.value))
+                    .to.emit(myDao, vote.successEvent).withArgs(1, createProposalHash(1));
+                await expect(myDao.connect(owner).createProposal(createProposalHash(maxProposals)))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(maxProposals, createProposalHash(maxProposals), owner.address);
+
+                const expected = [0, ...Array.from({ length: maxProposals - 1 }, (_, i) => i + 2)];
+                expect(await getActiveProposals(myDao)).to.deep.equal(expected);
+                await expect(myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH))
+                    .to.be.revertedWith('Max number of pending proposals reached');
             });
-        });
 
-        itParam('${value.successEvent} by vote with minimum balance', [yes, no], async function(vote: VoteInfo) {
-            const { myDao, minimumBalanceAccount, halfSupplyAccount } = await minimumBalanceFixture();
+            itParam('${value.successEvent} newest proposal frees its slot', [yes, no], async function(vote: VoteInfo) {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+                const maxProposals = params.maxProposals;
+                const newest = maxProposals - 1;
+
+                for (let i = 0; i < maxProposals; i++) {
+                    await myDao.connect(owner).createProposal(createProposalHash(i));
+                }
+
+                await expect(myDao.connect(owner).vote(newest, vote.value))
+                    .to.emit(myDao, vote.successEvent).withArgs(newest, createProposalHash(newest));
+                await expect(myDao.connect(owner).createProposal(createProposalHash(maxProposals)))
+                    .to.emit(myDao, 'ProposalCreated').withArgs(maxProposals, createProposalHash(maxProposals), owner.address)
+                    .to.not.emit(myDao, 'ProposalExpired');
+
+                const expected = [...Array.from({ length: maxProposals - 1 }, (_, i) => i), maxProposals];
+                expect(await getActiveProposals(myDao)).to.deep.equal(expected);
+                await expect(myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH))
+                    .to.be.revertedWith('Max number of pending proposals reached');
+            });
 
-            const proposalHash = TEST_PROPOSAL_HASH;
-            const proposalId = 0;
+            it('Replace several expired proposals', async function() {
+                const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+                const maxProposals = params.maxProposals;
 
-            await myDao.connect(halfSupplyAccount).createProposal(proposalHash);
+                for (let i = 0; i < maxProposals; i++) {
+                    await myDao.connect(owner).createProposal(createProposalHash(i));
+                }
 
-            await expect(myDao.connect(halfSupplyAccount).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, halfSupplyAccount.address, vote.value)
-                .to.not.emit(myDao, vote.successEvent);
+                await time.increase(params.votingPeriod + 1);
 
-            checkProposal(await myDao.proposals(proposalId), { state: ProposalState.Pending });
+                const tx = myDao.connect(owner).createProposal(createProposalHash(maxProposals));
+                for (let i = 0; i < maxProposals; i++) {
+                    await expect(tx).to.emit(myDao, 'ProposalExpired').withArgs(i, createProposalHash(i));
+                }
+                await expect(tx)
+                    .to.emit(myDao, 'ProposalCreated').withArgs(maxProposals, createProposalHash(maxProposals), owner.address);
+                expect(await getActiveProposals(myDao)).to.deep.equal([maxProposals]);
 
-            await expect(myDao.connect(minimumBalanceAccount).vote(proposalId, vote.value))
-                .to.emit(myDao, 'Voted').withArgs(proposalId, minimumBalanceAccount.address, vote.value)
-                .to.emit(myDao, vote.successEvent).withArgs(proposalId, proposalHash);
+                for (let i = maxProposals + 1; i < 2 * maxProposals; i++) {
+                    await expect(myDao.connect(owner).createProposal(createProposalHash(i)))
+                        .to.emit(myDao, 'ProposalCreated').withArgs(i, createProposalHash(i), owner.address)
+                        .to.not.emit(myDao, 'ProposalExpired');
+                }
 
-            checkProposal(await myDao.proposals(proposalId), { state: vote.successState });
+                await expect(myDao.connect(owner).createProposal(TEST_PROPOSAL_HASH))
+                    .to.be.revertedWith('Max number of pending proposals reached');
+            });
         });
+    });
+}
+
+describe('MyDao active proposals', function() {
+    const ROUNDS = 70;
+
+    async function deployActiveProposalsFixture() {
+        const [owner] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        return { myDao, owner };
+    }
+
+    it('Resolved proposals free their slots over hundreds of proposals', async function() {
+        const { myDao, owner } = await loadFixture(deployActiveProposalsFixture);
+        const { maxProposals, votingPeriod } = DEFAULT_GOVERNANCE_PARAMS;
+
+        // Every round accepts, rejects and lets expire one proposal each
+        for (let round = 0; round < ROUNDS; round++) {
+            const first = round * maxProposals;
+            const expired = first - 1;
+
+            for (let id = first; id < first + maxProposals; id++) {
+                const tx = myDao.connect(owner).createProposal(createProposalHash(id));
+                await expect(tx).to.emit(myDao, 'ProposalCreated').withArgs(id, createProposalHash(id), owner.address);
+
+                // The previous round proposal stays active until its slot is needed
+                if (expired >= 0 && id === first + maxProposals - 1) {
+                    await expect(tx).to.emit(myDao, 'ProposalExpired').withArgs(expired, createProposalHash(expired));
+                } else {
+                    await expect(tx).to.not.emit(myDao, 'ProposalExpired');
+                }
+            }
+            expect(await getActiveProposals(myDao)).to.deep.equal([first, first + 1, first + 2]);
+
+            await expect(myDao.connect(owner).vote(first, Vote.Yes)).to.emit(myDao, 'ProposalAccepted');
+            await expect(myDao.connect(owner).vote(first + 1, Vote.No)).to.emit(myDao, 'ProposalRejected');
+            expect(await getActiveProposals(myDao)).to.deep.equal([first + 2]);
+            expect(await myDao.activeProposalsCount()).to.equal(1);
 
-        it('Replace expired proposal', async function() {
-            const { myDao, owner } = await loadFixture(deployMyDaoFixture);
+            await time.increase(votingPeriod + 1);
+        }
 
-            const proposalHash0 = getProposalHash('Proposal 0');
+        expect(await myDao.proposalsCount()).to.equal(ROUNDS * maxProposals);
+        await checkProposal(myDao, ROUNDS * maxProposals - 1, { state: ProposalState.Expired });
+    });
 
-            await myDao.connect(owner).createProposal(proposalHash0);
+    it('Active proposals are listed in creation order', async function() {
+        const { myDao, owner } = await loadFixture(deployActiveProposalsFixture);
 
-            await time.increase(VOTING_PERIOD + 1);
+        expect(await getActiveProposals(myDao)).to.deep.equal([]);
 
-            checkProposal(await myDao.proposals(0), { state: ProposalState.Pending });
+        for (let i = 0; i < 3; i++) {
+            await myDao.connect(owner).createProposal(createProposalHash(i));
+        }
+        await myDao.connect(owner).vote(1, Vote.Yes);
+        await myDao.connect(owner).createProposal(createProposalHash(3));
+        await myDao.connect(owner).vote(0, Vote.No);
 
-            const proposalHash1 = getProposalHash('Proposal 1');
-            await expect(myDao.connect(owner).createProposal(proposalHash1))
-                .to.emit(myDao, 'ProposalCreated').withArgs(1, proposalHash1, owner.address)
-                .to.not.emit(myDao, 'ProposalExpired');
-            checkProposal(await myDao.proposals(0), { state: ProposalState.Pending });
+        expect(await getActiveProposals(myDao)).to.deep.equal([2, 3]);
+        expect(await myDao.activeProposalsCount()).to.equal(2);
+    });
+});
 
-            const proposalHash2 = getProposalHash('Proposal 2');
-            await expect(myDao.connect(owner).createProposal(proposalHash2))
-                .to.emit(myDao, 'ProposalCreated').withArgs(2, proposalHash2, owner.address)
-                .to.not.emit(myDao, 'ProposalExpired');
-            checkProposal(await myDao.proposals(0), { state: ProposalState.Pending });
+describe('MyDao governance parameters', function() {
+    async function deployWithThresholdFixture() {
+        const [owner, ...voters] = await ethers.getSigners();
+        const params = { ...DEFAULT_GOVERNANCE_PARAMS, thresholdPercent: 60 };
+        const myDao = await deployMyDao(hre, params);
 
-            const proposalHash3 = getProposalHash('Proposal 3');
-            await expect(myDao.connect(owner).createProposal(proposalHash3))
-                .to.emit(myDao, 'ProposalCreated').withArgs(3, proposalHash3, owner.address)
-                .to.emit(myDao, 'ProposalExpired').withArgs(0, proposalHash0);
-            checkProposal(await myDao.proposals(0), { state: ProposalState.Expired });
-        });
+        const balances = [35, 25, 40].map((x) => params.initialSupply.mul(x).div(100));
+        for (let i = 0; i < balances.length; i++) {
+            await myDao.transfer(voters[i].address, balances[i]);
+        }
+
+        return { myDao, owner, voters: voters.slice(0, balances.length), params };
+    }
+
+    it('Should expose the deployment parameters', async function() {
+        const params = {
+            maxProposals: 7,
+            votingPeriod: 2 * DAY,
+            initialSupply: parseTokens(500),
+            thresholdPercent: 75,
+            decisionRule: DecisionRule.Supermajority,
+            quorumPercent: 40,
+            timelockDelay: DAY,
+            guardian: (await ethers.getSigners())[1].address,
+            proposalThreshold: parseTokens(5),
+            proposalDeposit: parseTokens(2),
+        };
+        const myDao = await deployMyDao(hre, params);
+
+        expect(await myDao.maxProposals()).to.equal(params.maxProposals);
+        expect(await myDao.votingPeriod()).to.equal(params.votingPeriod);
+        expect(await myDao.initialSupply()).to.equal(params.initialSupply);
+        expect(await myDao.thresholdPercent()).to.equal(params.thresholdPercent);
+        expect(await myDao.decisionRule()).to.equal(params.decisionRule);
+        expect(await myDao.quorumPercent()).to.equal(params.quorumPercent);
+        expect(await myDao.timelockDelay()).to.equal(params.timelockDelay);
+        expect(await myDao.guardian()).to.equal(params.guardian);
+        expect(await myDao.proposalThreshold()).to.equal(params.proposalThreshold);
+        expect(await myDao.proposalDeposit()).to.equal(params.proposalDeposit);
+        expect(await new MyDaoClient(myDao).getGovernanceParams()).to.deep.equal(params);
+    });
+
+    itParam('${value.successEvent} only above the threshold', [yes, no], async function(vote: VoteInfo) {
+        const { myDao, voters } = await loadFixture(deployWithThresholdFixture);
+
+        await myDao.connect(voters[0]).createProposal(TEST_PROPOSAL_HASH);
+
+        // 35% + 25% is exactly the 60% threshold, which is not enough
+        await myDao.connect(voters[0]).vote(0, vote.value);
+        await expect(myDao.connect(voters[1]).vote(0, vote.value))
+            .to.not.emit(myDao, vote.successEvent);
+        await checkProposal(myDao, 0, { state: ProposalState.Pending });
+
+        await expect(myDao.connect(voters[2]).vote(0, vote.value))
+            .to.emit(myDao, vote.successEvent).withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, { state: vote.successState });
+    });
+
+    itParam('Should reject ${value[0]}', [
+        ['zero max proposals', { maxProposals: 0 }, 'Max proposals must be positive'],
+        ['zero voting period', { votingPeriod: 0 }, 'Voting period must be positive'],
+        ['zero initial supply', { initialSupply: BigNumber.from(0) }, 'Initial supply must be positive'],
+        ['threshold below 50%', { thresholdPercent: 49 }, 'Threshold must be in [50, 100)'],
+        ['threshold of 100%', { thresholdPercent: 100 }, 'Threshold must be in [50, 100)'],
+        ['quorum above threshold', { thresholdPercent: 60, quorumPercent: 61 }, 'Quorum must not exceed threshold'],
+        [
+            'proposal threshold above supply',
+            { proposalThreshold: parseTokens(101) },
+            'Proposal threshold exceeds initial supply',
+        ],
+        [
+            'proposal deposit above supply',
+            { proposalDeposit: parseTokens(101) },
+            'Proposal deposit exceeds initial supply',
+        ],
+    ], async function([, params, message]: [string, Partial<GovernanceParams>, string]) {
+        await expect(deployMyDao(hre, params)).to.be.revertedWith(message);
+    });
+});
+
+describe('MyDao decision rules', function() {
+    const QUORUM_PERCENT = 30;
+
+    function createRuleFixture(params: Partial<GovernanceParams>, balances: BigNumber[]) {
+        return async function ruleFixture() {
+            const [owner, ...voters] = await ethers.getSigners();
+            const myDao = await deployMyDao(hre, params);
+
+            for (let i = 0; i < balances.length; i++) {
+                await myDao.transfer(voters[i].address, balances[i]);
+            }
+
+            await myDao.connect(voters[0]).createProposal(TEST_PROPOSAL_HASH);
+            const { ttl } = await myDao.proposals(0);
+
+            return { myDao, owner, voters: voters.slice(0, balances.length), ttl: ttl.toNumber() };
+        };
+    }
+
+    const absoluteMajorityFixture = createRuleFixture({}, [parseTokens(10), parseTokens(10)]);
+    // Both voters together have exactly the quorum
+    const quorumFixture = createRuleFixture(
+        { decisionRule: DecisionRule.QuorumMajority, quorumPercent: QUORUM_PERCENT },
+        [parseTokens(QUORUM_PERCENT).sub(1), BigNumber.from(1)],
+    );
+    const tieFixture = createRuleFixture(
+        { decisionRule: DecisionRule.QuorumMajority, quorumPercent: QUORUM_PERCENT },
+        [parseTokens(20), parseTokens(20)],
+    );
+    // 33 of 50 voted tokens are exactly 66%
+    const supermajorityFixture = createRuleFixture(
+        { decisionRule: DecisionRule.Supermajority, thresholdPercent: 66, quorumPercent: QUORUM_PERCENT },
+        [parseTokens(33), parseTokens(17), BigNumber.from(1)],
+    );
+
+    describe('Finalize', function() {
+        it('Cannot finalize before TTL', async function() {
+            const { myDao, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await time.setNextBlockTimestamp(ttl - 1);
+            await expect(myDao.finalize(0)).to.be.revertedWith('Voting period is not over');
+        });
+
+        it('Cannot finalize when time is TTL', async function() {
+            const { myDao, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await time.setNextBlockTimestamp(ttl);
+            await expect(myDao.finalize(0)).to.be.revertedWith('Voting period is not over');
+        });
+
+        it('Finalize after TTL', async function() {
+            const { myDao, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await time.setNextBlockTimestamp(ttl + 1);
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalExpired').withArgs(0, TEST_PROPOSAL_HASH);
+            expect(await myDao.activeProposals()).to.deep.equal([]);
+        });
+
+        it('Cannot finalize twice', async function() {
+            const { myDao, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await time.increaseTo(ttl);
+            await myDao.finalize(0);
+
+            await expect(myDao.finalize(0)).to.be.revertedWith('Proposal is not pending');
+        });
+
+        it('Cannot finalize non-existent proposal', async function() {
+            const { myDao } = await loadFixture(absoluteMajorityFixture);
+
+            await expect(myDao.finalize(1)).to.be.revertedWith('Proposal does not exist');
+        });
+
+        itParam('Cannot finalize proposal after ${value.successEvent}', [yes, no], async function(vote: VoteInfo) {
+            const { myDao, owner, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await myDao.connect(owner).vote(0, vote.value);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0)).to.be.revertedWith('Proposal is not pending');
+        });
+
+    });
+
+    describe('Absolute majority', function() {
+        itParam('${value.name} votes of a minority expire', [yes, no], async function(vote: VoteInfo) {
+            const { myDao, voters, ttl } = await loadFixture(absoluteMajorityFixture);
+
+            await myDao.connect(voters[0]).vote(0, vote.value);
+            await myDao.connect(voters[1]).vote(0, vote.value);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalExpired').withArgs(0, TEST_PROPOSAL_HASH);
+            await checkProposal(myDao, 0, { state: ProposalState.Expired });
+        });
+    });
+
+    describe('Quorum majority', function() {
+        itParam('${value.successEvent} when turnout is exactly the quorum', [yes, no], async function(vote: VoteInfo) {
+            const { myDao, voters, ttl } = await loadFixture(quorumFixture);
+
+            await myDao.connect(voters[0]).vote(0, vote.value);
+            await myDao.connect(voters[1]).vote(0, vote.value === Vote.Yes ? Vote.No : Vote.Yes);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, vote.successEvent).withArgs(0, TEST_PROPOSAL_HASH);
+            await checkProposal(myDao, 0, { state: vote.successState });
+        });
+
+        itParam('${value.name} votes below the quorum expire', [yes, no], async function(vote: VoteInfo) {
+            const { myDao, voters, ttl } = await loadFixture(quorumFixture);
+
+            await myDao.connect(voters[0]).vote(0, vote.value);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalExpired').withArgs(0, TEST_PROPOSAL_HASH);
+            await checkProposal(myDao, 0, { state: ProposalState.Expired });
+        });
+
+        it('Cannot vote for finalized proposal', async function() {
+            const { myDao, voters, ttl } = await loadFixture(quorumFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await time.setNextBlockTimestamp(ttl + 1);
+            await myDao.finalize(0);
+
+            await expect(myDao.connect(voters[1]).vote(0, Vote.Yes))
+                .to.be.revertedWith('Proposal is not pending');
+        });
+
+        it('Replacing a proposal finalizes it', async function() {
+            const { myDao, voters, ttl } = await loadFixture(quorumFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await myDao.connect(voters[1]).vote(0, Vote.No);
+            await myDao.connect(voters[0]).createProposal(createProposalHash(1));
+            await myDao.connect(voters[0]).createProposal(createProposalHash(2));
+            await time.setNextBlockTimestamp(ttl + 1);
+
+            await expect(myDao.connect(voters[0]).createProposal(createProposalHash(3)))
+                .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH)
+                .to.emit(myDao, 'ProposalCreated').withArgs(3, createProposalHash(3), voters[0].address);
+        });
+
+        it('Tie is rejected', async function() {
+            const { myDao, voters, ttl } = await loadFixture(tieFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await myDao.connect(voters[1]).vote(0, Vote.No);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalRejected').withArgs(0, TEST_PROPOSAL_HASH);
+        });
+
+        it('Transfers after TTL do not change the outcome', async function() {
+            const { myDao, voters, ttl } = await loadFixture(tieFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await myDao.connect(voters[1]).vote(0, Vote.No);
+            await time.setNextBlockTimestamp(ttl + 1);
+            await myDao.connect(voters[1]).transfer(voters[0].address, parseTokens(10));
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalRejected').withArgs(0, TEST_PROPOSAL_HASH);
+        });
+    });
+
+    describe('Supermajority', function() {
+        it('ProposalRejected when YES votes are exactly the threshold share', async function() {
+            const { myDao, voters, ttl } = await loadFixture(supermajorityFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await myDao.connect(voters[1]).vote(0, Vote.No);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalRejected').withArgs(0, TEST_PROPOSAL_HASH);
+            await checkProposal(myDao, 0, { state: ProposalState.Rejected });
+        });
+
+        it('ProposalAccepted by vote with minimum balance above the threshold share', async function() {
+            const { myDao, voters, ttl } = await loadFixture(supermajorityFixture);
+
+            await myDao.connect(voters[0]).vote(0, Vote.Yes);
+            await myDao.connect(voters[1]).vote(0, Vote.No);
+            await myDao.connect(voters[2]).vote(0, Vote.Yes);
+            await time.increaseTo(ttl);
+
+            await expect(myDao.finalize(0))
+                .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH);
+            await checkProposal(myDao, 0, { state: ProposalState.Accepted });
+        });
+    });
+});
+
+describe('MyDao executable proposals', function() {
+    async function executableProposalFixture() {
+        const [owner, executor, recipient] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        // The DAO holds 20 of 100 tokens, the owner has enough votes to accept proposals alone
+        await myDao.transfer(myDao.address, parseTokens(20));
+
+        const actions = [createTokenTransferAction(myDao, recipient.address, parseTokens(15))];
+        await myDao.createExecutableProposal(TEST_PROPOSAL_HASH, getActionsHash(actions));
+
+        return { myDao, owner, executor, recipient, actions };
+    }
+
+    it('Create executable proposal', async function() {
+        const { myDao, actions } = await loadFixture(executableProposalFixture);
+
+        await checkProposal(myDao, 0, {
+            proposalHash: TEST_PROPOSAL_HASH,
+            state: ProposalState.Pending,
+            actionsHash: getActionsHash(actions),
+        });
+    });
+
+    it('Cannot create executable proposal without actions hash', async function() {
+        const { myDao } = await loadFixture(executableProposalFixture);
+
+        await expect(myDao.createExecutableProposal(TEST_PROPOSAL_HASH, ethers.constants.HashZero))
+            .to.be.revertedWith('Actions hash must not be empty');
+    });
+
+    it('DAO transfers its tokens by vote', async function() {
+        const { myDao, owner, executor, recipient, actions } = await loadFixture(executableProposalFixture);
+
+        await myDao.vote(0, Vote.Yes);
+
+        await expect(myDao.connect(executor).execute(0, actions))
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, recipient.address, parseTokens(15))
+            .to.emit(myDao, 'ProposalExecuted').withArgs(0, TEST_PROPOSAL_HASH);
+
+        await checkProposal(myDao, 0, { state: ProposalState.Executed });
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(5));
+        expect(await myDao.balanceOf(recipient.address)).to.equal(parseTokens(15));
+        expect(await myDao.balanceOf(owner.address)).to.equal(parseTokens(80));
+    });
+
+    it('Cannot execute twice', async function() {
+        const { myDao, actions } = await loadFixture(executableProposalFixture);
+
+        await myDao.vote(0, Vote.Yes);
+        await myDao.execute(0, actions);
+
+        await expect(myDao.execute(0, actions)).to.be.revertedWith('Proposal is not accepted');
+    });
+
+    itParam('Cannot execute ${value}', ['pending', 'rejected'], async function(state: string) {
+        const { myDao, actions } = await loadFixture(executableProposalFixture);
+
+        if (state === 'rejected') {
+            await myDao.vote(0, Vote.No);
+        }
+
+        await expect(myDao.execute(0, actions)).to.be.revertedWith('Proposal is not accepted');
+    });
+
+    it('Cannot execute other actions', async function() {
+        const { myDao, owner, actions } = await loadFixture(executableProposalFixture);
+
+        await myDao.vote(0, Vote.Yes);
+
+        await expect(myDao.execute(0, [createTokenTransferAction(myDao, owner.address, parseTokens(15))]))
+            .to.be.revertedWith('Actions do not match the proposal');
+        await expect(myDao.execute(0, [...actions, ...actions]))
+            .to.be.revertedWith('Actions do not match the proposal');
+    });
+
+    it('Cannot execute proposal without actions', async function() {
+        const { myDao } = await loadFixture(executableProposalFixture);
+
+        await myDao.createProposal(createProposalHash(1));
+        await myDao.vote(1, Vote.Yes);
+
+        await expect(myDao.execute(1, [])).to.be.revertedWith('Actions do not match the proposal');
+    });
+
+    it('Failed action reverts the execution', async function() {
+        const { myDao, recipient } = await loadFixture(executableProposalFixture);
+
+        const actions = [createTokenTransferAction(myDao, recipient.address, parseTokens(21))];
+        await myDao.createExecutableProposal(createProposalHash(1), getActionsHash(actions));
+        await myDao.vote(1, Vote.Yes);
+
+        await expect(myDao.execute(1, actions)).to.be.revertedWith('ERC20: transfer amount exceeds balance');
+        await checkProposal(myDao, 1, { state: ProposalState.Accepted });
+    });
+
+    it('DAO sends ether by vote', async function() {
+        const { myDao, owner, recipient } = await loadFixture(executableProposalFixture);
+
+        const amount = ethers.utils.parseEther('1');
+        await owner.sendTransaction({ to: myDao.address, value: amount });
+
+        const actions = [{ target: recipient.address, value: amount.toString(), data: '0x' }];
+        await myDao.createExecutableProposal(createProposalHash(1), getActionsHash(actions));
+        await myDao.vote(1, Vote.Yes);
+
+        await expect(myDao.execute(1, actions)).to.changeEtherBalances([myDao, recipient], [amount.mul(-1), amount]);
+    });
+});
+
+describe('MyDao timelock', function() {
+    const TIMELOCK_DELAY = 2 * DAY;
+
+    async function timelockFixture() {
+        const [owner, guardian, recipient, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, { timelockDelay: TIMELOCK_DELAY, guardian: guardian.address });
+
+        // The owner keeps 40 tokens and the DAO holds 10 of them
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        await myDao.transfer(voters[1].address, parseTokens(20));
+        await myDao.transfer(myDao.address, parseTokens(10));
+
+        const actions = [createTokenTransferAction(myDao, recipient.address, parseTokens(10))];
+        await myDao.createExecutableProposal(TEST_PROPOSAL_HASH, getActionsHash(actions));
+
+        return { myDao, owner, guardian, recipient, voters: voters.slice(0, 2), actions };
+    }
+
+    async function queuedFixture() {
+        const fixture = await timelockFixture();
+        const { myDao, owner, voters } = fixture;
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        const { eta } = await myDao.proposals(0);
+
+        return { ...fixture, eta: eta.toNumber() };
+    }
+
+    it('Accepted executable proposal is queued', async function() {
+        const { myDao, voters } = await loadFixture(timelockFixture);
+
+        await myDao.vote(0, Vote.Yes);
+        await time.setNextBlockTimestamp(await time.latest() + 10);
+        const eta = await time.latest() + 10 + TIMELOCK_DELAY;
+
+        await expect(myDao.connect(voters[0]).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH)
+            .to.emit(myDao, 'ProposalQueued').withArgs(0, TEST_PROPOSAL_HASH, eta);
+        await checkProposal(myDao, 0, { state: ProposalState.Queued, eta });
+    });
+
+    it('Proposal without actions is not queued', async function() {
+        const { myDao, voters } = await loadFixture(timelockFixture);
+
+        await myDao.createProposal(createProposalHash(1));
+        await myDao.vote(1, Vote.Yes);
+
+        await expect(myDao.connect(voters[0]).vote(1, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(1, createProposalHash(1))
+            .to.not.emit(myDao, 'ProposalQueued');
+        await checkProposal(myDao, 1, { state: ProposalState.Accepted, eta: 0 });
+    });
+
+    it('Guardian cannot cancel pending proposal', async function() {
+        const { myDao, guardian } = await loadFixture(timelockFixture);
+
+        await expect(myDao.connect(guardian).cancel(0)).to.be.revertedWith('Only creator can cancel pending proposals');
+    });
+
+    it('Cannot execute before eta', async function() {
+        const { myDao, actions, eta } = await loadFixture(queuedFixture);
+
+        await time.setNextBlockTimestamp(eta - 1);
+        await expect(myDao.execute(0, actions)).to.be.revertedWith('Timelock is not over');
+    });
+
+    it('Execute when time is eta', async function() {
+        const { myDao, recipient, actions, eta } = await loadFixture(queuedFixture);
+
+        await time.increaseTo(eta - 1);
+        await expect(myDao.execute(0, actions))
+            .to.emit(myDao, 'ProposalExecuted').withArgs(0, TEST_PROPOSAL_HASH);
+
+        expect(await time.latest()).to.equal(eta);
+        await checkProposal(myDao, 0, { state: ProposalState.Executed });
+        expect(await myDao.balanceOf(recipient.address)).to.equal(parseTokens(10));
+    });
+
+    it('Guardian cancels queued proposal', async function() {
+        const { myDao, guardian, actions, eta } = await loadFixture(queuedFixture);
+
+        await expect(myDao.connect(guardian).cancel(0))
+            .to.emit(myDao, 'ProposalCancelled').withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, { state: ProposalState.Cancelled });
+
+        await time.increaseTo(eta);
+        await expect(myDao.execute(0, actions)).to.be.revertedWith('Proposal is not accepted');
+        await expect(myDao.connect(guardian).cancel(0)).to.be.revertedWith('Proposal is not pending or queued');
+    });
+
+    it('Guardian cancels queued proposal after eta', async function() {
+        const { myDao, guardian, eta } = await loadFixture(queuedFixture);
+
+        await time.increaseTo(eta);
+        await expect(myDao.connect(guardian).cancel(0))
+            .to.emit(myDao, 'ProposalCancelled').withArgs(0, TEST_PROPOSAL_HASH);
+    });
+
+    it('Only guardian can cancel', async function() {
+        const { myDao, owner } = await loadFixture(queuedFixture);
+
+        await expect(myDao.connect(owner).cancel(0)).to.be.revertedWith('Only guardian can cancel proposals');
+    });
+
+    it('Counter-vote cancels queued proposal', async function() {
+        const { myDao, voters, eta } = await loadFixture(queuedFixture);
+
+        // YES 40, NO 30 of 100 tokens
+        await expect(myDao.connect(voters[0]).vote(0, Vote.No))
+            .to.emit(myDao, 'Voted').withArgs(0, voters[0].address, Vote.No)
+            .to.not.emit(myDao, 'ProposalCancelled');
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(40), noVotes: parseTokens(30) });
+
+        // YES 40, NO 50 just before eta
+        await time.setNextBlockTimestamp(eta - 1);
+        await expect(myDao.connect(voters[1]).vote(0, Vote.No))
+            .to.emit(myDao, 'ProposalCancelled').withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, { state: ProposalState.Cancelled });
+    });
+
+    it('Transfers do not cancel queued proposal', async function() {
+        const { myDao, owner, voters } = await loadFixture(queuedFixture);
+
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+
+        await expect(myDao.connect(owner).transfer(voters[1].address, parseTokens(40)))
+            .to.not.emit(myDao, 'Voted')
+            .to.not.emit(myDao, 'ProposalCancelled');
+        await checkProposal(myDao, 0, {
+            yesVotes: parseTokens(70),
+            noVotes: parseTokens(20),
+            state: ProposalState.Queued,
+        });
+    });
+
+    it('Cannot vote when time is eta', async function() {
+        const { myDao, voters, eta } = await loadFixture(queuedFixture);
+
+        await time.setNextBlockTimestamp(eta);
+        await expect(myDao.connect(voters[1]).vote(0, Vote.No)).to.be.revertedWith('Timelock is over');
+    });
+});
+
+describe('MyDao delegation', function() {
+    async function delegationFixture() {
+        const [owner, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        // The owner keeps 40 tokens
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        await myDao.transfer(voters[1].address, parseTokens(20));
+        await myDao.transfer(voters[2].address, parseTokens(10));
+
+        return { myDao, owner, voters: voters.slice(0, 3) };
+    }
+
+    it('Accounts delegate to themselves by default', async function() {
+        const { myDao, voters } = await loadFixture(delegationFixture);
+
+        expect(await myDao.delegates(voters[0].address)).to.equal(voters[0].address);
+        expect(await myDao.getVotingPower(voters[0].address)).to.equal(parseTokens(30));
+    });
+
+    it('Delegate moves voting power', async function() {
+        const { myDao, voters } = await loadFixture(delegationFixture);
+
+        await expect(myDao.connect(voters[0]).delegate(voters[1].address))
+            .to.emit(myDao, 'DelegateChanged').withArgs(voters[0].address, voters[0].address, voters[1].address);
+
+        expect(await myDao.delegates(voters[0].address)).to.equal(voters[1].address);
+        expect(await myDao.getVotingPower(voters[0].address)).to.equal(0);
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(50));
+    });
+
+    it('Delegate back to self', async function() {
+        const { myDao, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[0]).delegate(voters[1].address);
+        await expect(myDao.connect(voters[0]).delegate(voters[0].address))
+            .to.emit(myDao, 'DelegateChanged').withArgs(voters[0].address, voters[1].address, voters[0].address);
+
+        expect(await myDao.delegates(voters[0].address)).to.equal(voters[0].address);
+        expect(await myDao.getVotingPower(voters[0].address)).to.equal(parseTokens(30));
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(20));
+    });
+
+    it('Cannot delegate to the zero address', async function() {
+        const { myDao, voters } = await loadFixture(delegationFixture);
+
+        await expect(myDao.connect(voters[0]).delegate(ethers.constants.AddressZero))
+            .to.be.revertedWith('Cannot delegate to the zero address');
+    });
+
+    it('Delegated voting power follows transfers', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[0]).delegate(voters[1].address);
+        await myDao.connect(voters[0]).transfer(owner.address, parseTokens(10));
+        await myDao.connect(voters[2]).transfer(voters[0].address, parseTokens(5));
+
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(45));
+        expect(await myDao.getVotingPower(owner.address)).to.equal(parseTokens(50));
+        expect(await myDao.getVotingPower(voters[2].address)).to.equal(parseTokens(5));
+    });
+
+    it('Delegate votes with delegated balances', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[0]).delegate(voters[1].address);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        expect(await myDao.getVotingWeight(0, voters[1].address)).to.equal(parseTokens(50));
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await checkProposal(myDao, 0, { noVotes: parseTokens(50) });
+
+        // NO 90 of 100 tokens
+        await expect(myDao.connect(owner).vote(0, Vote.No))
+            .to.emit(myDao, 'ProposalRejected').withArgs(0, TEST_PROPOSAL_HASH);
+    });
+
+    it('Delegation is not transitive', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[2]).delegate(voters[1].address);
+        await myDao.connect(voters[1]).delegate(owner.address);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        expect(await myDao.getVotingPower(owner.address)).to.equal(parseTokens(60));
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(10));
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(60));
+        // Voting directly, the delegate of the chain votes with its own balance along with the delegated one
+        expect(await myDao.getVotingWeight(0, voters[1].address)).to.equal(parseTokens(30));
+        expect(await myDao.getVotingWeight(0, voters[2].address)).to.equal(parseTokens(10));
+
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(40));
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(40), noVotes: parseTokens(30) });
+    });
+
+    it('Direct vote overrides delegate', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[2]).delegate(owner.address);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(50) });
+
+        await expect(myDao.connect(voters[2]).vote(0, Vote.No))
+            .to.emit(myDao, 'Voted').withArgs(0, voters[2].address, Vote.No);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(40), noVotes: parseTokens(10) });
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(40));
+
+        // Changing the direct vote keeps the override
+        await myDao.connect(voters[2]).vote(0, Vote.Yes);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(50), noVotes: 0 });
+        await myDao.connect(voters[2]).vote(0, Vote.No);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(40), noVotes: parseTokens(10) });
+    });
+
+    it('Delegate votes after overriding delegator', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[2]).delegate(owner.address);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        await myDao.connect(voters[2]).vote(0, Vote.Yes);
+        await myDao.connect(owner).vote(0, Vote.No);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(10), noVotes: parseTokens(40) });
+    });
+
+    it('Abstaining gives the balance back to the delegate', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[0]).delegate(owner.address);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        await myDao.connect(voters[0]).vote(0, Vote.No);
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(40), noVotes: parseTokens(30) });
+
+        // YES 70 of 100 tokens
+        await expect(myDao.connect(voters[0]).vote(0, Vote.Abstain))
+            .to.emit(myDao, 'Voted').withArgs(0, voters[0].address, Vote.Abstain)
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(70), noVotes: 0 });
+    });
+
+    it('Re-delegation during an active vote applies to the next proposals', async function() {
+        const { myDao, owner, voters } = await loadFixture(delegationFixture);
+
+        await myDao.connect(voters[0]).delegate(owner.address);
+        await myDao.createProposal(createProposalHash(0));
+        await myDao.connect(voters[0]).delegate(voters[1].address);
+        await myDao.createProposal(createProposalHash(1));
+
+        expect(await myDao.getVotingPower(owner.address)).to.equal(parseTokens(40));
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(50));
+
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(70));
+        expect(await myDao.getVotingWeight(0, voters[1].address)).to.equal(parseTokens(20));
+        expect(await myDao.getVotingWeight(1, owner.address)).to.equal(parseTokens(40));
+        expect(await myDao.getVotingWeight(1, voters[1].address)).to.equal(parseTokens(50));
+
+        await expect(myDao.connect(owner).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, createProposalHash(0));
+        await myDao.connect(voters[1]).vote(1, Vote.No);
+        await checkProposal(myDao, 1, { noVotes: parseTokens(50) });
+    });
+});
+
+describe('MyDao batch voting', function() {
+    async function batchFixture() {
+        const [owner, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        // The owner keeps 40 tokens
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        await myDao.transfer(voters[1].address, parseTokens(30));
+        for (let i = 0; i < 3; i++) {
+            await myDao.createProposal(createProposalHash(i));
+        }
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[0]).vote(1, Vote.No);
+
+        return { myDao, owner, voters: voters.slice(0, 2) };
+    }
+
+    /**
+     * Events and proposals after the owner votes in a batch or one by one
+     */
+    async function castVotes(proposalIds: number[], votes: Vote[], batch: boolean) {
+        const { myDao, owner } = await loadFixture(batchFixture);
+
+        const receipts = [];
+        if (batch) {
+            receipts.push(await (await myDao.connect(owner).voteBatch(proposalIds, votes)).wait());
+        } else {
+            for (let i = 0; i < proposalIds.length; i++) {
+                receipts.push(await (await myDao.connect(owner).vote(proposalIds[i], votes[i])).wait());
+            }
+        }
+        const events = receipts.flatMap((receipt) => receipt.events!.map(({ event, args }) => [event, ...args!]));
+
+        const client = new MyDaoClient(myDao);
+        const proposals = await Promise.all([0, 1, 2].map((id) => client.getProposal(id)));
+        return { events, proposals: proposals.map(({ yesVotes, noVotes, state }) => ({ yesVotes, noVotes, state })) };
+    }
+
+    it('Batch votes emit the usual events', async function() {
+        const { myDao, voters } = await loadFixture(batchFixture);
+
+        await expect(myDao.connect(voters[1]).voteBatch([2, 0], [Vote.No, Vote.Yes]))
+            .to.emit(myDao, 'Voted').withArgs(2, voters[1].address, Vote.No)
+            .to.emit(myDao, 'Voted').withArgs(0, voters[1].address, Vote.Yes)
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, createProposalHash(0));
+        await checkProposal(myDao, 2, { noVotes: parseTokens(30), state: ProposalState.Pending });
+    });
+
+    itParam('Batch behaves like sequential votes ${value.name}', [
+        { name: 'resolving several proposals', proposalIds: [0, 1, 2], votes: [Vote.Yes, Vote.No, Vote.Yes] },
+        { name: 'changing a vote', proposalIds: [2, 2, 0], votes: [Vote.Yes, Vote.No, Vote.No] },
+        { name: 'of a single proposal', proposalIds: [1], votes: [Vote.Yes] },
+    ], async function({ proposalIds, votes }: { proposalIds: number[], votes: Vote[] }) {
+        const batch = await castVotes(proposalIds, votes, true);
+        const sequential = await castVotes(proposalIds, votes, false);
+
+        expect(batch).to.deep.equal(sequential);
+    });
+
+    it('Cannot vote with different lengths', async function() {
+        const { myDao, voters } = await loadFixture(batchFixture);
+
+        await expect(myDao.connect(voters[1]).voteBatch([0, 1], [Vote.Yes]))
+            .to.be.revertedWith('Proposal IDs and votes differ in length');
+    });
+
+    it('Failed vote reverts the whole batch', async function() {
+        const { myDao, voters } = await loadFixture(batchFixture);
+
+        await expect(myDao.connect(voters[1]).voteBatch([2, 3], [Vote.Yes, Vote.Yes]))
+            .to.be.revertedWith('Proposal does not exist');
+        await expect(myDao.connect(voters[1]).voteBatch([2, 2], [Vote.Yes, Vote.Yes]))
+            .to.be.revertedWith('You already voted this way');
+        // The first vote resolves the proposal, so the second one cannot change it
+        await expect(myDao.connect(voters[1]).voteBatch([0, 0], [Vote.Yes, Vote.No]))
+            .to.be.revertedWith('Proposal is not pending');
+
+        expect(await myDao.getVote(2, voters[1].address)).to.equal(Vote.Abstain);
+        await checkProposal(myDao, 0, { yesVotes: parseTokens(30), state: ProposalState.Pending });
+    });
+});
+
+describe('MyDao discussion', function() {
+    async function discussionFixture() {
+        const [owner, voter, noTokensAccount] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        await myDao.transfer(voter.address, parseTokens(40));
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+
+        return { myDao, owner, voter, noTokensAccount };
+    }
+
+    const COMMENT_HASH = getProposalHash('Comment');
+
+    it('Vote with reason', async function() {
+        const { myDao, voter } = await loadFixture(discussionFixture);
+
+        await expect(myDao.connect(voter).voteWithReason(0, Vote.No, 'Too expensive'))
+            .to.emit(myDao, 'Voted').withArgs(0, voter.address, Vote.No)
+            .to.emit(myDao, 'VotedWithReason').withArgs(0, voter.address, Vote.No, 'Too expensive');
+        await checkProposal(myDao, 0, { noVotes: parseTokens(40) });
+    });
+
+    it('Reason follows the resolution events', async function() {
+        const { myDao, owner } = await loadFixture(discussionFixture);
+
+        const receipt = await (await myDao.connect(owner).voteWithReason(0, Vote.Yes, 'Long overdue')).wait();
+
+        expect(receipt.events!.map(({ event }) => event)).to.deep.equal(['Voted', 'ProposalAccepted', 'VotedWithReason']);
+    });
+
+    it('Cannot vote with reason twice', async function() {
+        const { myDao, voter } = await loadFixture(discussionFixture);
+
+        await myDao.connect(voter).voteWithReason(0, Vote.No, 'Too expensive');
+        await expect(myDao.connect(voter).voteWithReason(0, Vote.No, 'Still too expensive'))
+            .to.be.revertedWith('You already voted this way');
+    });
+
+    it('Comment proposal', async function() {
+        const { myDao, owner, voter } = await loadFixture(discussionFixture);
+        const replyHash = getProposalHash('Reply');
+
+        await expect(myDao.connect(voter).comment(0, COMMENT_HASH, ethers.constants.HashZero))
+            .to.emit(myDao, 'CommentAdded').withArgs(0, voter.address, COMMENT_HASH, ethers.constants.HashZero);
+        await expect(myDao.connect(owner).comment(0, replyHash, COMMENT_HASH))
+            .to.emit(myDao, 'CommentAdded').withArgs(0, owner.address, replyHash, COMMENT_HASH);
+    });
+
+    it('Comment resolved proposal', async function() {
+        const { myDao, owner } = await loadFixture(discussionFixture);
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+
+        await expect(myDao.comment(0, COMMENT_HASH, ethers.constants.HashZero)).to.emit(myDao, 'CommentAdded');
+    });
+
+    it('Account with no tokens cannot comment', async function() {
+        const { myDao, noTokensAccount } = await loadFixture(discussionFixture);
+
+        await expect(myDao.connect(noTokensAccount).comment(0, COMMENT_HASH, ethers.constants.HashZero))
+            .to.be.revertedWith('You must hold tokens to vote or create proposals');
+    });
+
+    it('Cannot comment non-existent proposal', async function() {
+        const { myDao } = await loadFixture(discussionFixture);
+
+        await expect(myDao.comment(1, COMMENT_HASH, ethers.constants.HashZero))
+            .to.be.revertedWith('Proposal does not exist');
+    });
+
+    it('Cannot comment with empty hash', async function() {
+        const { myDao } = await loadFixture(discussionFixture);
+
+        await expect(myDao.comment(0, ethers.constants.HashZero, ethers.constants.HashZero))
+            .to.be.revertedWith('Comment hash must not be empty');
+    });
+});
+
+describe('MyDao cancellation and amendment', function() {
+    const AMENDED_PROPOSAL_HASH = getProposalHash('Amended proposal');
+
+    async function amendmentFixture() {
+        const [owner, creator, voter, noTokensAccount] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        // The owner keeps 40 tokens
+        await myDao.transfer(creator.address, parseTokens(20));
+        await myDao.transfer(voter.address, parseTokens(40));
+        await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+
+        return { myDao, owner, creator, voter, noTokensAccount };
+    }
+
+    it('Proposer is stored', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await checkProposal(myDao, 0, { proposer: creator.address, amendments: 0 });
+    });
+
+    it('Creator cancels proposal after votes', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(amendmentFixture);
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.connect(voter).vote(0, Vote.No);
+
+        await expect(myDao.connect(creator).cancel(0))
+            .to.emit(myDao, 'ProposalCancelled').withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, {
+            state: ProposalState.Cancelled,
+            yesVotes: parseTokens(40),
+            noVotes: parseTokens(40),
+        });
+        expect(await getActiveProposals(myDao)).to.deep.equal([]);
+
+        await expect(myDao.connect(creator).vote(0, Vote.Yes)).to.be.revertedWith('Proposal is not pending');
+        await expect(myDao.finalize(0)).to.be.revertedWith('Proposal is not pending');
+        await expect(myDao.connect(creator).cancel(0)).to.be.revertedWith('Proposal is not pending or queued');
+    });
+
+    it('Cancelled proposal frees its slot', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await myDao.createProposal(createProposalHash(1));
+        await myDao.createProposal(createProposalHash(2));
+        await expect(myDao.createProposal(createProposalHash(3)))
+            .to.be.revertedWith('Max number of pending proposals reached');
+
+        await myDao.connect(creator).cancel(0);
+
+        await expect(myDao.createProposal(createProposalHash(3))).to.emit(myDao, 'ProposalCreated');
+        expect(await getActiveProposals(myDao)).to.have.members([1, 2, 3]);
+    });
+
+    itParam('${value} cannot cancel proposal', ['owner', 'voter', 'noTokensAccount'], async function(account: string) {
+        const fixture = await loadFixture(amendmentFixture);
+        const signer = fixture[account as 'owner' | 'voter' | 'noTokensAccount'];
+
+        await expect(fixture.myDao.connect(signer).cancel(0))
+            .to.be.revertedWith('Only creator can cancel pending proposals');
+        await checkProposal(fixture.myDao, 0, { state: ProposalState.Pending });
+    });
+
+    it('Cannot cancel expired proposal', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await time.increase(DEFAULT_GOVERNANCE_PARAMS.votingPeriod);
+
+        await expect(myDao.connect(creator).cancel(0)).to.be.revertedWith('Proposal is expired');
+    });
+
+    it('Cannot cancel resolved proposal', async function() {
+        const { myDao, owner, creator } = await loadFixture(amendmentFixture);
+
+        // YES 60 of 100 tokens
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.connect(creator).vote(0, Vote.Yes);
+
+        await expect(myDao.connect(creator).cancel(0)).to.be.revertedWith('Proposal is not pending or queued');
+    });
+
+    it('Amendment resets votes', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(amendmentFixture);
+        const ttl = (await myDao.proposals(0)).ttl.toNumber();
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.connect(voter).vote(0, Vote.No);
+
+        await expect(myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH))
+            .to.emit(myDao, 'ProposalAmended').withArgs(0, AMENDED_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, {
+            proposalHash: AMENDED_PROPOSAL_HASH,
+            state: ProposalState.Pending,
+            yesVotes: 0,
+            noVotes: 0,
+            ttl,
+            snapshot: await ethers.provider.getBlockNumber() - 1,
+            amendments: 1,
+        });
+        expect(await myDao.getVote(0, owner.address)).to.equal(Vote.Abstain);
+        expect(await myDao.getVote(0, voter.address)).to.equal(Vote.Abstain);
+
+        // The same vote counts again
+        await expect(myDao.connect(voter).vote(0, Vote.No))
+            .to.emit(myDao, 'Voted').withArgs(0, voter.address, Vote.No);
+        await checkProposal(myDao, 0, { noVotes: parseTokens(40) });
+    });
+
+    it('Amendment takes a new snapshot', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(amendmentFixture);
+
+        await myDao.connect(voter).transfer(owner.address, parseTokens(40));
+        expect(await myDao.getVotingWeight(0, voter.address)).to.equal(parseTokens(40));
+
+        await myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH);
+
+        expect(await myDao.getVotingWeight(0, voter.address)).to.equal(0);
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(80));
+        await expect(myDao.connect(owner).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, AMENDED_PROPOSAL_HASH);
+    });
+
+    it('Amendment keeps delegated votes consistent', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(amendmentFixture);
+
+        await myDao.connect(voter).delegate(owner.address);
+        await myDao.connect(creator).amend(0, createProposalHash(1));
+        await myDao.connect(voter).vote(0, Vote.No);
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(40));
+
+        await myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH);
+
+        // The direct vote of the delegator is reset along with the override
+        expect(await myDao.getVotingWeight(0, owner.address)).to.equal(parseTokens(80));
+        await expect(myDao.connect(owner).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, AMENDED_PROPOSAL_HASH);
+    });
+
+    it('Amendments do not extend the voting period', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+        const ttl = (await myDao.proposals(0)).ttl.toNumber();
+
+        for (let i = 1; i <= 3; i++) {
+            await time.setNextBlockTimestamp(ttl - 3 + i);
+            await myDao.connect(creator).amend(0, createProposalHash(i));
+        }
+
+        await checkProposal(myDao, 0, { ttl, amendments: 3 });
+        await expect(myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH)).to.be.revertedWith('Proposal is expired');
+        await expect(myDao.finalize(0)).to.emit(myDao, 'ProposalExpired').withArgs(0, createProposalHash(3));
+    });
+
+    it('Only creator can amend', async function() {
+        const { myDao, owner } = await loadFixture(amendmentFixture);
+
+        await expect(myDao.connect(owner).amend(0, AMENDED_PROPOSAL_HASH))
+            .to.be.revertedWith('Only creator can amend proposals');
+    });
+
+    it('Cannot amend expired proposal', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await time.increase(DEFAULT_GOVERNANCE_PARAMS.votingPeriod);
+
+        await expect(myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH)).to.be.revertedWith('Proposal is expired');
+    });
+
+    it('Cannot amend cancelled proposal', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await myDao.connect(creator).cancel(0);
+
+        await expect(myDao.connect(creator).amend(0, AMENDED_PROPOSAL_HASH))
+            .to.be.revertedWith('Proposal is not pending');
+    });
+
+    it('Cannot amend or cancel non-existent proposal', async function() {
+        const { myDao, creator } = await loadFixture(amendmentFixture);
+
+        await expect(myDao.connect(creator).amend(1, AMENDED_PROPOSAL_HASH))
+            .to.be.revertedWith('Proposal does not exist');
+        await expect(myDao.connect(creator).cancel(1)).to.be.revertedWith('Proposal does not exist');
+    });
+});
+
+describe('MyDao proposal threshold and deposits', function() {
+    const PROPOSAL_THRESHOLD = parseTokens(10);
+    const PROPOSAL_DEPOSIT = parseTokens(5);
+
+    async function depositFixture() {
+        const [owner, guardian, creator, voter, minimumBalanceAccount] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, {
+            timelockDelay: DAY,
+            guardian: guardian.address,
+            proposalThreshold: PROPOSAL_THRESHOLD,
+            proposalDeposit: PROPOSAL_DEPOSIT,
+        });
+
+        // The owner keeps 40 tokens
+        await myDao.transfer(creator.address, parseTokens(20));
+        await myDao.transfer(voter.address, parseTokens(40));
+        await myDao.transfer(minimumBalanceAccount.address, 1);
+        await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+
+        return { myDao, owner, guardian, creator, voter, minimumBalanceAccount };
+    }
+
+    it('Deposit is paid to the DAO', async function() {
+        const { myDao, creator } = await loadFixture(depositFixture);
+
+        expect(await myDao.balanceOf(creator.address)).to.equal(parseTokens(15));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(PROPOSAL_DEPOSIT);
+        await expect(myDao.connect(creator).createProposal(createProposalHash(1)))
+            .to.emit(myDao, 'Transfer').withArgs(creator.address, myDao.address, PROPOSAL_DEPOSIT)
+            .to.emit(myDao, 'ProposalCreated').withArgs(1, createProposalHash(1), creator.address);
+        expect(await myDao.balanceOf(creator.address)).to.equal(parseTokens(10));
+    });
+
+    it('Deposit counts in the creator vote', async function() {
+        const { myDao, creator } = await loadFixture(depositFixture);
+
+        expect(await myDao.getVotingWeight(0, creator.address)).to.equal(parseTokens(20));
+    });
+
+    it('Account with minimum balance cannot create proposal', async function() {
+        const { myDao, minimumBalanceAccount } = await loadFixture(depositFixture);
+
+        await expect(myDao.connect(minimumBalanceAccount).createProposal(createProposalHash(1)))
+            .to.be.revertedWith('Voting power is below the proposal threshold');
+        await expect(myDao.connect(minimumBalanceAccount).createExecutableProposal(
+            createProposalHash(1), getActionsHash([]),
+        )).to.be.revertedWith('Voting power is below the proposal threshold');
+    });
+
+    it('Delegated voting power counts for the threshold', async function() {
+        const { myDao, voter, minimumBalanceAccount } = await loadFixture(depositFixture);
+
+        await myDao.connect(voter).transfer(minimumBalanceAccount.address, parseTokens(5).sub(1));
+        await expect(myDao.connect(minimumBalanceAccount).createProposal(createProposalHash(1)))
+            .to.be.revertedWith('Voting power is below the proposal threshold');
+
+        await myDao.connect(voter).delegate(minimumBalanceAccount.address);
+        await expect(myDao.connect(minimumBalanceAccount).createProposal(createProposalHash(1)))
+            .to.emit(myDao, 'ProposalCreated');
+        expect(await myDao.balanceOf(minimumBalanceAccount.address)).to.equal(0);
+    });
+
+    it('Creator must afford the deposit', async function() {
+        const { myDao, voter, minimumBalanceAccount } = await loadFixture(depositFixture);
+
+        await myDao.connect(voter).delegate(minimumBalanceAccount.address);
+
+        await expect(myDao.connect(minimumBalanceAccount).createProposal(createProposalHash(1)))
+            .to.be.revertedWith('Balance is below the proposal deposit');
+    });
+
+    itParam('Deposit is returned when ${value.successEvent}', [yes, no], async function(vote: VoteInfo) {
+        const { myDao, owner, creator, voter } = await loadFixture(depositFixture);
+
+        await myDao.connect(owner).vote(0, vote.value);
+        await expect(myDao.connect(voter).vote(0, vote.value))
+            .to.emit(myDao, vote.successEvent).withArgs(0, TEST_PROPOSAL_HASH)
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, creator.address, PROPOSAL_DEPOSIT);
+
+        expect(await myDao.balanceOf(creator.address)).to.equal(parseTokens(20));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(0);
+    });
+
+    it('Deposit is returned when finalized proposal is rejected', async function() {
+        const [owner, creator] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, {
+            decisionRule: DecisionRule.QuorumMajority,
+            quorumPercent: 20,
+            proposalDeposit: PROPOSAL_DEPOSIT,
+        });
+        await myDao.transfer(creator.address, parseTokens(20));
+        await myDao.connect(creator).createProposal(TEST_PROPOSAL_HASH);
+        await myDao.connect(creator).vote(0, Vote.No);
+        await time.increase(DEFAULT_GOVERNANCE_PARAMS.votingPeriod);
+
+        await expect(myDao.connect(owner).finalize(0))
+            .to.emit(myDao, 'ProposalRejected').withArgs(0, TEST_PROPOSAL_HASH)
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, creator.address, PROPOSAL_DEPOSIT);
+    });
+
+    it('Deposit is forfeited when proposal expires', async function() {
+        const { myDao, creator } = await loadFixture(depositFixture);
+
+        await time.increase(DEFAULT_GOVERNANCE_PARAMS.votingPeriod);
+
+        await expect(myDao.finalize(0))
+            .to.emit(myDao, 'ProposalExpired').withArgs(0, TEST_PROPOSAL_HASH)
+            .to.not.emit(myDao, 'Transfer');
+        expect(await myDao.balanceOf(creator.address)).to.equal(parseTokens(15));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(PROPOSAL_DEPOSIT);
+    });
+
+    it('Deposit is forfeited when creator cancels proposal', async function() {
+        const { myDao, creator } = await loadFixture(depositFixture);
+
+        await expect(myDao.connect(creator).cancel(0))
+            .to.emit(myDao, 'ProposalCancelled').withArgs(0, TEST_PROPOSAL_HASH)
+            .to.not.emit(myDao, 'Transfer');
+        expect(await myDao.balanceOf(myDao.address)).to.equal(PROPOSAL_DEPOSIT);
+    });
+
+    it('Deposit of queued proposal is returned on acceptance', async function() {
+        const { myDao, owner, guardian, creator, voter } = await loadFixture(depositFixture);
+
+        await myDao.connect(creator).createExecutableProposal(createProposalHash(1), getActionsHash([]));
+        await myDao.connect(owner).vote(1, Vote.Yes);
+        await expect(myDao.connect(voter).vote(1, Vote.Yes))
+            .to.emit(myDao, 'ProposalQueued')
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, creator.address, PROPOSAL_DEPOSIT);
+
+        await expect(myDao.connect(guardian).cancel(1)).to.not.emit(myDao, 'Transfer');
+        expect(await myDao.balanceOf(creator.address)).to.equal(parseTokens(15));
+    });
+
+    it('Executed actions cannot spend held deposits', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(depositFixture);
+        const actions = [createTokenTransferAction(myDao, voter.address, PROPOSAL_DEPOSIT)];
+
+        await myDao.connect(creator).createExecutableProposal(createProposalHash(1), getActionsHash(actions));
+        expect(await myDao.depositsHeld()).to.equal(PROPOSAL_DEPOSIT.mul(2));
+        await myDao.connect(owner).vote(1, Vote.Yes);
+        await myDao.connect(voter).vote(1, Vote.Yes);
+        expect(await myDao.depositsHeld()).to.equal(PROPOSAL_DEPOSIT);
+        await time.increase(DAY);
+
+        // The only tokens of the DAO are the deposit of proposal #0
+        await expect(myDao.execute(1, actions)).to.be.revertedWith('Transfer exceeds the unreserved DAO balance');
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await expect(myDao.connect(voter).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH)
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, creator.address, PROPOSAL_DEPOSIT);
+        expect(await myDao.depositsHeld()).to.equal(0);
+    });
+
+    it('Forfeited deposits can be spent', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(depositFixture);
+        const actions = [createTokenTransferAction(myDao, voter.address, PROPOSAL_DEPOSIT)];
+
+        await myDao.connect(creator).createExecutableProposal(createProposalHash(1), getActionsHash(actions));
+        await myDao.connect(owner).vote(1, Vote.Yes);
+        await myDao.connect(voter).vote(1, Vote.Yes);
+        await myDao.connect(creator).cancel(0);
+        expect(await myDao.depositsHeld()).to.equal(0);
+        await time.increase(DAY);
+
+        await expect(myDao.execute(1, actions))
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, voter.address, PROPOSAL_DEPOSIT);
+    });
+
+    it('Allowances of the DAO cannot spend held deposits', async function() {
+        const { myDao, owner, creator, voter } = await loadFixture(depositFixture);
+        const actions = [createCallAction(myDao, 'approve', [voter.address, PROPOSAL_DEPOSIT])];
+
+        await myDao.connect(creator).createExecutableProposal(createProposalHash(1), getActionsHash(actions));
+        await myDao.connect(owner).vote(1, Vote.Yes);
+        await myDao.connect(voter).vote(1, Vote.Yes);
+        await time.increase(DAY);
+        await myDao.execute(1, actions);
+
+        await expect(myDao.connect(voter).transferFrom(myDao.address, voter.address, PROPOSAL_DEPOSIT))
+            .to.be.revertedWith('Transfer exceeds the unreserved DAO balance');
+    });
+});
+
+describe('MyDao proposal state', function() {
+    const VOTING_PERIOD = DEFAULT_GOVERNANCE_PARAMS.votingPeriod;
+
+    async function stateFixture() {
+        const [owner, voter, noTokensAccount] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, {
+            decisionRule: DecisionRule.QuorumMajority,
+            quorumPercent: 20,
+            timelockDelay: DAY,
+        });
+
+        // The owner keeps 70 tokens
+        await myDao.transfer(voter.address, parseTokens(30));
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+        const { ttl } = await myDao.proposals(0);
+
+        return { myDao, owner, voter, noTokensAccount, ttl: ttl.toNumber() };
+    }
+
+    it('Pending until the voting period is over', async function() {
+        const { myDao, ttl } = await loadFixture(stateFixture);
+
+        await time.increaseTo(ttl);
+        expect(await myDao.state(0)).to.equal(ProposalState.Pending);
+
+        await time.increase(1);
+        expect(await myDao.state(0)).to.equal(ProposalState.Expired);
+        expect((await myDao.proposals(0)).state).to.equal(ProposalState.Pending);
+    });
+
+    itParam('Decided by the rule as ${value[1]} after the voting period', [
+        [Vote.Yes, 'Accepted', ProposalState.Accepted],
+        [Vote.No, 'Rejected', ProposalState.Rejected],
+    ], async function([vote, , state]: [Vote, string, ProposalState]) {
+        const { myDao, voter } = await loadFixture(stateFixture);
+
+        await myDao.connect(voter).vote(0, vote);
+        expect(await myDao.state(0)).to.equal(ProposalState.Pending);
+
+        await time.increase(VOTING_PERIOD + 1);
+        expect(await myDao.state(0)).to.equal(state);
+
+        await myDao.finalize(0);
+        expect(await myDao.state(0)).to.equal(state);
+    });
+
+    it('Accepted executable proposal is reported as queued', async function() {
+        const { myDao, voter } = await loadFixture(stateFixture);
+
+        await myDao.createExecutableProposal(createProposalHash(1), getActionsHash([]));
+        await myDao.connect(voter).vote(1, Vote.Yes);
+        await time.increase(VOTING_PERIOD + 1);
+
+        expect(await myDao.state(1)).to.equal(ProposalState.Queued);
+    });
+
+    it('Resolved proposals keep their stored state', async function() {
+        const { myDao, owner } = await loadFixture(stateFixture);
+
+        await myDao.createProposal(createProposalHash(1));
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.connect(owner).cancel(1);
+        await time.increase(VOTING_PERIOD + 1);
+
+        expect(await myDao.state(0)).to.equal(ProposalState.Accepted);
+        expect(await myDao.state(1)).to.equal(ProposalState.Cancelled);
+    });
+
+    it('Cannot get state of non-existent proposal', async function() {
+        const { myDao } = await loadFixture(stateFixture);
+
+        await expect(myDao.state(1)).to.be.revertedWith('Proposal does not exist');
+    });
+
+    it('Anyone can expire a proposal', async function() {
+        const { myDao, noTokensAccount } = await loadFixture(stateFixture);
+
+        await time.increase(VOTING_PERIOD);
+
+        await expect(myDao.connect(noTokensAccount).expire(0))
+            .to.emit(myDao, 'ProposalExpired').withArgs(0, TEST_PROPOSAL_HASH);
+        await checkProposal(myDao, 0, { state: ProposalState.Expired });
+        expect((await myDao.proposals(0)).state).to.equal(ProposalState.Expired);
+        expect(await getActiveProposals(myDao)).to.deep.equal([]);
+    });
+
+    it('Expire proposal below the quorum', async function() {
+        const { myDao, voter, noTokensAccount } = await loadFixture(stateFixture);
+
+        await myDao.connect(voter).transfer(noTokensAccount.address, parseTokens(19));
+        await myDao.createProposal(createProposalHash(1));
+        await myDao.connect(noTokensAccount).vote(1, Vote.Yes);
+        await time.increase(VOTING_PERIOD);
+
+        // 19 of 100 tokens voted, below the 20% quorum
+        expect(await myDao.state(1)).to.equal(ProposalState.Expired);
+        await expect(myDao.expire(1)).to.emit(myDao, 'ProposalExpired').withArgs(1, createProposalHash(1));
+    });
+
+    it('Cannot expire before the voting period is over', async function() {
+        const { myDao, ttl } = await loadFixture(stateFixture);
+
+        await time.setNextBlockTimestamp(ttl);
+
+        await expect(myDao.expire(0)).to.be.revertedWith('Voting period is not over');
+    });
+
+    itParam('Cannot expire proposal decided by ${value[1]}', [
+        [Vote.Yes, 'YES'],
+        [Vote.No, 'NO'],
+    ], async function([vote]: [Vote, string]) {
+        const { myDao, voter } = await loadFixture(stateFixture);
+
+        await myDao.connect(voter).vote(0, vote);
+        await time.increase(VOTING_PERIOD);
+
+        await expect(myDao.expire(0)).to.be.revertedWith('Proposal is decided, finalize it instead');
+    });
+
+    it('Cannot expire resolved proposal', async function() {
+        const { myDao, owner } = await loadFixture(stateFixture);
+
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await time.increase(VOTING_PERIOD);
+
+        await expect(myDao.expire(0)).to.be.revertedWith('Proposal is not pending');
+    });
+});
+
+describe('MyDao genesis distribution', function() {
+    async function genesisFixture() {
+        const [owner, first, second, claimant, otherClaimant, noClaimAccount] = await ethers.getSigners();
+        const tree = new ClaimTree([
+            { account: claimant.address, amount: parseTokens(20) },
+            { account: otherClaimant.address, amount: parseTokens(10) },
+        ]);
+        const myDao = await deployMyDao(hre, {}, undefined, {
+            allocations: [
+                { account: first.address, amount: parseTokens(45) },
+                { account: second.address, amount: parseTokens(25) },
+            ],
+            claimRoot: tree.root,
+            claimSupply: tree.supply,
+        });
+
+        return { myDao, tree, owner, first, second, claimant, otherClaimant, noClaimAccount };
+    }
+
+    it('Allocations are minted and the claim supply is held by the DAO', async function() {
+        const { myDao, tree, owner, first, second } = await loadFixture(genesisFixture);
+
+        expect(await myDao.balanceOf(owner.address)).to.equal(0);
+        expect(await myDao.balanceOf(first.address)).to.equal(parseTokens(45));
+        expect(await myDao.balanceOf(second.address)).to.equal(parseTokens(25));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(30));
+        expect(await myDao.totalSupply()).to.equal(parseTokens(100));
+        expect(await myDao.claimRoot()).to.equal(tree.root);
+        expect(await myDao.unclaimedSupply()).to.equal(parseTokens(30));
+        expect(await myDao.getVotingPower(first.address)).to.equal(parseTokens(45));
+    });
+
+    it('Deployer gets the whole supply without genesis', async function() {
+        const [owner] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        expect(await myDao.balanceOf(owner.address)).to.equal(parseTokens(100));
+        expect(await myDao.claimRoot()).to.equal(ethers.constants.HashZero);
+        expect(await myDao.unclaimedSupply()).to.equal(0);
+    });
+
+    it('Allocations alone must match the initial supply', async function() {
+        const [owner, first] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, {}, undefined, {
+            allocations: [{ account: first.address, amount: parseTokens(100) }],
+        });
+
+        expect(await myDao.balanceOf(owner.address)).to.equal(0);
+        expect(await myDao.balanceOf(first.address)).to.equal(parseTokens(100));
+    });
+
+    itParam('Should reject genesis with ${value[0]}', [
+        ['allocations below the supply', [99], 0, 'Genesis total does not match initial supply'],
+        ['allocations above the supply', [60, 41], 0, 'Genesis total does not match initial supply'],
+        ['claims above the supply', [80], 21, 'Genesis total does not match initial supply'],
+        ['claims below the supply', [], 99, 'Genesis total does not match initial supply'],
+    ], async function([, amounts, claimSupply, error]: [string, number[], number, string]) {
+        const [, ...accounts] = await ethers.getSigners();
+        const tree = new ClaimTree([{ account: accounts[0].address, amount: parseTokens(claimSupply) }]);
+
+        await expect(deployMyDao(hre, {}, undefined, {
+            allocations: amounts.map((amount, i) => ({ account: accounts[i].address, amount: parseTokens(amount) })),
+            claimRoot: claimSupply > 0 ? tree.root : ethers.constants.HashZero,
+            claimSupply: parseTokens(claimSupply),
+        })).to.be.revertedWith(error);
+    });
+
+    it('Should reject claim root without claim supply', async function() {
+        const [owner] = await ethers.getSigners();
+        const tree = new ClaimTree([{ account: owner.address, amount: parseTokens(100) }]);
+
+        await expect(deployMyDao(hre, {}, undefined, { claimRoot: tree.root }))
+            .to.be.revertedWith('Claim root and supply must be set together');
+        await expect(deployMyDao(hre, {}, undefined, { claimSupply: parseTokens(100) }))
+            .to.be.revertedWith('Claim root and supply must be set together');
+    });
+
+    it('Claim transfers the balance from the DAO', async function() {
+        const { myDao, tree, claimant } = await loadFixture(genesisFixture);
+
+        await expect(myDao.connect(claimant).claim(parseTokens(20), tree.getProof(claimant.address)))
+            .to.emit(myDao, 'Transfer').withArgs(myDao.address, claimant.address, parseTokens(20))
+            .to.emit(myDao, 'Claimed').withArgs(claimant.address, parseTokens(20));
+
+        expect(await myDao.balanceOf(claimant.address)).to.equal(parseTokens(20));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(10));
+        expect(await myDao.unclaimedSupply()).to.equal(parseTokens(10));
+        expect(await myDao.claimed(claimant.address)).to.equal(true);
+        expect(await myDao.getVotingPower(claimant.address)).to.equal(parseTokens(20));
+    });
+
+    it('Claimed tokens vote on later proposals', async function() {
+        const { myDao, tree, first, claimant } = await loadFixture(genesisFixture);
+
+        await myDao.connect(claimant).claim(parseTokens(20), tree.getProof(claimant.address));
+        await myDao.connect(first).createProposal(TEST_PROPOSAL_HASH);
+
+        await expect(myDao.connect(claimant).vote(0, Vote.Yes)).not.to.emit(myDao, 'ProposalAccepted');
+        await expect(myDao.connect(first).vote(0, Vote.Yes))
+            .to.emit(myDao, 'ProposalAccepted').withArgs(0, TEST_PROPOSAL_HASH);
+    });
+
+    it('Executed actions cannot spend the unclaimed supply', async function() {
+        const { myDao, tree, first, second, claimant } = await loadFixture(genesisFixture);
+        const actions = [createTokenTransferAction(myDao, first.address, parseTokens(10))];
+        await myDao.connect(first).createExecutableProposal(TEST_PROPOSAL_HASH, getActionsHash(actions));
+        await myDao.connect(first).vote(0, Vote.Yes);
+        await myDao.connect(second).vote(0, Vote.Yes);
+
+        await expect(myDao.execute(0, actions)).to.be.revertedWith('Transfer exceeds the unreserved DAO balance');
+        await expect(myDao.connect(claimant).claim(parseTokens(20), tree.getProof(claimant.address)))
+            .to.emit(myDao, 'Claimed').withArgs(claimant.address, parseTokens(20));
+    });
+
+    it('Cannot claim twice', async function() {
+        const { myDao, tree, claimant } = await loadFixture(genesisFixture);
+        const proof = tree.getProof(claimant.address);
+
+        await myDao.connect(claimant).claim(parseTokens(20), proof);
+
+        await expect(myDao.connect(claimant).claim(parseTokens(20), proof)).to.be.revertedWith('Already claimed');
+    });
+
+    it('Cannot claim with invalid proof', async function() {
+        const { myDao, tree, claimant, otherClaimant, noClaimAccount } = await loadFixture(genesisFixture);
+
+        await expect(myDao.connect(claimant).claim(parseTokens(21), tree.getProof(claimant.address)))
+            .to.be.revertedWith('Invalid claim proof');
+        await expect(myDao.connect(claimant).claim(parseTokens(10), tree.getProof(otherClaimant.address)))
+            .to.be.revertedWith('Invalid claim proof');
+        await expect(myDao.connect(noClaimAccount).claim(parseTokens(20), tree.getProof(claimant.address)))
+            .to.be.revertedWith('Invalid claim proof');
+        await expect(myDao.connect(claimant).claim(parseTokens(20), []))
+            .to.be.revertedWith('Invalid claim proof');
+    });
+
+    it('Cannot claim without claim root', async function() {
+        const [owner] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        await expect(myDao.claim(0, [])).to.be.revertedWith('Invalid claim proof');
+        await expect(myDao.claim(0, [ClaimTree.getLeaf(owner.address, 0)])).to.be.revertedWith('Invalid claim proof');
+    });
+
+    it('Claims cannot exceed the claim supply', async function() {
+        const [first, claimant, otherClaimant] = await ethers.getSigners();
+        // The tree promises more than the claim supply the DAO holds
+        const tree = new ClaimTree([
+            { account: claimant.address, amount: parseTokens(20) },
+            { account: otherClaimant.address, amount: parseTokens(10) },
+        ]);
+        const myDao = await deployMyDao(hre, {}, undefined, {
+            allocations: [{ account: first.address, amount: parseTokens(75) }],
+            claimRoot: tree.root,
+            claimSupply: parseTokens(25),
+        });
+
+        await myDao.connect(claimant).claim(parseTokens(20), tree.getProof(claimant.address));
+
+        await expect(myDao.connect(otherClaimant).claim(parseTokens(10), tree.getProof(otherClaimant.address)))
+            .to.be.revertedWith('Claim exceeds unclaimed supply');
+    });
+
+    it('Deposits are not claimable', async function() {
+        const [first, claimant, otherClaimant] = await ethers.getSigners();
+        const tree = new ClaimTree([
+            { account: claimant.address, amount: parseTokens(20) },
+            { account: otherClaimant.address, amount: parseTokens(10) },
+        ]);
+        const myDao = await deployMyDao(hre, { proposalDeposit: parseTokens(5) }, undefined, {
+            allocations: [{ account: first.address, amount: parseTokens(70) }],
+            claimRoot: tree.root,
+            claimSupply: tree.supply,
+        });
+
+        await myDao.connect(first).createProposal(TEST_PROPOSAL_HASH);
+        await myDao.connect(claimant).claim(parseTokens(20), tree.getProof(claimant.address));
+        await myDao.connect(otherClaimant).claim(parseTokens(10), tree.getProof(otherClaimant.address));
+
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(5));
+        expect(await myDao.unclaimedSupply()).to.equal(0);
     });
-});
\ No newline at end of file
+});
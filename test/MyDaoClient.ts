@@ -0,0 +1,193 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    deployMyDao,
+    getProposalHash,
+    getRevertReason,
+    MyDaoClient,
+    parseTokens,
+    parseVoteChoice,
+    ProposalState,
+    Vote,
+} from '../src';
+
+const DAY = 24 * 60 * 60;
+const VOTING_PERIOD = 3 * DAY;
+
+describe('MyDaoClient', function() {
+    async function deployClientFixture() {
+        const [owner, voter, ...otherAccounts] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        await myDao.transfer(voter.address, parseTokens(40));
+
+        const client = new MyDaoClient(myDao);
+        return { client, myDao, owner, voter, otherAccounts };
+    }
+
+    it('Create proposal', async function() {
+        const { client, myDao, owner } = await loadFixture(deployClientFixture);
+
+        const created = await client.createProposal('Test proposal');
+
+        expect(created.id).to.equal(0);
+        expect(created.proposalHash).to.equal(getProposalHash('Test proposal'));
+        await expect(created.receipt.transactionHash)
+            .to.emit(myDao, 'ProposalCreated').withArgs(0, created.proposalHash, owner.address);
+    });
+
+    it('Decode proposal', async function() {
+        const { client, owner, voter } = await loadFixture(deployClientFixture);
+
+        const { id, proposalHash } = await client.createProposal('Test proposal');
+        const ttl = await time.latest() + VOTING_PERIOD;
+        const snapshot = await ethers.provider.getBlockNumber() - 1;
+        await client.connect(voter).vote(id, 'no');
+
+        expect(await client.getProposal(id)).to.deep.equal({
+            id,
+            proposalHash,
+            ttl,
+            yesVotes: parseTokens(0),
+            noVotes: parseTokens(40),
+            state: ProposalState.Pending,
+            actionsHash: ethers.constants.HashZero,
+            eta: 0,
+            snapshot,
+            proposer: owner.address,
+            amendments: 0,
+            deposit: parseTokens(0),
+        });
+        expect(await client.getVote(id, voter.address)).to.equal(Vote.No);
+        expect(await client.getVotingWeight(id, voter.address)).to.equal(parseTokens(40));
+    });
+
+    it('Vote with every choice', async function() {
+        const { client, voter } = await loadFixture(deployClientFixture);
+        const voterClient = client.connect(voter);
+
+        const { id } = await client.createProposal('Test proposal');
+
+        await voterClient.vote(id, 'yes');
+        expect(await client.getVote(id, voter.address)).to.equal(Vote.Yes);
+        await voterClient.vote(id, 'no');
+        expect(await client.getVote(id, voter.address)).to.equal(Vote.No);
+        await voterClient.vote(id, 'abstain');
+        expect(await client.getVote(id, voter.address)).to.equal(Vote.Abstain);
+    });
+
+    it('Vote for several proposals', async function() {
+        const { client, voter } = await loadFixture(deployClientFixture);
+
+        const first = await client.createProposal('First proposal');
+        const second = await client.createProposal('Second proposal');
+
+        await client.connect(voter).voteMany([
+            { proposalId: first.id, choice: 'yes' },
+            { proposalId: second.id, choice: Vote.No },
+        ]);
+        expect(await client.getVote(first.id, voter.address)).to.equal(Vote.Yes);
+        expect(await client.getVote(second.id, voter.address)).to.equal(Vote.No);
+    });
+
+    it('Unknown vote choice', function() {
+        expect(() => parseVoteChoice('maybe')).to.throw('Unknown vote choice: maybe');
+        expect(() => parseVoteChoice('constructor')).to.throw('Unknown vote choice: constructor');
+        expect(() => parseVoteChoice('toString')).to.throw('Unknown vote choice: toString');
+        expect(parseVoteChoice('YES')).to.equal(Vote.Yes);
+    });
+
+    it('Revert reason of failed transactions', async function() {
+        const { client } = await loadFixture(deployClientFixture);
+
+        const error = await client.finalize(0).catch((e) => e);
+
+        expect(getRevertReason(error)).to.equal('Proposal does not exist');
+        expect(getRevertReason(new Error('reverted with panic code 0x11'))).to.equal(undefined);
+        expect(getRevertReason('timeout')).to.equal(undefined);
+    });
+
+    it('Finalize proposal', async function() {
+        const { client } = await loadFixture(deployClientFixture);
+
+        const { id } = await client.createProposal('Test proposal');
+        await time.increase(VOTING_PERIOD);
+
+        expect(await client.finalize(id)).to.equal(ProposalState.Expired);
+        expect(await client.listActiveProposals()).to.deep.equal([]);
+    });
+
+    it('Expire proposal', async function() {
+        const { client } = await loadFixture(deployClientFixture);
+
+        const { id } = await client.createProposal('Test proposal');
+        await time.increase(VOTING_PERIOD + 1);
+        expect((await client.getProposal(id)).state).to.equal(ProposalState.Expired);
+        expect((await client.contract.proposals(id)).state).to.equal(ProposalState.Pending);
+
+        await client.expire(id);
+        expect((await client.contract.proposals(id)).state).to.equal(ProposalState.Expired);
+        expect(await client.contract.activeProposals()).to.deep.equal([]);
+    });
+
+    it('Amend and cancel proposal', async function() {
+        const { client, voter } = await loadFixture(deployClientFixture);
+
+        const { id } = await client.createProposal('Test proposal');
+        await client.connect(voter).vote(id, 'no');
+
+        const { proposalHash } = await client.amend(id, 'Amended proposal');
+        expect(proposalHash).to.equal(getProposalHash('Amended proposal'));
+        expect(await client.getProposal(id)).to.include({ proposalHash, amendments: 1 });
+        expect(await client.getVote(id, voter.address)).to.equal(Vote.Abstain);
+
+        await client.cancel(id);
+        expect((await client.getProposal(id)).state).to.equal(ProposalState.Cancelled);
+        expect(await client.listActiveProposals()).to.deep.equal([]);
+    });
+
+    it('Cancel queued proposal', async function() {
+        const [, guardian] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, { timelockDelay: DAY, guardian: guardian.address });
+        const client = new MyDaoClient(myDao);
+
+        const { id } = await client.createProposal('Test proposal', []);
+        await client.vote(id, 'yes');
+        expect((await client.getProposal(id)).state).to.equal(ProposalState.Queued);
+
+        await client.connect(guardian).cancel(id);
+        expect((await client.getProposal(id)).state).to.equal(ProposalState.Cancelled);
+    });
+
+    it('Delegate voting power', async function() {
+        const { client, owner, voter } = await loadFixture(deployClientFixture);
+
+        await client.connect(voter).delegate(owner.address);
+
+        expect(await client.getDelegate(voter.address)).to.equal(owner.address);
+        expect(await client.getVotingPower(owner.address)).to.equal(parseTokens(100));
+        expect(await client.getVotingPower(voter.address)).to.equal(0);
+
+        const { id } = await client.createProposal('Test proposal');
+        expect(await client.getVotingWeight(id, owner.address)).to.equal(parseTokens(100));
+        expect(await client.getVotingWeight(id, voter.address)).to.equal(parseTokens(40));
+    });
+
+    it('List active proposals', async function() {
+        const { client } = await loadFixture(deployClientFixture);
+
+        const expired = await client.createProposal('Expired proposal');
+        await time.increase(VOTING_PERIOD + 1);
+
+        const accepted = await client.createProposal('Accepted proposal');
+        const pending = await client.createProposal('Pending proposal');
+        await client.vote(accepted.id, 'yes');
+
+        const active = await client.listActiveProposals();
+
+        expect(active.map((proposal) => proposal.id)).to.deep.equal([pending.id]);
+        expect((await client.getProposal(expired.id)).state).to.equal(ProposalState.Expired);
+        expect((await client.getProposal(accepted.id)).state).to.equal(ProposalState.Accepted);
+    });
+});
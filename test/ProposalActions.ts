@@ -0,0 +1,79 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    createCallAction,
+    createTokenTransferAction,
+    deployMyDao,
+    encodeActions,
+    getActionsHash,
+    MyDaoClient,
+    parseTokens,
+    ProposalDocument,
+    ProposalState,
+} from '../src';
+
+describe('ProposalActions', function() {
+    async function deployActionsFixture() {
+        const [owner, recipient] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        await myDao.transfer(myDao.address, parseTokens(10));
+        return { myDao, client: new MyDaoClient(myDao), owner, recipient };
+    }
+
+    it('Encode actions', async function() {
+        const { myDao, recipient } = await loadFixture(deployActionsFixture);
+
+        const action = createTokenTransferAction(myDao, recipient.address, parseTokens(1));
+
+        expect(action).to.deep.equal({
+            target: myDao.address,
+            value: '0',
+            data: myDao.interface.encodeFunctionData('transfer', [recipient.address, parseTokens(1)]),
+        });
+        expect(createCallAction(myDao, 'approve', [recipient.address, 5], 7)).to.deep.equal({
+            target: myDao.address,
+            value: '7',
+            data: myDao.interface.encodeFunctionData('approve', [recipient.address, 5]),
+        });
+
+        const [decoded] = ethers.utils.defaultAbiCoder.decode(
+            ['tuple(address target, uint256 value, bytes data)[]'], encodeActions([action]));
+        expect(decoded).to.have.length(1);
+        expect(decoded[0].target).to.equal(action.target);
+        expect(decoded[0].data).to.equal(action.data);
+        expect(getActionsHash([])).to.not.equal(ethers.constants.HashZero);
+    });
+
+    it('Client executes proposal from document', async function() {
+        const { client, myDao, owner, recipient } = await loadFixture(deployActionsFixture);
+        const document: ProposalDocument = {
+            version: 1,
+            title: 'Pay the recipient',
+            description: '',
+            author: owner.address,
+            actions: [createTokenTransferAction(myDao, recipient.address, parseTokens(10))],
+            createdAt: 1670000000,
+        };
+
+        const { id } = await client.createProposal(document);
+        expect((await client.getProposal(id)).actionsHash).to.equal(getActionsHash(document.actions!));
+
+        await client.vote(id, 'yes');
+        await client.execute(id, document.actions!);
+
+        expect((await client.getProposal(id)).state).to.equal(ProposalState.Executed);
+        expect(await myDao.balanceOf(recipient.address)).to.equal(parseTokens(10));
+    });
+
+    it('Client creates proposal with explicit actions', async function() {
+        const { client, myDao, recipient } = await loadFixture(deployActionsFixture);
+
+        const plain = await client.createProposal('Plain proposal');
+        const actions = [createTokenTransferAction(myDao, recipient.address, 1)];
+        const executable = await client.createProposal('Executable proposal', actions);
+
+        expect((await client.getProposal(plain.id)).actionsHash).to.equal(ethers.constants.HashZero);
+        expect((await client.getProposal(executable.id)).actionsHash).to.equal(getActionsHash(actions));
+    });
+});
@@ -0,0 +1,152 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    deployMyDao,
+    getProposalDocumentHash,
+    getProposalHash,
+    getSerializedProposalDocumentHash,
+    InvalidProposalDocumentError,
+    MyDaoClient,
+    parseProposalDocument,
+    PROPOSAL_DOCUMENT_DOMAIN,
+    PROPOSAL_DOCUMENT_TYPES,
+    ProposalDocument,
+    ProposalHashMismatchError,
+    ProposalStore,
+    serializeProposalDocument,
+} from '../src';
+
+const AUTHOR = '0x5B38Da6a701c568545dCfcB03FcB875f56beddC4';
+const TARGET = '0xAb8483F64d9C6d1EcF9b849Ae677dD3315835cb2';
+
+const TEST_DOCUMENT: ProposalDocument = {
+    version: 1,
+    title: 'Fund the community event',
+    description: 'Send 10 MDA to the organizers.\nThey will report back.',
+    author: AUTHOR,
+    actions: [{ target: TARGET, value: '0', data: '0xA9059CBB' }],
+    createdAt: 1670000000,
+};
+
+describe('ProposalDocument', function() {
+    async function deployDocumentFixture() {
+        const myDao = await deployMyDao(hre);
+        return { myDao };
+    }
+
+    it('Semantically equal documents have the same hash', function() {
+        const variants: ProposalDocument[] = [
+            {
+                createdAt: 1670000000,
+                actions: [{ data: '0xa9059cbb', value: '0', target: TARGET.toLowerCase() }],
+                author: AUTHOR.toLowerCase(),
+                description: '  Send 10 MDA to the organizers.\r\nThey will report back.\n',
+                title: 'Fund  the\tcommunity event ',
+                version: 1,
+            },
+            {
+                ...TEST_DOCUMENT,
+                title: 'Fund the community event'.normalize('NFD'),
+                description: TEST_DOCUMENT.description.replace('\n', '\r'),
+            },
+        ];
+
+        const hash = getProposalDocumentHash(TEST_DOCUMENT);
+        for (const variant of variants) {
+            expect(getProposalDocumentHash(variant)).to.equal(hash);
+            expect(serializeProposalDocument(variant)).to.equal(serializeProposalDocument(TEST_DOCUMENT));
+        }
+    });
+
+    it('Empty and missing actions have the same hash', function() {
+        const withoutActions = { ...TEST_DOCUMENT, actions: undefined };
+        const emptyActions = { ...TEST_DOCUMENT, actions: [] };
+
+        expect(getProposalDocumentHash(withoutActions)).to.equal(getProposalDocumentHash(emptyActions));
+        expect(serializeProposalDocument(emptyActions)).to.not.contain('actions');
+    });
+
+    it('Different documents have different hashes', function() {
+        const hash = getProposalDocumentHash(TEST_DOCUMENT);
+
+        expect(getProposalDocumentHash({ ...TEST_DOCUMENT, title: 'Fund the community event!' })).to.not.equal(hash);
+        expect(getProposalDocumentHash({ ...TEST_DOCUMENT, createdAt: 1670000001 })).to.not.equal(hash);
+        expect(getProposalDocumentHash({ ...TEST_DOCUMENT, actions: [] })).to.not.equal(hash);
+        expect(getProposalDocumentHash({ ...TEST_DOCUMENT, description: 'send 10 MDA to the organizers.' }))
+            .to.not.equal(hash);
+    });
+
+    it('Hash is EIP-712 typed data hash', async function() {
+        const [signer] = await ethers.getSigners();
+        const document = parseProposalDocument(serializeProposalDocument(TEST_DOCUMENT));
+
+        const signature = await signer._signTypedData(PROPOSAL_DOCUMENT_DOMAIN, PROPOSAL_DOCUMENT_TYPES, document);
+
+        expect(ethers.utils.recoverAddress(getProposalDocumentHash(TEST_DOCUMENT), signature))
+            .to.equal(signer.address);
+    });
+
+    it('Serialization is canonical', function() {
+        const serialized = serializeProposalDocument(TEST_DOCUMENT);
+
+        expect(serialized).to.equal(
+            '{"actions":[{"data":"0xa9059cbb","target":"' + TARGET + '","value":"0"}],' +
+            '"author":"' + AUTHOR + '","createdAt":1670000000,' +
+            '"description":"Send 10 MDA to the organizers.\\nThey will report back.",' +
+            '"title":"Fund the community event","version":1}'
+        );
+        expect(getSerializedProposalDocumentHash(serialized)).to.equal(getProposalDocumentHash(TEST_DOCUMENT));
+    });
+
+    it('Reject invalid documents', function() {
+        const invalid: unknown[] = [
+            { ...TEST_DOCUMENT, version: 2 },
+            { ...TEST_DOCUMENT, title: '' },
+            { ...TEST_DOCUMENT, author: '0x1234' },
+            { ...TEST_DOCUMENT, createdAt: -1 },
+            { ...TEST_DOCUMENT, extra: 'field' },
+            { ...TEST_DOCUMENT, actions: [{ target: TARGET, value: '-1', data: '0x' }] },
+            { ...TEST_DOCUMENT, actions: [{ target: TARGET, value: '0', data: '0x123' }] },
+            { title: 'Missing fields' },
+        ];
+
+        for (const document of invalid) {
+            expect(() => parseProposalDocument(JSON.stringify(document)))
+                .to.throw(InvalidProposalDocumentError);
+        }
+    });
+
+    it('Client creates proposal from document', async function() {
+        const { myDao } = await loadFixture(deployDocumentFixture);
+        const store = new ProposalStore(undefined, getSerializedProposalDocumentHash);
+        const client = new MyDaoClient(myDao, store);
+
+        const { id, proposalHash } = await client.createProposal(TEST_DOCUMENT);
+
+        expect(proposalHash).to.equal(getProposalDocumentHash(TEST_DOCUMENT));
+        expect((await myDao.proposals(id)).proposalHash).to.equal(proposalHash);
+        expect(parseProposalDocument((await client.getProposalText(id))!))
+            .to.deep.equal(parseProposalDocument(serializeProposalDocument(TEST_DOCUMENT)));
+
+        await expect(new MyDaoClient(myDao, store).createProposal('Plain text'))
+            .to.be.rejectedWith(SyntaxError);
+        await expect(new MyDaoClient(myDao, new ProposalStore()).createProposal(TEST_DOCUMENT))
+            .to.be.rejectedWith(ProposalHashMismatchError);
+    });
+
+    it('Client with a document store keeps comment texts', async function() {
+        const { myDao } = await loadFixture(deployDocumentFixture);
+        const store = new ProposalStore(undefined, getSerializedProposalDocumentHash);
+        const client = new MyDaoClient(myDao, store);
+        const { id } = await client.createProposal(TEST_DOCUMENT);
+
+        const { commentHash } = await client.comment(id, 'Looks good');
+
+        expect(commentHash).to.equal(getProposalHash('Looks good'));
+        expect(await client.commentStore!.get(commentHash)).to.equal('Looks good');
+        // Comments share the backend of the document store
+        expect(await store.backend.read(commentHash)).to.equal('Looks good');
+        expect(client.connect((await ethers.getSigners())[1]).commentStore).to.equal(client.commentStore);
+    });
+});
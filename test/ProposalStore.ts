@@ -0,0 +1,106 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import hre, { ethers } from 'hardhat';
+import os from 'os';
+import path from 'path';
+import {
+    deployMyDao,
+    FileSystemProposalBackend,
+    getProposalHash,
+    MyDaoClient,
+    ProposalHashMismatchError,
+    ProposalNotFoundError,
+    ProposalStore,
+} from '../src';
+
+const TEST_PROPOSAL = 'Test proposal';
+const TEST_PROPOSAL_HASH = getProposalHash(TEST_PROPOSAL);
+
+describe('ProposalStore', function() {
+    let directory: string;
+
+    beforeEach(async function() {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'proposals-'));
+    });
+
+    afterEach(async function() {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    async function deployStoreFixture() {
+        const [owner] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        return { myDao, owner };
+    }
+
+    it('Put and get document in memory', async function() {
+        const store = new ProposalStore();
+
+        expect(await store.put(TEST_PROPOSAL)).to.equal(TEST_PROPOSAL_HASH);
+        expect(await store.get(TEST_PROPOSAL_HASH)).to.equal(TEST_PROPOSAL);
+        expect(await store.has(TEST_PROPOSAL_HASH)).to.equal(true);
+        expect(await store.get(getProposalHash('Other proposal'))).to.equal(undefined);
+    });
+
+    it('Put document with expected hash', async function() {
+        const store = new ProposalStore();
+
+        expect(await store.put(TEST_PROPOSAL, TEST_PROPOSAL_HASH)).to.equal(TEST_PROPOSAL_HASH);
+        await expect(store.put('Other proposal', TEST_PROPOSAL_HASH))
+            .to.be.rejectedWith(ProposalHashMismatchError);
+        expect(await store.get(TEST_PROPOSAL_HASH)).to.equal(TEST_PROPOSAL);
+    });
+
+    it('Put and get document in file system', async function() {
+        const store = new ProposalStore(new FileSystemProposalBackend(path.join(directory, 'nested')));
+
+        await store.put(TEST_PROPOSAL);
+
+        const reopened = new ProposalStore(new FileSystemProposalBackend(path.join(directory, 'nested')));
+        expect(await reopened.get(TEST_PROPOSAL_HASH)).to.equal(TEST_PROPOSAL);
+        expect(await reopened.has(getProposalHash('Other proposal'))).to.equal(false);
+    });
+
+    it('Refuse modified file', async function() {
+        const store = new ProposalStore(new FileSystemProposalBackend(directory));
+
+        await store.put(TEST_PROPOSAL);
+        await fs.writeFile(path.join(directory, TEST_PROPOSAL_HASH), 'Modified proposal');
+
+        await expect(store.get(TEST_PROPOSAL_HASH)).to.be.rejectedWith(ProposalHashMismatchError);
+    });
+
+    it('Resolve ProposalCreated event', async function() {
+        const { myDao, owner } = await loadFixture(deployStoreFixture);
+        const store = new ProposalStore();
+
+        await store.put(TEST_PROPOSAL);
+        await myDao.createProposal(TEST_PROPOSAL_HASH);
+        await myDao.createProposal(getProposalHash('Unknown proposal'));
+
+        const [known, unknown] = await myDao.queryFilter(myDao.filters.ProposalCreated());
+
+        expect(await store.resolve(known)).to.deep.equal({
+            proposalId: 0,
+            proposalHash: TEST_PROPOSAL_HASH,
+            creator: owner.address,
+            document: TEST_PROPOSAL,
+        });
+        await expect(store.resolve(unknown)).to.be.rejectedWith(ProposalNotFoundError);
+    });
+
+    it('Client stores created proposals', async function() {
+        const { myDao } = await loadFixture(deployStoreFixture);
+        const store = new ProposalStore(new FileSystemProposalBackend(directory));
+        const client = new MyDaoClient(myDao, store);
+
+        const { id, proposalHash } = await client.createProposal(TEST_PROPOSAL);
+
+        expect(proposalHash).to.equal(TEST_PROPOSAL_HASH);
+        expect(await client.getProposalText(id)).to.equal(TEST_PROPOSAL);
+        expect(await fs.readFile(path.join(directory, TEST_PROPOSAL_HASH), 'utf8')).to.equal(TEST_PROPOSAL);
+        await expect(new MyDaoClient(myDao).getProposalText(id))
+            .to.be.rejectedWith('Proposal store is not configured');
+    });
+});
@@ -0,0 +1,368 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import hre, { ethers } from 'hardhat';
+import {
+    checkTallies,
+    ClaimTree,
+    createTokenTransferAction,
+    DaoEvent,
+    DaoModel,
+    DaoModelError,
+    DecisionRule,
+    DEFAULT_GOVERNANCE_PARAMS,
+    deployMyDao,
+    getActionsHash,
+    getProposalHash,
+    Indexer,
+    parseTokens,
+    ProposalState,
+    Vote,
+} from '../src';
+
+const DAY = 24 * 60 * 60;
+const VOTING_PERIOD = 3 * DAY;
+
+describe('TallyChecker', function() {
+    async function historyFixture() {
+        const [owner, ...otherAccounts] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        const voters = otherAccounts.slice(0, 3);
+        const balances = [25, 40, 35].map((x) => parseTokens(x));
+        for (let i = 0; i < voters.length; i++) {
+            await myDao.transfer(voters[i].address, balances[i]);
+        }
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(voters[1]).createProposal(getProposalHash('Proposal 1'));
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await myDao.connect(voters[1]).vote(1, Vote.Yes);
+        await myDao.connect(voters[2]).transfer(voters[0].address, parseTokens(10));
+        await myDao.connect(voters[0]).approve(voters[2].address, parseTokens(35));
+        await myDao.connect(voters[2]).transferFrom(voters[0].address, voters[1].address, parseTokens(35));
+
+        // Voters keep their snapshot weights after the transfers
+        await myDao.connect(voters[2]).vote(1, Vote.Yes);
+        await myDao.connect(voters[0]).vote(0, Vote.No);
+
+        await time.increase(VOTING_PERIOD + 1);
+        await myDao.connect(voters[1]).transfer(voters[2].address, parseTokens(20));
+        await myDao.connect(voters[2]).createProposal(getProposalHash('Proposal 2'));
+        await myDao.connect(voters[2]).createProposal(getProposalHash('Proposal 3'));
+        await myDao.connect(voters[1]).vote(3, Vote.No);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+
+        return { myDao, owner, voters, events: await indexer.getEvents() };
+    }
+
+    it('Recomputed tallies match the contract', async function() {
+        const { myDao, events } = await loadFixture(historyFixture);
+
+        const { proposals, mismatches } = await checkTallies(myDao, events);
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals).to.have.length(4);
+        for (const proposal of proposals) {
+            const stored = await myDao.proposals(proposal.id);
+            expect(proposal.yesVotes).to.equal(stored.yesVotes);
+            expect(proposal.noVotes).to.equal(stored.noVotes);
+            expect(proposal.state).to.equal(stored.state);
+        }
+        expect(proposals[0].state).to.equal(ProposalState.Rejected);
+        expect(proposals[1].yesVotes).to.equal(parseTokens(75));
+        expect(proposals[3].noVotes).to.equal(parseTokens(55));
+    });
+
+    it('Replay finalized proposals', async function() {
+        const [owner, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, { decisionRule: DecisionRule.QuorumMajority, quorumPercent: 20 });
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        for (let i = 0; i < 3; i++) {
+            await myDao.createProposal(getProposalHash(`Proposal ${i}`));
+        }
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[0]).vote(1, Vote.No);
+        await time.increase(VOTING_PERIOD);
+        await myDao.finalize(1);
+        await myDao.connect(owner).createProposal(getProposalHash('Proposal 3'));
+        // Finalizes proposals 0 and 2 to make space
+        await myDao.connect(owner).createProposal(getProposalHash('Proposal 4'));
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals.map((proposal) => proposal.state)).to.deep.equal([
+            ProposalState.Accepted,
+            ProposalState.Rejected,
+            ProposalState.Expired,
+            ProposalState.Pending,
+            ProposalState.Pending,
+        ]);
+    });
+
+    it('Replay executed proposals', async function() {
+        const [owner, recipient] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(myDao.address, parseTokens(20));
+        const actions = [createTokenTransferAction(myDao, recipient.address, parseTokens(20))];
+        await myDao.createExecutableProposal(getProposalHash('Proposal 0'), getActionsHash(actions));
+        await myDao.connect(owner).vote(0, Vote.Yes);
+        await myDao.execute(0, actions);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals[0].state).to.equal(ProposalState.Executed);
+    });
+
+    it('Replay queued and cancelled proposals', async function() {
+        const [owner, guardian, voter, opponent] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, { timelockDelay: DAY, guardian: guardian.address });
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+        const actionsHash = getActionsHash([]);
+
+        await myDao.transfer(voter.address, parseTokens(30));
+        await myDao.transfer(opponent.address, parseTokens(40));
+        for (let i = 0; i < 3; i++) {
+            await myDao.createExecutableProposal(getProposalHash(`Proposal ${i}`), actionsHash);
+            await myDao.connect(owner).vote(i, Vote.Yes);
+            await myDao.connect(voter).vote(i, Vote.Yes);
+        }
+
+        await myDao.connect(guardian).cancel(0);
+        await myDao.connect(opponent).vote(1, Vote.No);
+        await myDao.connect(voter).vote(1, Vote.No);
+        await time.increaseTo((await myDao.proposals(2)).eta);
+        await myDao.execute(2, []);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals.map((proposal) => proposal.state)).to.deep.equal([
+            ProposalState.Cancelled,
+            ProposalState.Cancelled,
+            ProposalState.Executed,
+        ]);
+    });
+
+    it('Replay delegated votes', async function() {
+        const [owner, ...voters] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(voters[0].address, parseTokens(30));
+        await myDao.transfer(voters[1].address, parseTokens(20));
+        await myDao.connect(voters[0]).delegate(voters[1].address);
+        await myDao.connect(voters[1]).delegate(owner.address);
+        await myDao.createProposal(getProposalHash('Proposal 0'));
+
+        await myDao.connect(voters[0]).delegate(voters[0].address);
+        await myDao.connect(voters[0]).transfer(owner.address, parseTokens(10));
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[0]).vote(0, Vote.Abstain);
+        await myDao.connect(owner).vote(0, Vote.Yes);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals[0].yesVotes).to.equal(parseTokens(50));
+        expect(proposals[0].noVotes).to.equal(parseTokens(50));
+    });
+
+    it('Replay batch votes, vote reasons and comments', async function() {
+        const [owner, voter] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(voter.address, parseTokens(30));
+        for (let i = 0; i < 3; i++) {
+            await myDao.createProposal(getProposalHash(`Proposal ${i}`));
+        }
+        await myDao.connect(voter).voteBatch([0, 1, 2, 2], [Vote.Yes, Vote.No, Vote.Yes, Vote.No]);
+        await myDao.voteBatch([0, 1], [Vote.Yes, Vote.No]);
+        await myDao.connect(voter).voteWithReason(2, Vote.Yes, 'Changed my mind');
+        await myDao.connect(voter).comment(2, getProposalHash('Comment'), ethers.constants.HashZero);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals.map((proposal) => proposal.state)).to.deep.equal([
+            ProposalState.Accepted,
+            ProposalState.Rejected,
+            ProposalState.Pending,
+        ]);
+        expect(proposals[2].yesVotes).to.equal(parseTokens(30));
+    });
+
+    it('Replay amended and withdrawn proposals', async function() {
+        const [owner, creator, voter] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(creator.address, parseTokens(20));
+        await myDao.transfer(voter.address, parseTokens(30));
+        await myDao.connect(creator).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(creator).createProposal(getProposalHash('Proposal 1'));
+        await myDao.connect(voter).vote(0, Vote.Yes);
+        await myDao.connect(voter).vote(1, Vote.No);
+        await myDao.connect(voter).transfer(owner.address, parseTokens(30));
+
+        await myDao.connect(creator).amend(0, getProposalHash('Amended proposal 0'));
+        await myDao.connect(creator).cancel(1);
+        await myDao.vote(0, Vote.No);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals.map((proposal) => proposal.state)).to.deep.equal([
+            ProposalState.Rejected,
+            ProposalState.Cancelled,
+        ]);
+        expect(proposals[0].proposalHash).to.equal(getProposalHash('Amended proposal 0'));
+        expect(proposals[0].votes.get(voter.address)).to.equal(undefined);
+    });
+
+    it('Replay proposal deposits', async function() {
+        const [owner, creator] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre, { proposalThreshold: parseTokens(10), proposalDeposit: parseTokens(5) });
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.transfer(creator.address, parseTokens(40));
+        for (let i = 0; i < 3; i++) {
+            await myDao.connect(creator).createProposal(getProposalHash(`Proposal ${i}`));
+        }
+        await myDao.vote(0, Vote.Yes);
+        await myDao.connect(creator).cancel(1);
+        await time.increase(VOTING_PERIOD + 1);
+        await myDao.finalize(2);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals.map((proposal) => proposal.state)).to.deep.equal([
+            ProposalState.Accepted,
+            ProposalState.Cancelled,
+            ProposalState.Expired,
+        ]);
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(10));
+    });
+
+    it('Replay genesis allocations and claims', async function() {
+        const [, first, claimant] = await ethers.getSigners();
+        const tree = new ClaimTree([{ account: claimant.address, amount: parseTokens(40) }]);
+        const myDao = await deployMyDao(hre, {}, undefined, {
+            allocations: [{ account: first.address, amount: parseTokens(60) }],
+            claimRoot: tree.root,
+            claimSupply: tree.supply,
+        });
+        const fromBlock = myDao.deployTransaction.blockNumber!;
+
+        await myDao.connect(first).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(claimant).claim(parseTokens(40), tree.getProof(claimant.address));
+        await myDao.connect(claimant).createProposal(getProposalHash('Proposal 1'));
+        await myDao.connect(claimant).vote(1, Vote.No);
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        const { proposals, mismatches } = await checkTallies(myDao, await indexer.getEvents());
+
+        expect(mismatches).to.deep.equal([]);
+        expect(proposals[1].noVotes).to.equal(parseTokens(40));
+    });
+
+    it('Model keeps the unclaimed supply out of reach of DAO transfers', async function() {
+        const [dao, first, claimant] = (await ethers.getSigners()).map((signer) => signer.address);
+        const model = new DaoModel(DEFAULT_GOVERNANCE_PARAMS, dao);
+        model.mint(first, parseTokens(60));
+        model.mintClaimSupply(parseTokens(40));
+        model.transfer(first, dao, parseTokens(5), 1);
+
+        expect(() => model.transfer(dao, first, parseTokens(6), 2))
+            .to.throw(DaoModelError, 'Transfer exceeds the unreserved DAO balance');
+        model.transfer(dao, first, parseTokens(5), 2);
+        expect(() => model.claim(claimant, parseTokens(41), 3)).to.throw(DaoModelError, 'Claim exceeds unclaimed supply');
+        expect(model.claim(claimant, parseTokens(40), 3)).to.deep.equal([
+            { name: 'Transfer', from: dao, to: claimant, value: parseTokens(40) },
+            { name: 'Claimed', account: claimant, amount: parseTokens(40) },
+        ]);
+        expect(model.unclaimedSupply).to.equal(0);
+        expect(() => model.claim(claimant, parseTokens(0), 4)).to.throw(DaoModelError, 'Already claimed');
+    });
+
+    it('Recomputed votes of every voter', async function() {
+        const { myDao, voters, events } = await loadFixture(historyFixture);
+
+        const { proposals } = await checkTallies(myDao, events);
+
+        expect([...proposals[0].votes.entries()]).to.deep.equal([
+            [voters[0].address, Vote.No],
+            [voters[1].address, Vote.No],
+        ]);
+        expect(proposals[0].creator).to.equal(voters[0].address);
+    });
+
+    it('Flag missing vote', async function() {
+        const { myDao, voters, events } = await loadFixture(historyFixture);
+
+        const tampered = events.filter((event) =>
+            !(event.name === 'Voted' && event.proposalId === 1 && event.voter === voters[1].address));
+        const { mismatches } = await checkTallies(myDao, tampered);
+
+        expect(mismatches).to.deep.include({
+            proposalId: 1,
+            message: `Proposal yesVotes should be ${parseTokens(35)}, got ${parseTokens(75)}`,
+        });
+        const eventMismatch = mismatches.find((mismatch) => mismatch.transactionHash !== undefined);
+        expect(eventMismatch?.message).to.match(/^Expected events \[.*\], got \[.*ProposalAccepted\(proposalId=1, /);
+    });
+
+    it('Flag changed transfer', async function() {
+        const { myDao, events } = await loadFixture(historyFixture);
+
+        const tampered: DaoEvent[] = events.map((event) => event.name === 'Transfer' && event.value.eq(parseTokens(20))
+            ? { ...event, value: BigNumber.from(parseTokens(21)) }
+            : event);
+        const { mismatches } = await checkTallies(myDao, tampered);
+
+        expect(mismatches).to.not.deep.equal([]);
+        expect(mismatches.some((mismatch) => mismatch.message.startsWith('Transaction reverts in the model')))
+            .to.equal(false);
+        expect(mismatches.some((mismatch) => mismatch.proposalId === 3)).to.equal(true);
+    });
+
+    it('Flag wrong governance parameters', async function() {
+        const { myDao, events } = await loadFixture(historyFixture);
+
+        const { mismatches } = await checkTallies(myDao, events, { ...DEFAULT_GOVERNANCE_PARAMS, votingPeriod: DAY });
+
+        const { ttl } = await myDao.proposals(0);
+        expect(mismatches).to.deep.include({
+            proposalId: 0,
+            message: `Proposal ttl should be ${ttl.sub(VOTING_PERIOD - DAY)}, got ${ttl}`,
+        });
+    });
+});
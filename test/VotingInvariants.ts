@@ -0,0 +1,501 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, ContractTransaction } from 'ethers';
+import fc from 'fast-check';
+import hre, { ethers } from 'hardhat';
+import {
+    DaoEventData,
+    DaoModel,
+    DaoModelError,
+    DecisionRule,
+    decodeDaoEvent,
+    DEFAULT_GOVERNANCE_PARAMS,
+    deployMyDao,
+    getActionsHash,
+    getRevertReason,
+    GovernanceParams,
+    parseTokens,
+    ProposalState,
+    signBallot,
+    Vote,
+} from '../src';
+import { MyDao } from '../typechain-types';
+
+const DAY = 24 * 60 * 60;
+const VOTING_PERIOD = 3 * DAY;
+const TIMELOCK_DELAY = DAY;
+
+const NUM_RUNS = Number(process.env.FUZZ_RUNS ?? 20);
+const MAX_COMMANDS = Number(process.env.FUZZ_COMMANDS ?? 25);
+
+const BALANCES = [10, 15, 20, 25, 30];
+
+// Quorum rule, so that finalized proposals can be accepted or rejected as well as expire.
+// The owner is the guardian of the timelock. It keeps 10 tokens, below the proposal threshold.
+const PARAMS = {
+    ...DEFAULT_GOVERNANCE_PARAMS,
+    decisionRule: DecisionRule.QuorumMajority,
+    quorumPercent: 20,
+    timelockDelay: TIMELOCK_DELAY,
+    proposalThreshold: parseTokens(12),
+    proposalDeposit: parseTokens(5),
+};
+
+// Executable proposals of the harness have no actions, executing them only changes their state
+const EMPTY_ACTIONS_HASH = getActionsHash([]);
+
+interface Model {
+    dao: DaoModel,
+    now: number,
+}
+
+interface Real {
+    myDao: MyDao,
+    accounts: SignerWithAddress[],
+}
+
+/**
+ * Run the same operation in the model and on the chain at the same timestamp,
+ * both must either revert with the same reason or emit the same events
+ */
+async function execute(
+    model: Model,
+    real: Real,
+    modelCall: (dao: DaoModel, timestamp: number) => DaoEventData[],
+    call: () => Promise<ContractTransaction>,
+): Promise<void> {
+    model.now += 1;
+    await time.setNextBlockTimestamp(model.now);
+
+    let expected: DaoEventData[] | string;
+    try {
+        expected = modelCall(model.dao, model.now);
+    } catch (e) {
+        if (!(e instanceof DaoModelError) || e.panic) {
+            throw e;
+        }
+        expected = e.reason;
+    }
+
+    let actual: DaoEventData[] | string;
+    try {
+        const receipt = await (await call()).wait();
+        actual = receipt.logs
+            .map((log) => decodeDaoEvent(real.myDao, log))
+            .filter((event): event is DaoEventData => event !== undefined);
+    } catch (e) {
+        // Panics and other errors fail the property
+        const reason = getRevertReason(e);
+        if (reason === undefined) {
+            throw e;
+        }
+        actual = reason;
+    }
+
+    expect(actual).to.deep.equal(expected);
+}
+
+/**
+ * Check the voting invariants on the chain
+ */
+async function checkInvariants(real: Real): Promise<void> {
+    const { myDao, accounts } = real;
+    const totalSupply = await myDao.totalSupply();
+    const activeProposals = (await myDao.activeProposals()).map((id) => id.toNumber());
+    const count = (await myDao.proposalsCount()).toNumber();
+
+    expect(activeProposals.length).to.equal(await myDao.activeProposalsCount());
+    expect(activeProposals.length).to.be.lte(PARAMS.maxProposals, 'Too many active proposals');
+
+    // Every balance is counted in the voting power of exactly one delegate, the DAO holds the deposits
+    let votingPower = await myDao.getVotingPower(myDao.address);
+    for (const account of accounts) {
+        votingPower = votingPower.add(await myDao.getVotingPower(account.address));
+    }
+    expect(votingPower).to.equal(totalSupply, 'Voting power is not the total supply');
+    expect(await myDao.balanceOf(myDao.address))
+        .to.be.gte(PARAMS.proposalDeposit.mul(activeProposals.length), 'Deposits of active proposals are not held');
+
+    for (let id = 0; id < count; id++) {
+        const proposal = await myDao.proposals(id);
+
+        expect(proposal.yesVotes.add(proposal.noVotes))
+            .to.be.lte(totalSupply, `Proposal ${id} has more votes than total supply`);
+
+        if (proposal.state === ProposalState.Pending) {
+            expect(activeProposals).to.include(id, `Pending proposal ${id} is not active`);
+        } else {
+            expect(activeProposals).to.not.include(id, `Resolved proposal ${id} is still active`);
+        }
+
+        // Votes are weighted by the snapshot voting power, so the tally never drifts, whatever the state
+        let yesVotes = BigNumber.from(0);
+        let noVotes = BigNumber.from(0);
+        for (const account of accounts) {
+            const vote = await myDao.getVote(id, account.address);
+            const weight = await myDao.getVotingWeight(id, account.address);
+            if (vote === Vote.Yes) {
+                yesVotes = yesVotes.add(weight);
+            } else if (vote === Vote.No) {
+                noVotes = noVotes.add(weight);
+            }
+        }
+        expect(proposal.yesVotes).to.equal(yesVotes, `Proposal ${id} YES tally is not a sum of snapshot balances`);
+        expect(proposal.noVotes).to.equal(noVotes, `Proposal ${id} NO tally is not a sum of snapshot balances`);
+    }
+}
+
+class CreateProposalCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly executable: boolean) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const creator = real.accounts[this.account];
+        const proposalHash = ethers.utils.hexZeroPad(ethers.utils.hexlify(model.dao.proposals.length + 1), 32);
+        if (this.executable) {
+            await execute(model, real,
+                (dao, timestamp) => dao.createProposal(creator.address, proposalHash, timestamp, EMPTY_ACTIONS_HASH),
+                () => real.myDao.connect(creator).createExecutableProposal(proposalHash, EMPTY_ACTIONS_HASH));
+        } else {
+            await execute(model, real,
+                (dao, timestamp) => dao.createProposal(creator.address, proposalHash, timestamp),
+                () => real.myDao.connect(creator).createProposal(proposalHash));
+        }
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return this.executable
+            ? `createExecutableProposal(account${this.account})`
+            : `createProposal(account${this.account})`;
+    }
+}
+
+class VoteCommand implements fc.AsyncCommand<Model, Real> {
+    /**
+     * @param bySig Whether the vote is a ballot expiring in its block, submitted by the next account
+     */
+    constructor(readonly account: number, readonly proposal: number, readonly vote: Vote, readonly bySig: boolean) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const voter = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        if (this.bySig) {
+            const relayer = real.accounts[(this.account + 1) % real.accounts.length];
+            const ballot = await signBallot(real.myDao, voter, proposalId, this.vote, model.now + 1);
+            const { v, r, s } = ethers.utils.splitSignature(ballot.signature);
+            await execute(model, real,
+                (dao, timestamp) => dao.vote(voter.address, proposalId, this.vote, timestamp),
+                () => real.myDao.connect(relayer)
+                    .voteBySig(proposalId, this.vote, ballot.nonce, ballot.deadline, v, r, s));
+        } else {
+            await execute(model, real,
+                (dao, timestamp) => dao.vote(voter.address, proposalId, this.vote, timestamp),
+                () => real.myDao.connect(voter).vote(proposalId, this.vote));
+        }
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        const name = this.bySig ? 'voteBySig' : 'vote';
+        return `${name}(account${this.account}, proposal${this.proposal}, ${Vote[this.vote]})`;
+    }
+}
+
+class VoteBatchCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly votes: [number, Vote][]) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const voter = real.accounts[this.account];
+        const proposalIds = this.votes.map(([proposal]) => proposal % (model.dao.proposals.length + 1));
+        const votes = this.votes.map(([, vote]) => vote);
+        await execute(model, real,
+            (dao, timestamp) => dao.voteBatch(voter.address, proposalIds, votes, timestamp),
+            () => real.myDao.connect(voter).voteBatch(proposalIds, votes));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        const votes = this.votes.map(([proposal, vote]) => `proposal${proposal}: ${Vote[vote]}`);
+        return `voteBatch(account${this.account}, [${votes.join(', ')}])`;
+    }
+}
+
+class TransferCommand implements fc.AsyncCommand<Model, Real> {
+    /**
+     * @param spender Account sending the transaction, transfers from the allowance if it is not the sender
+     * @param percent Percent of the sender balance to transfer, more than 100 should revert
+     */
+    constructor(readonly spender: number, readonly from: number, readonly to: number, readonly percent: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const spender = real.accounts[this.spender];
+        const sender = real.accounts[this.from];
+        const recipient = real.accounts[this.to];
+        const amount = model.dao.balanceOf(sender.address).mul(this.percent).div(100);
+
+        if (this.spender === this.from) {
+            await execute(model, real,
+                (dao, timestamp) => dao.transfer(sender.address, recipient.address, amount, timestamp),
+                () => real.myDao.connect(sender).transfer(recipient.address, amount));
+        } else {
+            await execute(model, real,
+                (dao, timestamp) => dao.transfer(sender.address, recipient.address, amount, timestamp),
+                () => real.myDao.connect(spender).transferFrom(sender.address, recipient.address, amount));
+        }
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return this.spender === this.from
+            ? `transfer(account${this.from} -> account${this.to}, ${this.percent}%)`
+            : `transferFrom(account${this.spender}: account${this.from} -> account${this.to}, ${this.percent}%)`;
+    }
+}
+
+class DelegateCommand implements fc.AsyncCommand<Model, Real> {
+    /**
+     * @param delegatee Index of the delegate account, the zero address if it is out of range
+     */
+    constructor(readonly delegator: number, readonly delegatee: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const delegator = real.accounts[this.delegator];
+        const delegatee = real.accounts[this.delegatee]?.address ?? ethers.constants.AddressZero;
+        await execute(model, real,
+            (dao, timestamp) => dao.delegate(delegator.address, delegatee, timestamp),
+            () => real.myDao.connect(delegator).delegate(delegatee));
+        expect(await real.myDao.getVotingPower(delegatee)).to.equal(model.dao.getVotingPower(delegatee));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `delegate(account${this.delegator} -> account${this.delegatee})`;
+    }
+}
+
+class FinalizeCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly proposal: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const caller = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        await execute(model, real,
+            (dao, timestamp) => dao.finalize(proposalId, timestamp),
+            () => real.myDao.connect(caller).finalize(proposalId));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `finalize(account${this.account}, proposal${this.proposal})`;
+    }
+}
+
+class ExpireCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly proposal: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const caller = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        if (proposalId < model.dao.proposals.length) {
+            // The derived state at the last block is what the model state gives at its timestamp
+            expect(await real.myDao.state(proposalId))
+                .to.equal(model.dao.getState(proposalId, await time.latest()), `Proposal ${proposalId} state`);
+        }
+        await execute(model, real,
+            (dao, timestamp) => dao.expire(proposalId, timestamp),
+            () => real.myDao.connect(caller).expire(proposalId));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `expire(account${this.account}, proposal${this.proposal})`;
+    }
+}
+
+class ExecuteCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly proposal: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const caller = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        await execute(model, real,
+            (dao, timestamp) => dao.execute(proposalId, timestamp, EMPTY_ACTIONS_HASH),
+            () => real.myDao.connect(caller).execute(proposalId, []));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `execute(account${this.account}, proposal${this.proposal})`;
+    }
+}
+
+class CancelCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly proposal: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const caller = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        await execute(model, real,
+            (dao, timestamp) => dao.cancel(caller.address, proposalId, timestamp),
+            () => real.myDao.connect(caller).cancel(proposalId));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `cancel(account${this.account}, proposal${this.proposal})`;
+    }
+}
+
+class AmendCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly account: number, readonly proposal: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model, real: Real): Promise<void> {
+        const caller = real.accounts[this.account];
+        const proposalId = this.proposal % (model.dao.proposals.length + 1);
+        const proposalHash = ethers.utils.keccak256(ethers.utils.hexlify(model.now));
+        await execute(model, real,
+            (dao, timestamp) => dao.amend(caller.address, proposalId, proposalHash, timestamp),
+            () => real.myDao.connect(caller).amend(proposalId, proposalHash));
+        await checkInvariants(real);
+    }
+
+    toString(): string {
+        return `amend(account${this.account}, proposal${this.proposal})`;
+    }
+}
+
+class IncreaseTimeCommand implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly seconds: number) {
+    }
+
+    check(): boolean {
+        return true;
+    }
+
+    async run(model: Model): Promise<void> {
+        model.now += this.seconds;
+    }
+
+    toString(): string {
+        return `increaseTime(${this.seconds})`;
+    }
+}
+
+describe('Voting invariants', function() {
+    async function fuzzFixture() {
+        const accounts = (await ethers.getSigners()).slice(0, BALANCES.length);
+        const [owner] = accounts;
+        const params: GovernanceParams = { ...PARAMS, guardian: owner.address };
+        const myDao = await deployMyDao(hre, params);
+
+        for (let i = 1; i < accounts.length; i++) {
+            await myDao.transfer(accounts[i].address, parseTokens(BALANCES[i]));
+        }
+        for (const account of accounts) {
+            for (const spender of accounts) {
+                await myDao.connect(account).approve(spender.address, ethers.constants.MaxUint256);
+            }
+        }
+
+        return { myDao, accounts, owner, params };
+    }
+
+    async function setup(): Promise<{ model: Model, real: Real }> {
+        const { myDao, accounts, owner, params } = await loadFixture(fuzzFixture);
+
+        const dao = new DaoModel(params, myDao.address);
+        dao.mint(owner.address, params.initialSupply);
+        for (let i = 1; i < accounts.length; i++) {
+            dao.transfer(owner.address, accounts[i].address, parseTokens(BALANCES[i]), 0);
+        }
+
+        return { model: { dao, now: await time.latest() }, real: { myDao, accounts } };
+    }
+
+    it('Random operation sequences keep the invariants', async function() {
+        this.timeout(0);
+
+        const account = fc.nat(BALANCES.length - 1);
+        const vote = fc.constantFrom(Vote.Abstain, Vote.Yes, Vote.No);
+        const commands = [
+            fc.tuple(account, fc.boolean()).map(([a, executable]) => new CreateProposalCommand(a, executable)),
+            fc.tuple(account, fc.nat(8), vote, fc.boolean())
+                .map(([a, p, v, bySig]) => new VoteCommand(a, p, v, bySig)),
+            fc.tuple(account, fc.array(fc.tuple(fc.nat(8), vote), { maxLength: 4 }))
+                .map(([a, votes]) => new VoteBatchCommand(a, votes)),
+            fc.tuple(account, fc.nat(8)).map(([a, p]) => new FinalizeCommand(a, p)),
+            fc.tuple(account, fc.nat(8)).map(([a, p]) => new ExpireCommand(a, p)),
+            fc.tuple(account, fc.nat(8)).map(([a, p]) => new ExecuteCommand(a, p)),
+            fc.tuple(account, fc.nat(8)).map(([a, p]) => new CancelCommand(a, p)),
+            fc.tuple(account, fc.nat(8)).map(([a, p]) => new AmendCommand(a, p)),
+            fc.tuple(account, account, fc.integer({ min: 0, max: 110 }))
+                .map(([from, to, percent]) => new TransferCommand(from, from, to, percent)),
+            fc.tuple(account, fc.nat(BALANCES.length)).map(([a, delegatee]) => new DelegateCommand(a, delegatee)),
+            fc.tuple(account, account, account, fc.integer({ min: 0, max: 110 }))
+                .map(([spender, from, to, percent]) => new TransferCommand(spender, from, to, percent)),
+            fc.oneof(
+                fc.integer({ min: 1, max: DAY }),
+                fc.constantFrom(VOTING_PERIOD - 1, VOTING_PERIOD, VOTING_PERIOD + 1),
+                fc.constantFrom(TIMELOCK_DELAY - 1, TIMELOCK_DELAY, TIMELOCK_DELAY + 1),
+            ).map((seconds) => new IncreaseTimeCommand(seconds)),
+        ];
+
+        await fc.assert(
+            fc.asyncProperty(fc.commands(commands, { maxCommands: MAX_COMMANDS }), async (cmds) => {
+                await fc.asyncModelRun(setup, cmds);
+            }),
+            { numRuns: NUM_RUNS },
+        );
+    });
+});
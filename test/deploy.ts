@@ -0,0 +1,239 @@
+import { expect } from 'chai';
+import { ChildProcess, spawn } from 'child_process';
+import { once } from 'events';
+import { ethers as ethersLib } from 'ethers';
+import { promises as fs } from 'fs';
+import hre, { ethers } from 'hardhat';
+import { TASK_NODE_CREATE_SERVER } from 'hardhat/builtin-tasks/task-names';
+import { JsonRpcServer } from 'hardhat/types';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { DEPLOYMENT_CONFIGS } from '../scripts/config';
+import { MyDao__factory } from '../typechain-types';
+import {
+    ClaimTree,
+    DeploymentConfig,
+    DeploymentVerificationError,
+    deployDao,
+    getAbiHash,
+    MyDaoClient,
+    parseTokens,
+    readDeploymentManifest,
+    verifyDeployment,
+    writeDeploymentManifest,
+} from '../src';
+
+async function getFreePort(): Promise<number> {
+    const server = net.createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+    return port;
+}
+
+/**
+ * Start `hardhat node` forking the given JSON-RPC endpoint, resolves once it accepts requests
+ */
+async function startForkedNode(forkUrl: string, forkBlockNumber: number, port: number): Promise<ChildProcess> {
+    const node = spawn(
+        process.execPath,
+        [
+            require.resolve('hardhat/internal/cli/cli'),
+            'node',
+            '--port', String(port),
+            '--fork', forkUrl,
+            '--fork-block-number', String(forkBlockNumber),
+        ],
+        { cwd: path.join(__dirname, '..'), stdio: ['ignore', 'pipe', 'pipe'] },
+    );
+    let output = '';
+    await new Promise<void>((resolve, reject) => {
+        node.stdout!.on('data', (data) => {
+            output += data;
+            if (output.includes('Started HTTP and WebSocket JSON-RPC server')) {
+                output = '';
+                resolve();
+            }
+        });
+        node.stderr!.on('data', (data) => output += data);
+        node.once('exit', (code) => reject(new Error(`Hardhat node exited with ${code}: ${output}`)));
+    });
+    return node;
+}
+
+describe('Deployment', function() {
+    let directory: string;
+
+    beforeEach(async function() {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'deployments-'));
+    });
+
+    afterEach(async function() {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    async function getConfig(): Promise<DeploymentConfig> {
+        const [, first, second] = await ethers.getSigners();
+        return {
+            params: { maxProposals: 5, proposalDeposit: parseTokens(1) },
+            distribution: [
+                { account: first.address, amount: parseTokens(30) },
+                { account: second.address, amount: parseTokens(20) },
+            ],
+        };
+    }
+
+    it('Deploy to the local network', async function() {
+        const [owner, first, second] = await ethers.getSigners();
+
+        const { myDao, manifest } = await deployDao(hre, await getConfig());
+        const receipt = await myDao.deployTransaction.wait();
+
+        expect(manifest).to.deep.include({
+            network: 'hardhat',
+            chainId: 31337,
+            address: myDao.address,
+            deployer: owner.address,
+            blockNumber: receipt.blockNumber,
+            transactionHash: receipt.transactionHash,
+            abiHash: await getAbiHash(hre),
+        });
+        expect(manifest.constructorArgs).to.deep.include({
+            maxProposals: 5,
+            votingPeriod: 3 * 24 * 60 * 60,
+            initialSupply: parseTokens(100).toString(),
+            proposalDeposit: parseTokens(1).toString(),
+        });
+        expect(manifest.distribution).to.deep.equal([
+            { account: first.address, amount: parseTokens(30).toString() },
+            { account: second.address, amount: parseTokens(20).toString() },
+        ]);
+        expect(await myDao.maxProposals()).to.equal(5);
+        expect(await myDao.balanceOf(owner.address)).to.equal(parseTokens(50));
+        expect(await myDao.balanceOf(first.address)).to.equal(parseTokens(30));
+        expect(await myDao.balanceOf(second.address)).to.equal(parseTokens(20));
+    });
+
+    it('Deploy with the network configs', async function() {
+        const { myDao, manifest } = await deployDao(hre, DEPLOYMENT_CONFIGS[hre.network.name]);
+
+        expect(manifest.distribution).to.have.lengthOf(3);
+        expect(await myDao.balanceOf(manifest.deployer)).to.equal(0);
+    });
+
+    it('Deploy with claims', async function() {
+        const [owner, first, second, claimant] = await ethers.getSigners();
+        const claims = [{ account: claimant.address, amount: parseTokens(15) }];
+
+        const { myDao, manifest } = await deployDao(hre, { ...await getConfig(), claims });
+
+        expect(manifest.claimRoot).to.equal(new ClaimTree(claims).root);
+        expect(manifest.claimSupply).to.equal(parseTokens(15).toString());
+        expect(await myDao.balanceOf(owner.address)).to.equal(parseTokens(35));
+        expect(await myDao.balanceOf(first.address)).to.equal(parseTokens(30));
+        expect(await myDao.balanceOf(second.address)).to.equal(parseTokens(20));
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(15));
+
+        await new MyDaoClient(myDao.connect(claimant)).claim(new ClaimTree(claims));
+        await expect(verifyDeployment(hre, myDao, manifest)).to.be.rejectedWith(DeploymentVerificationError,
+            `unclaimed supply is not ${parseTokens(15)}`);
+    });
+
+    it('Write and read manifest', async function() {
+        const { manifest } = await deployDao(hre, await getConfig());
+
+        const file = await writeDeploymentManifest(directory, manifest);
+
+        expect(file).to.equal(path.join(directory, 'hardhat.json'));
+        expect(await readDeploymentManifest(directory, 'hardhat')).to.deep.equal(manifest);
+    });
+
+    it('Distribution exceeding the initial supply is rejected before deploying', async function() {
+        const [, first] = await ethers.getSigners();
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        await expect(deployDao(hre, {
+            params: { initialSupply: parseTokens(10) },
+            distribution: [{ account: first.address, amount: parseTokens(11) }],
+        })).to.be.rejectedWith('Distribution exceeds the initial supply');
+        await expect(deployDao(hre, {
+            params: { initialSupply: parseTokens(10) },
+            distribution: [{ account: first.address, amount: parseTokens(6) }],
+            claims: [{ account: first.address, amount: parseTokens(5) }],
+        })).to.be.rejectedWith('Distribution exceeds the initial supply');
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it('Verification reports every mismatch', async function() {
+        const [, first] = await ethers.getSigners();
+        const { myDao, manifest } = await deployDao(hre, await getConfig());
+
+        const tampered = {
+            ...manifest,
+            constructorArgs: { ...manifest.constructorArgs, maxProposals: 3 },
+            distribution: [{ ...manifest.distribution[0], amount: parseTokens(31).toString() }],
+            abiHash: ethers.constants.HashZero,
+        };
+
+        const error = await verifyDeployment(hre, myDao, tampered).then(() => undefined, (e) => e);
+        expect(error).to.be.instanceOf(DeploymentVerificationError);
+        expect(error.errors).to.deep.equal([
+            'ABI hash does not match the build',
+            'maxProposals is 5, expected 3',
+            `balance of ${manifest.deployer} is ${parseTokens(50)}, expected ${parseTokens(69)}`,
+            `balance of ${first.address} is ${parseTokens(30)}, expected ${parseTokens(31)}`,
+        ]);
+    });
+
+    it('Verification fails once the DAO is used', async function() {
+        const { myDao, manifest } = await deployDao(hre, await getConfig());
+
+        await myDao.createProposal(ethers.utils.id('Proposal'));
+
+        await expect(verifyDeployment(hre, myDao, manifest))
+            .to.be.rejectedWith(DeploymentVerificationError, 'proposals were created');
+    });
+
+    it('Deploy to a forked stand-in node', async function() {
+        this.timeout(120_000);
+        const local = await deployDao(hre, await getConfig());
+
+        // The local network stands in for a live one, served over JSON-RPC and forked by a separate node
+        const server: JsonRpcServer = await hre.run(TASK_NODE_CREATE_SERVER, {
+            hostname: '127.0.0.1',
+            port: 0,
+            provider: hre.network.provider,
+        });
+        const { port: upstreamPort } = await server.listen();
+        let node: ChildProcess | undefined;
+        try {
+            const port = await getFreePort();
+            const forkBlockNumber = await ethers.provider.getBlockNumber();
+            node = await startForkedNode(`http://127.0.0.1:${upstreamPort}`, forkBlockNumber, port);
+            const provider = new ethersLib.providers.JsonRpcProvider(`http://127.0.0.1:${port}`);
+            provider.pollingInterval = 100;
+
+            // Deployments made before the fork block are verified against the fork
+            await verifyDeployment(hre, MyDao__factory.connect(local.manifest.address, provider), local.manifest);
+
+            const { myDao, manifest } = await deployDao(
+                hre,
+                await getConfig(),
+                { signer: provider.getSigner(0), network: 'standin' },
+            );
+
+            expect(manifest.network).to.equal('standin');
+            expect(manifest.blockNumber).to.be.greaterThan(local.manifest.blockNumber);
+            expect(await ethers.provider.getCode(manifest.address)).to.equal('0x', 'Fork should not write upstream');
+            await writeDeploymentManifest(directory, manifest);
+            await verifyDeployment(hre, myDao, await readDeploymentManifest(directory, 'standin'));
+        } finally {
+            if (node !== undefined && node.exitCode === null) {
+                node.kill();
+                await once(node, 'exit');
+            }
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,43 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import hre from 'hardhat';
+import path from 'path';
+import {
+    compareSimulationReports,
+    loadScenarios,
+    runScenarioOnChain,
+    Scenario,
+    simulateScenario,
+    SimulationReport,
+} from '../src';
+
+const SCENARIOS_DIRECTORY = path.join(__dirname, '..', 'scenarios');
+
+/**
+ * Unmet expectations and failures of steps which were not expected to revert
+ */
+function getUnexpected(scenario: Scenario, report: SimulationReport): string[] {
+    return [
+        ...report.mismatches,
+        ...report.failures
+            .filter(({ step }) => scenario.steps[step].reverts === undefined)
+            .map(({ step, reason }) => `step ${step} reverted with "${reason}"`),
+    ];
+}
+
+describe('Scenarios', function() {
+    const files = fs.readdirSync(SCENARIOS_DIRECTORY).filter((file) => /\.(ya?ml|json)$/.test(file)).sort();
+
+    for (const file of files) {
+        it(file, async function() {
+            for (const scenario of await loadScenarios(path.join(SCENARIOS_DIRECTORY, file))) {
+                const expected = await simulateScenario(scenario);
+                expect(getUnexpected(scenario, expected), `${scenario.name} on the model`).to.deep.equal([]);
+
+                const actual = await runScenarioOnChain(hre, scenario);
+                expect(getUnexpected(scenario, actual), `${scenario.name} on the contract`).to.deep.equal([]);
+                expect(compareSimulationReports(expected, actual), scenario.name).to.deep.equal([]);
+            }
+        });
+    }
+});
@@ -0,0 +1,249 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import path from 'path';
+import {
+    compareSimulationReports,
+    DaoModel,
+    DecisionRule,
+    DEFAULT_GOVERNANCE_PARAMS,
+    deployMyDao,
+    getScenarioParams,
+    InvalidGovernanceParamsError,
+    InvalidScenarioError,
+    loadScenario,
+    loadScenarios,
+    parseTokens,
+    ProposalState,
+    runScenarioOnChain,
+    Scenario,
+    simulateScenario,
+    validateScenario,
+} from '../src';
+
+const DAY = 24 * 60 * 60;
+const SCENARIO_FILE = path.join(__dirname, '..', 'scenarios', 'proposal-backlog.yaml');
+
+describe('Simulation', function() {
+    let scenario: Scenario;
+
+    before(async function() {
+        scenario = await loadScenario(SCENARIO_FILE);
+    });
+
+    it('Report outcomes, resolution times and blocked proposals', async function() {
+        const report = await simulateScenario(scenario);
+
+        expect(report.proposals.map(({ proposal, state, timeToResolution }) => ({ proposal, state, timeToResolution })))
+            .to.deep.equal([
+                { proposal: 'Fund the grants program', state: ProposalState.Accepted, timeToResolution: 360 },
+                { proposal: 'Shorten the voting period', state: ProposalState.Expired, timeToResolution: 259280 },
+                { proposal: 'Hire an auditor', state: ProposalState.Expired, timeToResolution: 3 * DAY },
+                { proposal: 'Rename the token', state: ProposalState.Rejected, timeToResolution: 258900 },
+            ]);
+        // Votes are weighted by the balances and delegations before the proposal was created
+        expect(report.proposals[0]).to.deep.include({ yesVotes: '65.0', noVotes: '0.0' });
+        expect(report.proposals[3]).to.deep.include({ yesVotes: '30.0', noVotes: '70.0' });
+        expect(report.blocked).to.equal(1);
+        expect(report.failures).to.deep.equal([
+            { step: 3, action: 'propose', holder: 'carol', reason: 'Max number of pending proposals reached' },
+            { step: 7, action: 'vote', holder: 'bob', reason: 'Proposal is not pending' },
+        ]);
+    });
+
+    it('Contract has the same outcomes as the model', async function() {
+        const expected = await simulateScenario(scenario);
+
+        const actual = await runScenarioOnChain(hre, scenario);
+
+        expect(compareSimulationReports(expected, actual)).to.deep.equal([]);
+        expect(actual).to.deep.equal(expected);
+    });
+
+    it('What-if parameters change the outcomes on both sides', async function() {
+        const overrides = { maxProposals: 4, decisionRule: DecisionRule.QuorumMajority, quorumPercent: 30 };
+
+        const report = await simulateScenario(scenario, overrides);
+
+        expect(report.blocked).to.equal(0);
+        expect(report.proposals.map((proposal) => proposal.proposal)).to.deep.equal([
+            'Fund the grants program',
+            'Shorten the voting period',
+            'Hire an auditor',
+            'Rename the token',
+            'Rename the token',
+        ]);
+        expect(report.proposals[1]).to.deep.include({ state: ProposalState.Rejected, resolvedAt: 259400 });
+        expect(compareSimulationReports(report, await runScenarioOnChain(hre, scenario, overrides)))
+            .to.deep.equal([]);
+    });
+
+    it('Scenario files hold one or more YAML documents', async function() {
+        const file = path.join(__dirname, '..', 'scenarios', 'proposal-lifecycle.yaml');
+
+        expect(await loadScenarios(file)).to.have.length(4);
+        await expect(loadScenario(file)).to.be.rejectedWith(`${file} holds 4 scenarios, expected one`);
+    });
+
+    it('Pending proposals have no resolution time', async function() {
+        const report = await simulateScenario({ ...scenario, steps: scenario.steps.slice(0, 3), end: undefined });
+
+        expect(report.end).to.equal(180);
+        expect(report.proposals.map((proposal) => proposal.state))
+            .to.deep.equal(Array(3).fill(ProposalState.Pending));
+        expect(report.proposals[0].resolvedAt).to.equal(undefined);
+        expect(report.proposals[0].timeToResolution).to.equal(undefined);
+    });
+
+    it('Steps on proposals which were not created fail', async function() {
+        const report = await simulateScenario({
+            ...scenario,
+            params: { maxProposals: 1 },
+            steps: [
+                { at: 10, action: 'propose', holder: 'alice', proposal: 'First' },
+                { at: 20, action: 'propose', holder: 'bob', proposal: 'Second' },
+                { at: 30, action: 'vote', holder: 'bob', proposal: 'Second', vote: 'yes' },
+            ],
+        });
+
+        expect(report.blocked).to.equal(1);
+        expect(report.failures[1]).to.deep.equal({
+            step: 2,
+            action: 'vote',
+            holder: 'bob',
+            reason: 'Proposal "Second" was not created',
+        });
+    });
+
+    it('Reports differences between model and contract', async function() {
+        const expected = await simulateScenario(scenario);
+        const [first, ...rest] = expected.proposals;
+        const actual = { ...expected, blocked: 0, proposals: [{ ...first, yesVotes: '40.0' }, ...rest] };
+
+        expect(compareSimulationReports(expected, actual)).to.deep.equal([
+            'yesVotes of proposal #0 is "40.0", expected "65.0"',
+            'blocked proposals is 0, expected 1',
+        ]);
+        expect(compareSimulationReports(expected, { ...expected, proposals: [first] }))
+            .to.deep.equal(['number of proposals is 1, expected 4']);
+    });
+
+    it('Unmet expectations are reported on both sides', async function() {
+        const checked: Scenario = {
+            name: 'Expectations',
+            holders: { alice: '25', bob: '40', carol: '35' },
+            steps: [
+                { at: 10, action: 'propose', holder: 'alice', proposal: 'P', reverts: 'Proposal exists' },
+                {
+                    at: 20,
+                    action: 'vote',
+                    holder: 'bob',
+                    proposal: 'P',
+                    vote: 'yes',
+                    events: [{ event: 'Voted', proposal: 'P', voter: 'bob', vote: 'no' }],
+                },
+                { at: 30, action: 'vote', holder: 'carol', proposal: 'P', vote: 'no', reverts: 'Wrong reason' },
+                {
+                    at: 40,
+                    action: 'transfer',
+                    holder: 'carol',
+                    to: 'alice',
+                    amount: '5',
+                    events: [{ event: 'Transfer', from: 'carol', to: 'alice', amount: '5' }],
+                    expect: { proposals: { P: { yes: '40', no: '35' } } },
+                },
+            ],
+            expect: {
+                proposals: { P: { state: 'Accepted' } },
+                balances: { alice: '25', MyDao: '0' },
+                votes: { P: { bob: 'yes', alice: 'no' } },
+            },
+        };
+        validateScenario(checked);
+
+        const expected = await simulateScenario(checked);
+
+        expect(expected.mismatches).to.deep.equal([
+            'step 0 (propose by alice) succeeded, expected it to revert with "Proposal exists"',
+            'step 1 (vote by bob): vote of Voted is yes, expected no',
+            'step 2 (vote by carol) succeeded, expected it to revert with "Wrong reason"',
+            'end: state of "P" is Pending, expected Accepted',
+            'end: balance of alice is 30.0, expected 25.0',
+            'end: vote of alice for "P" is abstain, expected no',
+        ]);
+        expect(compareSimulationReports(expected, await runScenarioOnChain(hre, checked))).to.deep.equal([]);
+    });
+
+    it('Governance parameters are checked like the contract constructor does', async function() {
+        const invalid = (fn: () => unknown): string[] => {
+            try {
+                fn();
+            } catch (e) {
+                expect(e).to.be.instanceOf(InvalidGovernanceParamsError);
+                return (e as InvalidGovernanceParamsError).errors;
+            }
+            return [];
+        };
+
+        expect(invalid(() => getScenarioParams(scenario, { quorumPercent: 60 }))).to.deep.equal([
+            'Quorum must not exceed threshold',
+        ]);
+        expect(invalid(() => getScenarioParams({ ...scenario, params: { thresholdPercent: 70, quorumPercent: 70 } }, {
+            thresholdPercent: 40,
+            proposalDeposit: parseTokens(101),
+        }))).to.deep.equal([
+            'Threshold must be in [50, 100)',
+            'Quorum must not exceed threshold',
+            'Proposal deposit exceeds initial supply',
+        ]);
+        expect(invalid(() => new DaoModel({ ...DEFAULT_GOVERNANCE_PARAMS, maxProposals: 0 }))).to.deep.equal([
+            'Max proposals must be positive',
+        ]);
+        await expect(simulateScenario(scenario, { thresholdPercent: 100 }))
+            .to.be.rejectedWith(InvalidGovernanceParamsError);
+        await expect(deployMyDao(hre, { thresholdPercent: 100 })).to.be.revertedWith('Threshold must be in [50, 100)');
+    });
+
+    it('Invalid scenarios are rejected', function() {
+        const invalid = (value: unknown): string[] => {
+            try {
+                validateScenario(value);
+            } catch (e) {
+                expect(e).to.be.instanceOf(InvalidScenarioError);
+                return (e as InvalidScenarioError).errors;
+            }
+            return [];
+        };
+        const holders = { alice: '10', bob: '0' };
+
+        expect(invalid({ name: 'No holders', holders: {}, steps: [] })).to.deep.equal([
+            '/holders must NOT have fewer than 1 properties',
+        ]);
+        expect(invalid({ name: 'Missing vote', holders, steps: [
+            { at: 1, action: 'vote', holder: 'alice', proposal: 'P' },
+        ] })).to.deep.equal(['/steps/0 must have required property \'vote\'', '/steps/0 must match "then" schema']);
+        expect(invalid({ name: 'Steps', holders, steps: [
+            { at: 5, action: 'propose', holder: 'alice', proposal: 'P' },
+            { at: 5, action: 'vote', holder: 'carol', proposal: 'Q', vote: 'yes' },
+            { at: 6, action: 'transfer', holder: 'alice', to: 'dave', amount: '1.5' },
+            { at: 7, action: 'delegate', holder: 'alice', to: 'toString' },
+        ], expect: { balances: { constructor: '0' } }, end: 4 })).to.deep.equal([
+            '/steps/1 is not after the previous step',
+            '/steps/1 names unknown holder carol',
+            '/steps/1 names proposal "Q" before it is proposed',
+            '/steps/2 names unknown holder dave',
+            '/steps/3 names unknown holder toString',
+            '/end is before the last step',
+            '/expect names unknown holder constructor',
+        ]);
+        expect(invalid({ name: 'Decimals', holders: { alice: '5.1234567', bob: '5.123456' }, steps: [] }))
+            .to.deep.equal(['/holders/alice must match pattern "^[0-9]+(\\.[0-9]{1,6})?$"']);
+        expect(invalid({ name: 'Empty', holders: { alice: '0' }, steps: [] })).to.deep.equal([
+            '/holders have no tokens',
+        ]);
+        expect(invalid({ name: 'Params', params: { thresholdPercent: 100, quorumPercent: 100 }, holders, steps: [] }))
+            .to.deep.equal([
+                '/params/thresholdPercent must be <= 99',
+                '/params/quorumPercent must be <= 99',
+            ]);
+    });
+});
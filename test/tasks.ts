@@ -0,0 +1,298 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { promises as fs } from 'fs';
+import hre, { ethers } from 'hardhat';
+import os from 'os';
+import path from 'path';
+import {
+    deployMyDao,
+    formatDuration,
+    getProposalHash,
+    parseTokens,
+    ProposalState,
+    SimulationReport,
+    Vote,
+} from '../src';
+
+const DAY = 24 * 60 * 60;
+const VOTING_PERIOD = 3 * DAY;
+
+/**
+ * Run a task and collect everything it prints
+ */
+async function runTask(name: string, args: Record<string, unknown>): Promise<{ result: any, output: string }> {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...data: unknown[]) => lines.push(data.join(' '));
+    try {
+        const result = await hre.run(name, args);
+        return { result, output: lines.join('\n') };
+    } finally {
+        console.log = log;
+    }
+}
+
+describe('DAO tasks', function() {
+    async function deployTasksFixture() {
+        const [owner, voter, noTokensAccount] = await ethers.getSigners();
+        const myDao = await deployMyDao(hre);
+
+        await myDao.transfer(voter.address, parseTokens(40));
+
+        return { myDao, dao: myDao.address, owner, voter, noTokensAccount };
+    }
+
+    it('dao:propose', async function() {
+        const { myDao, dao, voter } = await loadFixture(deployTasksFixture);
+
+        const { result, output } = await runTask('dao:propose', { dao, from: voter.address, text: 'Test proposal' });
+
+        expect(result).to.equal(0);
+        expect(output).to.contain('Created proposal #0');
+        expect(output).to.contain(getProposalHash('Test proposal'));
+        expect((await myDao.proposals(0)).proposalHash).to.equal(getProposalHash('Test proposal'));
+    });
+
+    it('dao:propose with deposit', async function() {
+        const myDao = await deployMyDao(hre, { proposalDeposit: parseTokens(5) });
+
+        const { output } = await runTask('dao:propose', { dao: myDao.address, text: 'Test proposal' });
+
+        expect(output).to.contain('Deposit: 5.0 MDA, returned if the proposal is decided');
+        expect(await myDao.balanceOf(myDao.address)).to.equal(parseTokens(5));
+    });
+
+    it('dao:vote', async function() {
+        const { dao, voter } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        const { result, output } = await runTask('dao:vote', { dao, from: voter.address, id: 0, choice: 'no' });
+
+        expect(result).to.equal(ProposalState.Pending);
+        expect(output).to.contain('Voted NO for proposal #0');
+        expect(output).to.contain('State: Pending');
+        expect(output).to.contain('No:    40.0 MDA');
+        expect(output).to.contain(`TTL:   ${formatDuration(VOTING_PERIOD - 1)} left`);
+    });
+
+    it('dao:finalize', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        await expect(runTask('dao:finalize', { dao, id: 0 })).to.be.revertedWith('Voting period is not over');
+
+        await time.increase(VOTING_PERIOD);
+        const { result, output } = await runTask('dao:finalize', { dao, id: 0 });
+
+        expect(result).to.equal(ProposalState.Expired);
+        expect(output).to.contain('Finalized proposal #0: Expired');
+    });
+
+    it('dao:expire', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        await expect(runTask('dao:expire', { dao, id: 0 })).to.be.revertedWith('Voting period is not over');
+
+        await time.increase(VOTING_PERIOD);
+        const { output } = await runTask('dao:expire', { dao, id: 0 });
+
+        expect(output).to.equal('Expired proposal #0');
+        expect((await runTask('dao:list', { dao })).output).to.equal('No proposals');
+    });
+
+    it('dao:vote resolves proposal', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        const { result, output } = await runTask('dao:vote', { dao, id: 0, choice: 'yes' });
+
+        expect(result).to.equal(ProposalState.Accepted);
+        expect(output).to.contain('State: Accepted');
+        expect(output).to.contain('Yes:   60.0 MDA');
+    });
+
+    it('dao:vote with unknown choice', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+
+        await expect(runTask('dao:vote', { dao, id: 0, choice: 'maybe' }))
+            .to.be.rejectedWith('Unknown vote choice: maybe');
+    });
+
+    it('dao:vote without tokens', async function() {
+        const { dao, noTokensAccount } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+
+        await expect(runTask('dao:vote', { dao, from: noTokensAccount.address, id: 0, choice: 'yes' }))
+            .to.be.rejectedWith('You must hold tokens to vote or create proposals');
+    });
+
+    it('dao:amend and dao:cancel', async function() {
+        const { myDao, dao, voter } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        await runTask('dao:vote', { dao, from: voter.address, id: 0, choice: 'no' });
+
+        const amended = await runTask('dao:amend', { dao, id: 0, text: 'Amended proposal' });
+        expect(amended.result).to.equal(getProposalHash('Amended proposal'));
+        expect(amended.output).to.contain('Amended proposal #0');
+        expect(amended.output).to.contain('No:    0.0 MDA');
+        // The TTL is kept, two blocks were mined since the proposal
+        expect(amended.output).to.contain(`TTL:   ${formatDuration(VOTING_PERIOD - 2)} left`);
+
+        await expect(runTask('dao:cancel', { dao, from: voter.address, id: 0 }))
+            .to.be.revertedWith('Only creator can cancel pending proposals');
+        const { output } = await runTask('dao:cancel', { dao, id: 0 });
+        expect(output).to.equal('Cancelled proposal #0');
+        expect((await myDao.proposals(0)).state).to.equal(ProposalState.Cancelled);
+    });
+
+    it('dao:status', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        await time.increase(VOTING_PERIOD + DAY);
+
+        const { result, output } = await runTask('dao:status', { dao, id: 0 });
+
+        expect(result.proposalHash).to.equal(getProposalHash('Test proposal'));
+        expect(output).to.contain('Proposal #0');
+        expect(output).to.contain('State: Expired');
+        expect(output).to.contain(`TTL:   expired ${formatDuration(DAY)} ago`);
+    });
+
+    it('dao:status with proposal store', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+        const store = await fs.mkdtemp(path.join(os.tmpdir(), 'proposals-'));
+
+        try {
+            await runTask('dao:propose', { dao, store, text: 'Stored proposal' });
+            await runTask('dao:propose', { dao, text: 'Unstored proposal' });
+
+            expect((await runTask('dao:status', { dao, store, id: 0 })).output)
+                .to.contain('Text:  Stored proposal');
+            expect((await runTask('dao:status', { dao, store, id: 1 })).output)
+                .to.contain('Text:  <not stored>');
+        } finally {
+            await fs.rm(store, { recursive: true, force: true });
+        }
+    });
+
+    it('dao:list', async function() {
+        const { dao } = await loadFixture(deployTasksFixture);
+
+        expect((await runTask('dao:list', { dao })).output).to.equal('No proposals');
+
+        await runTask('dao:propose', { dao, text: 'Proposal 0' });
+        await runTask('dao:propose', { dao, text: 'Proposal 1' });
+        await runTask('dao:vote', { dao, id: 0, choice: 'yes' });
+
+        const active = await runTask('dao:list', { dao });
+        expect(active.result).to.have.length(1);
+        expect(active.output).to.contain(`#1 Pending ${getProposalHash('Proposal 1')}`);
+        expect(active.output).to.not.contain('#0');
+
+        const all = await runTask('dao:list', { dao, all: true });
+        expect(all.result).to.have.length(2);
+        expect(all.output).to.contain(`#0 Accepted ${getProposalHash('Proposal 0')}`);
+        expect(all.output).to.contain('Yes: 60.0 MDA, No: 0.0 MDA');
+    });
+
+    it('dao:balance', async function() {
+        const { dao, owner, voter } = await loadFixture(deployTasksFixture);
+
+        expect((await runTask('dao:balance', { dao, account: voter.address })).output)
+            .to.equal(`${voter.address}: 40.0 MDA`);
+
+        const { result, output } = await runTask('dao:balance', { dao });
+        expect(result).to.equal(parseTokens(60));
+        expect(output).to.equal(`${owner.address}: 60.0 MDA`);
+    });
+
+    it('dao:delegate', async function() {
+        const { myDao, dao, owner, voter } = await loadFixture(deployTasksFixture);
+
+        const { result, output } = await runTask('dao:delegate', { dao, from: voter.address, to: owner.address });
+
+        expect(result).to.equal(parseTokens(100));
+        expect(output).to.contain(`Delegated to ${owner.address}`);
+        expect(output).to.contain('Voting power: 100.0 MDA');
+        expect(await myDao.delegates(voter.address)).to.equal(owner.address);
+    });
+
+    it('dao:vote with reason', async function() {
+        const { myDao, dao, voter } = await loadFixture(deployTasksFixture);
+
+        await runTask('dao:propose', { dao, text: 'Test proposal' });
+        const { output } = await runTask('dao:vote', { dao, from: voter.address, id: 0, choice: 'no', reason: 'Because' });
+
+        expect(output).to.contain('Voted NO for proposal #0');
+        const [event] = await myDao.queryFilter(myDao.filters.VotedWithReason());
+        expect(event.args).to.deep.equal([BigNumber.from(0), voter.address, Vote.No, 'Because']);
+    });
+
+    it('dao:comment and dao:discussion', async function() {
+        const { dao, owner, voter } = await loadFixture(deployTasksFixture);
+        const store = await fs.mkdtemp(path.join(os.tmpdir(), 'comments-'));
+
+        try {
+            await runTask('dao:propose', { dao, text: 'Test proposal' });
+            expect((await runTask('dao:discussion', { dao, id: 0 })).output).to.equal('No discussion');
+
+            const comment = await runTask('dao:comment', { dao, store, id: 0, text: 'Why now?' });
+            expect(comment.output).to.contain('Commented proposal #0');
+            expect(comment.result).to.equal(getProposalHash('Why now?'));
+            await runTask('dao:vote', { dao, from: voter.address, id: 0, choice: 'yes', reason: 'It is cheap' });
+            await runTask('dao:comment', { dao, from: voter.address, id: 0, text: 'Because', replyTo: comment.result });
+
+            const { result, output } = await runTask('dao:discussion', { dao, store, id: 0 });
+
+            expect(result).to.have.length(2);
+            expect(output).to.equal([
+                `- ${owner.address}: Why now?`,
+                `  - ${voter.address}: <${getProposalHash('Because')}>`,
+                `- ${voter.address} voted YES: It is cheap`,
+            ].join('\n'));
+        } finally {
+            await fs.rm(store, { recursive: true, force: true });
+        }
+    });
+
+    it('dao:simulate', async function() {
+        const scenario = path.join(__dirname, '..', 'scenarios', 'proposal-backlog.yaml');
+
+        const { result, output } = await runTask('dao:simulate', { scenario, maxProposals: 4, check: true });
+
+        expect(result).to.have.length(1);
+        expect(result[0].blocked).to.equal(0);
+        expect(output).to.contain('Scenario: Proposal backlog');
+        expect(output).to.contain('#0 Accepted after 6m 0s: Fund the grants program by alice');
+        expect(output).to.contain('(Yes: 65.0 MDA, No: 0.0 MDA)');
+        expect(output).to.contain('Blocked proposals: 0');
+        expect(output).to.contain('  #7 vote by bob: Proposal is not pending');
+        expect(output).to.contain('Unmet expectations:\n  step 3 (propose by carol) succeeded, expected it to revert');
+        expect(output).to.contain('The contract on hardhat has the same outcomes');
+    });
+
+    it('dao:simulate with several YAML scenarios', async function() {
+        const scenario = path.join(__dirname, '..', 'scenarios', 'proposal-lifecycle.yaml');
+
+        const { result, output } = await runTask('dao:simulate', { scenario });
+
+        expect(result).to.have.length(4);
+        expect(result.map((report: SimulationReport) => report.mismatches)).to.deep.equal([[], [], [], []]);
+        expect(output).to.contain('Scenario: Proposal cannot be voted after its voting period');
+        expect(output).to.contain('Scenario: Delegate votes with the delegated balance');
+    });
+
+    it('Format duration', function() {
+        expect(formatDuration(0)).to.equal('0s');
+        expect(formatDuration(59)).to.equal('59s');
+        expect(formatDuration(DAY + 1)).to.equal('1d 0h 0m 1s');
+        expect(formatDuration(VOTING_PERIOD - 1)).to.equal('2d 23h 59m 59s');
+    });
+});
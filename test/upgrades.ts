@@ -0,0 +1,253 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    checkTallies,
+    compareStorageLayouts,
+    createCallAction,
+    deployUpgradeableMyDao,
+    EMPTY_GENESIS,
+    getProposalHash,
+    getStorageLayout,
+    Indexer,
+    InvalidGovernanceParamsError,
+    MyDaoClient,
+    parseTokens,
+    prepareUpgrade,
+    ProposalState,
+    StorageLayout,
+    StorageLayoutError,
+    StorageType,
+    Vote,
+} from '../src';
+import { MyDaoUpgradeable__factory, MyDaoUpgradeableV2__factory } from '../typechain-types';
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+async function getImplementation(address: string): Promise<string> {
+    const slot = await ethers.provider.getStorageAt(address, IMPLEMENTATION_SLOT);
+    return ethers.utils.getAddress(ethers.utils.hexDataSlice(slot, 12));
+}
+
+describe('MyDaoUpgradeable', function() {
+    async function upgradeableFixture() {
+        const [owner, ...otherAccounts] = await ethers.getSigners();
+        const voters = otherAccounts.slice(0, 3);
+        const fromBlock = await ethers.provider.getBlockNumber();
+        const myDao = await deployUpgradeableMyDao(hre, {}, undefined, {
+            allocations: [25, 40, 35].map((x, i) => ({ account: voters[i].address, amount: parseTokens(x) })),
+        });
+
+        return { myDao, owner, voters, fromBlock };
+    }
+
+    it('Deploy behind a proxy', async function() {
+        const { myDao, owner, voters } = await loadFixture(upgradeableFixture);
+
+        expect(await myDao.name()).to.equal('MyDao');
+        expect(await myDao.symbol()).to.equal('MDA');
+        expect(await myDao.balanceOf(owner.address)).to.equal(0);
+        expect(await myDao.balanceOf(voters[1].address)).to.equal(parseTokens(40));
+        expect(await myDao.getVotingPower(voters[1].address)).to.equal(parseTokens(40));
+        expect((await new MyDaoClient(myDao).getGovernanceParams()).votingPeriod).to.equal(3 * 24 * 60 * 60);
+        expect(await getImplementation(myDao.address)).not.to.equal(myDao.address);
+    });
+
+    it('Cannot initialize twice', async function() {
+        const { myDao } = await loadFixture(upgradeableFixture);
+        const implementation = MyDaoUpgradeable__factory.connect(await getImplementation(myDao.address), myDao.signer);
+
+        await expect(myDao.initialize(EMPTY_GENESIS))
+            .to.be.revertedWith('Initializable: contract is already initialized');
+        await expect(implementation.initialize(EMPTY_GENESIS))
+            .to.be.revertedWith('Initializable: contract is already initialized');
+    });
+
+    it('Only the DAO can upgrade', async function() {
+        const { myDao, voters } = await loadFixture(upgradeableFixture);
+        const { implementation } = await prepareUpgrade(hre, myDao, { to: 'MyDaoUpgradeableV2' });
+
+        await expect(myDao.upgradeTo(implementation)).to.be.revertedWith('Upgrades must be executed by a proposal');
+        await expect(myDao.connect(voters[1]).upgradeTo(implementation))
+            .to.be.revertedWith('Upgrades must be executed by a proposal');
+    });
+
+    it('Upgrade mid-vote keeps tallies and votes', async function() {
+        const { myDao, voters, fromBlock } = await loadFixture(upgradeableFixture);
+        const v2 = MyDaoUpgradeableV2__factory.connect(myDao.address, myDao.signer);
+
+        await myDao.connect(voters[0]).createProposal(getProposalHash('Proposal 0'));
+        await myDao.connect(voters[0]).vote(0, Vote.Yes);
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+
+        const { implementation, action } = await prepareUpgrade(hre, myDao, { to: 'MyDaoUpgradeableV2' });
+        const actions = [action, createCallAction(v2, 'countUpgrade', [])];
+        const client = new MyDaoClient(myDao.connect(voters[1]));
+        await client.createProposal('Upgrade to V2', actions);
+        await myDao.connect(voters[1]).vote(1, Vote.Yes);
+        await myDao.connect(voters[2]).vote(1, Vote.Yes);
+
+        await expect(myDao.execute(1, actions)).to.emit(myDao, 'Upgraded').withArgs(implementation);
+
+        expect(await getImplementation(myDao.address)).to.equal(implementation);
+        expect(await v2.version()).to.equal(2);
+        expect(await v2.upgradeCount()).to.equal(1);
+        expect(await myDao.balanceOf(voters[2].address)).to.equal(parseTokens(35));
+
+        const proposal = await myDao.proposals(0);
+        expect(proposal.yesVotes).to.equal(parseTokens(25));
+        expect(proposal.noVotes).to.equal(parseTokens(40));
+        expect(proposal.state).to.equal(ProposalState.Pending);
+        expect(await myDao.getVote(0, voters[0].address)).to.equal(Vote.Yes);
+        expect(await myDao.getVote(0, voters[1].address)).to.equal(Vote.No);
+        expect(await myDao.getVotingWeight(0, voters[1].address)).to.equal(parseTokens(40));
+        expect((await myDao.proposals(1)).state).to.equal(ProposalState.Executed);
+
+        await expect(v2.connect(voters[2]).vote(0, Vote.No))
+            .to.emit(v2, 'ProposalRejected').withArgs(0, getProposalHash('Proposal 0'));
+
+        const indexer = new Indexer(myDao, undefined, { fromBlock });
+        await indexer.sync();
+        expect((await checkTallies(myDao, await indexer.getEvents())).mismatches).to.deep.equal([]);
+    });
+
+    it('Upgrade changing parameters while proposals are pending', async function() {
+        const { myDao, voters } = await loadFixture(upgradeableFixture);
+        const proposers = voters.map((voter) => new MyDaoClient(myDao.connect(voter)));
+        const client = new MyDaoClient(myDao);
+        await proposers[0].createProposal('Paid nothing');
+
+        const raise = await prepareUpgrade(hre, myDao, {
+            to: 'MyDaoUpgradeableV2',
+            params: { proposalDeposit: parseTokens(1) },
+        });
+        await proposers[1].createProposal('Raise the deposit', [raise.action]);
+        await myDao.connect(voters[1]).vote(1, Vote.Yes);
+        await myDao.connect(voters[2]).vote(1, Vote.Yes);
+        await myDao.execute(1, [raise.action]);
+
+        expect((await client.getGovernanceParams()).proposalDeposit).to.equal(parseTokens(1));
+        expect((await client.getProposal(0)).deposit).to.equal(0);
+        await proposers[2].createProposal('Paid one token');
+        expect((await client.getProposal(2)).deposit).to.equal(parseTokens(1));
+        expect(await myDao.depositsHeld()).to.equal(parseTokens(1));
+
+        // Proposals are resolved with the deposit they paid, not the current one
+        await myDao.connect(voters[1]).vote(0, Vote.No);
+        await expect(myDao.connect(voters[2]).vote(0, Vote.No)).to.emit(myDao, 'ProposalRejected');
+        expect(await myDao.balanceOf(voters[0].address)).to.equal(parseTokens(25));
+        expect(await myDao.depositsHeld()).to.equal(parseTokens(1));
+        await expect(myDao.connect(voters[2]).cancel(2)).to.emit(myDao, 'ProposalCancelled');
+        expect(await myDao.depositsHeld()).to.equal(0);
+
+        // Proposals created while the upgrade is voted can exceed the lowered maximum
+        const lower = await prepareUpgrade(hre, myDao, {
+            from: 'MyDaoUpgradeableV2',
+            to: 'MyDaoUpgradeableV2',
+            params: { maxProposals: 1 },
+        });
+        await proposers[1].createProposal('Lower the maximum', [lower.action]);
+        await proposers[0].createProposal('First');
+        await proposers[2].createProposal('Second');
+        await myDao.connect(voters[1]).vote(3, Vote.Yes);
+        await myDao.connect(voters[2]).vote(3, Vote.Yes);
+        await myDao.execute(3, [lower.action]);
+
+        expect(await myDao.maxProposals()).to.equal(1);
+        expect(await myDao.activeProposalsCount()).to.equal(2);
+        await expect(prepareUpgrade(hre, myDao, { from: 'MyDaoUpgradeableV2', to: 'MyDaoUpgradeableV2' }))
+            .to.be.rejectedWith(InvalidGovernanceParamsError, 'Max proposals is below the 2 pending proposals');
+        await expect(proposers[0].createProposal('Third'))
+            .to.be.revertedWith('Max number of pending proposals reached');
+
+        for (const id of [4, 5]) {
+            await myDao.connect(voters[1]).vote(id, Vote.No);
+            await myDao.connect(voters[2]).vote(id, Vote.No);
+        }
+        await expect(myDao.connect(voters[0]).createProposal(getProposalHash('Third')))
+            .to.emit(myDao, 'ProposalCreated');
+    });
+
+    it('Upgrade parameters are checked like the constructor does', async function() {
+        const { myDao } = await loadFixture(upgradeableFixture);
+
+        await expect(prepareUpgrade(hre, myDao, { to: 'MyDaoUpgradeableV2', params: { thresholdPercent: 40 } }))
+            .to.be.rejectedWith(InvalidGovernanceParamsError, 'Threshold must be in [50, 100)');
+    });
+
+    it('Upgrade to an incompatible layout is rejected before deploying', async function() {
+        const { myDao } = await loadFixture(upgradeableFixture);
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        const error = await prepareUpgrade(hre, myDao, { to: 'MyDao' }).then(() => undefined, (e) => e);
+
+        expect(error).to.be.instanceOf(StorageLayoutError);
+        expect(error.errors[0]).to.equal('_initialized is replaced by _balances');
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+});
+
+describe('Storage layout', function() {
+    let layout: StorageLayout;
+
+    before(async function() {
+        layout = await getStorageLayout(hre, 'MyDaoUpgradeable');
+    });
+
+    function findType(storageLayout: StorageLayout, label: string): StorageType {
+        return Object.values(storageLayout.types!).find((type) => type.label === label)!;
+    }
+
+    /**
+     * Copy of the layout with a member appended to a struct
+     */
+    function withStructMember(structLabel: string, memberLabel: string): StorageLayout {
+        const copy: StorageLayout = JSON.parse(JSON.stringify(layout));
+        const struct = findType(copy, structLabel);
+        const size = Number(struct.numberOfBytes);
+        struct.members!.push({ label: memberLabel, slot: String(size / 32), offset: 0, type: 't_uint256' });
+        struct.numberOfBytes = String(size + 32);
+        return copy;
+    }
+
+    it('Next version appends its variables', async function() {
+        const next = await getStorageLayout(hre, 'MyDaoUpgradeableV2');
+
+        expect(compareStorageLayouts(layout, next)).to.deep.equal([]);
+        expect(next.storage.map((variable) => variable.label).slice(layout.storage.length))
+            .to.deep.equal(['upgradeCount']);
+    });
+
+    it('Proposal struct cannot gain fields in the proposals array', async function() {
+        const next = withStructMember('struct MyDaoBase.Proposal', 'quorum');
+        const size = Number(findType(layout, 'struct MyDaoBase.Proposal').numberOfBytes);
+
+        expect(compareStorageLayouts(layout, next)).to.deep.equal([
+            `proposals: struct MyDaoBase.Proposal changes size from ${size} to ${size + 32} bytes`,
+        ]);
+    });
+
+    it('Structs in mapping values can gain fields', async function() {
+        const next = withStructMember('struct Checkpoints.History', '_extra');
+
+        expect(compareStorageLayouts(layout, next)).to.deep.equal([]);
+    });
+
+    it('Inserted, removed and retyped variables are incompatible', async function() {
+        const index = layout.storage.findIndex((variable) => variable.label === 'claimRoot');
+        const inserted = { ...layout, storage: [...layout.storage] };
+        inserted.storage.splice(index, 0, { ...layout.storage[index], label: 'inserted' });
+        const removed = { ...layout, storage: layout.storage.slice(0, -1) };
+        const retyped = { ...layout, storage: [...layout.storage] };
+        retyped.storage[index] = { ...layout.storage[index], type: 't_uint256' };
+        const moved = { ...layout, storage: [...layout.storage] };
+        moved.storage[index] = { ...layout.storage[index], slot: '100' };
+
+        expect(compareStorageLayouts(layout, inserted)[0]).to.equal('claimRoot is replaced by inserted');
+        expect(compareStorageLayouts(layout, removed)).to.deep.equal(['votingPowerCheckpoints is removed']);
+        expect(compareStorageLayouts(layout, retyped)).to.deep.equal(['claimRoot: bytes32 changes to uint256']);
+        expect(compareStorageLayouts(layout, moved))
+            .to.deep.equal([`claimRoot moves from slot ${layout.storage[index].slot} offset 0 to slot 100 offset 0`]);
+    });
+});